@@ -0,0 +1,60 @@
+// Compile escrow.hl into the CIP-57 blueprint plutus.json the validator registry reads
+// Run with `npm run build:contracts` after changing the validator, and list the new hash in registry.json
+
+import { readFileSync, writeFileSync } from 'fs';
+import { Program } from '@helios-lang/compiler';
+
+const source = readFileSync(new URL('./escrow.hl', import.meta.url), 'utf8');
+const program = new Program(source, { isTestnet: true });
+const compiled = program.compile(true);
+const [datumType, redeemerType] = program.entryPoint.mainArgTypes;
+
+const toHex = bytes => Buffer.from(bytes).toString('hex');
+
+// Helios type schema as a CIP-57 data schema; enums become their constructors
+function toBlueprintSchema(schema, title) {
+  const titled = title ? { title } : {};
+  switch (schema.kind) {
+    case 'internal':
+      if (schema.name === 'Int') return { ...titled, dataType: 'integer' };
+      if (['ByteArray', 'PubKeyHash'].includes(schema.name)) return { ...titled, dataType: 'bytes' };
+      break;
+    case 'list':
+      return { ...titled, dataType: 'list', items: toBlueprintSchema(schema.itemType) };
+    case 'enum':
+      return {
+        ...titled,
+        anyOf: schema.variantTypes.map(variant => ({
+          title: variant.name,
+          dataType: 'constructor',
+          index: variant.tag,
+          fields: variant.fieldTypes.map(field => toBlueprintSchema(field.type, field.name)),
+        })),
+      };
+  }
+  throw new Error(`No blueprint schema for Helios type ${schema.name ?? schema.kind}`);
+}
+
+const blueprint = {
+  preamble: {
+    title: 'cardano-smart-escrow/escrow',
+    description: 'Escrow validator with deadlines, approvals, an arbiter, milestones and vesting',
+    version: '1.0.0',
+    plutusVersion: 'v2',
+    compiler: { name: 'helios', version: '0.17' },
+  },
+  validators: [{
+    title: 'escrow.spend',
+    datum: { title: 'datum', schema: { $ref: '#/definitions/escrow~1Datum' } },
+    redeemer: { title: 'redeemer', schema: { $ref: '#/definitions/escrow~1Redeemer' } },
+    compiledCode: toHex(compiled.toCbor()),
+    hash: toHex(compiled.hash()),
+  }],
+  definitions: {
+    'escrow/Datum': toBlueprintSchema(datumType.toSchema(), 'Datum'),
+    'escrow/Redeemer': toBlueprintSchema(redeemerType.toSchema(), 'Redeemer'),
+  },
+};
+
+writeFileSync(new URL('./plutus.json', import.meta.url), `${JSON.stringify(blueprint, null, 2)}\n`);
+console.log(`escrow.spend ${blueprint.validators[0].hash}`);
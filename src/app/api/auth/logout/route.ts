@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession, SESSION_COOKIE } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    endSession(token);
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { NonceResponse, nonceRequestSchema } from '@/lib/api-schemas';
+import { createSignInChallenge } from '@/lib/auth';
+
+// Issue a message for the wallet to sign with CIP-30 signData
+export async function POST(request: NextRequest) {
+  try {
+    const { address } = await parseJsonBody(request, nonceRequestSchema);
+    return NextResponse.json<NonceResponse>(createSignInChallenge(address));
+  } catch (error: unknown) {
+    return errorResponse(error, 'creating sign-in challenge');
+  }
+}
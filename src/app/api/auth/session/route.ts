@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionResponse } from '@/lib/api-schemas';
+import { getRequestWallet } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// Wallet the caller is signed in as, or null
+export async function GET(request: NextRequest) {
+  return NextResponse.json<SessionResponse>({ address: getRequestWallet(request) });
+}
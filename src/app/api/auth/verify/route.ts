@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { VerifyResponse, verifyRequestSchema } from '@/lib/api-schemas';
+import { createSession, SESSION_COOKIE, SESSION_TTL_MS } from '@/lib/auth';
+
+// Check the signed challenge and start a session for the wallet
+export async function POST(request: NextRequest) {
+  try {
+    const { nonce, signature, key } = await parseJsonBody(request, verifyRequestSchema);
+
+    const session = createSession(nonce, signature, key);
+    const response = NextResponse.json<VerifyResponse>({ address: session.address, expiresAt: session.expiresAt });
+    response.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error: unknown) {
+    return errorResponse(error, 'verifying sign-in');
+  }
+}
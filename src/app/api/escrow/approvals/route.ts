@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { ApprovalsResponse } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { getPendingUnlocksForKey, getTxById } from '@/lib/db';
+import { getKeyHash } from '@/lib/escrow-access';
+import { TX_STATUS } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const wallet = requireWallet(request);
+
+    // Unlocks this wallet's key still has to sign, from any address sharing the key
+    const approvals: ApprovalsResponse = [];
+    for (const pending of getPendingUnlocksForKey(getKeyHash(wallet)!)) {
+      // Unlocks that were abandoned or completed elsewhere can no longer be approved
+      const escrow = getTxById(pending.escrowId);
+      if (!escrow || escrow.spent || escrow.status !== TX_STATUS.SIGN_UNLOCK) continue;
+      approvals.push({
+        txHash: pending.txHash,
+        complete: pending.complete,
+        escrow,
+        signed: pending.witnesses.filter(witness => witness.witnessSet != null).length,
+        required: pending.witnesses.length,
+      });
+    }
+
+    return NextResponse.json<ApprovalsResponse>(approvals);
+  } catch (error: unknown) {
+    return errorResponse(error, 'fetching approvals');
+  }
+}
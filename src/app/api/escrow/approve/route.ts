@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { SubmitResponse, approveRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { upsertWallet } from '@/lib/db';
+import { addUnlockWitness } from '@/lib/multisig';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signed-in wallet must be one of the unlock's required signers
+    const wallet = requireWallet(request);
+    const { txHash, signature } = await parseJsonBody(request, approveRequestSchema);
+
+    upsertWallet(wallet);
+    // Submits the unlock once this was the last missing signature
+    const result = await addUnlockWitness(txHash, wallet, signature);
+
+    return NextResponse.json<SubmitResponse>(result);
+  } catch (error: unknown) {
+    return errorResponse(error, 'approving unlock');
+  }
+}
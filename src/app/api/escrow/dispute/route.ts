@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { DisputeResponse, disputeRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { clearUnlockRequest, getTxById, insertDispute, transitionTx, withTransaction } from '@/lib/db';
+import { resolveDisputableEscrow } from '@/lib/disputes';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Either party may raise the dispute; from then on the app only builds the arbiter's resolution.
+    // The dispute is recorded here, not on-chain, so it doesn't stop a spend built elsewhere
+    const wallet = requireWallet(request);
+    const { escrowId, reason, evidence } = await parseJsonBody(request, disputeRequestSchema);
+    const escrow = resolveDisputableEscrow(escrowId, wallet);
+
+    // An unsigned claim or refund is dropped, so it can't be submitted past the dispute
+    withTransaction(() => {
+      clearUnlockRequest(escrow.id);
+      insertDispute(escrow.id, wallet, reason, evidence);
+      transitionTx(escrow.id, TX_STATUS.DISPUTED, TX_EVENT_SOURCE.API);
+    });
+
+    return NextResponse.json<DisputeResponse>(getTxById(escrow.id)!);
+  } catch (error: unknown) {
+    return errorResponse(error, 'raising dispute');
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { DisputesResponse } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { getDisputesByArbiter } from '@/lib/db';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Arbiter dashboard: disputes on escrows naming the signed-in wallet as arbiter
+    const wallet = requireWallet(request);
+    return NextResponse.json<DisputesResponse>(getDisputesByArbiter(wallet));
+  } catch (error: unknown) {
+    return errorResponse(error, 'fetching disputes');
+  }
+}
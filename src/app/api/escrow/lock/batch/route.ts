@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lockFundsBatch, LockEntry } from '@/lib/anvil-api';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { BatchLockResponse, batchLockRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { upsertWallet, insertTx, setTxAssets, withTransaction } from '@/lib/db';
+import { toEscrowId } from '@/lib/escrow';
+import { getKeyHash } from '@/lib/escrow-access';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+import { checkSpendable } from '@/lib/wallet-funds';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signed-in wallet is the depositor
+    const changeAddress = requireWallet(request);
+    const { entries, message } = await parseJsonBody(request, batchLockRequestSchema);
+
+    const lockEntries: LockEntry[] = entries.map(entry => ({
+      beneficiaryAddress: entry.beneficiaryAddress,
+      lovelaceAmount: entry.amount,
+      assets: entry.assets,
+      deadline: entry.deadline,
+      refundAfter: entry.refundAfter,
+      signers: entry.signers,
+      threshold: entry.threshold,
+      arbiterAddress: entry.arbiterAddress,
+      milestones: entry.milestones,
+      vesting: entry.vesting,
+    }));
+
+    await checkSpendable(changeAddress, entries.reduce((sum, entry) => sum + entry.amount, 0), 'entries');
+
+    // Build one transaction with an escrow output per entry
+    const { txHash, complete, outputIndexes, validatorHash, error } = await lockFundsBatch({
+      changeAddress,
+      entries: lockEntries,
+      message,
+    });
+    if (error || !txHash || !complete || !outputIndexes || !validatorHash) {
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build batch lock transaction', 502);
+    }
+
+    // Store one row per escrow output, keyed by txHash#index
+    withTransaction(() => {
+      upsertWallet(changeAddress);
+      lockEntries.forEach((entry, i) => {
+        const outputIndex = outputIndexes[i];
+        upsertWallet(entry.beneficiaryAddress);
+        entry.signers?.forEach(upsertWallet);
+        if (entry.arbiterAddress) upsertWallet(entry.arbiterAddress);
+        insertTx(txHash, outputIndex, changeAddress, entry.lovelaceAmount, TX_STATUS.SIGN_LOCK, TX_EVENT_SOURCE.API, {
+          beneficiary: entry.beneficiaryAddress,
+          deadline: entry.deadline,
+          refundAfter: entry.refundAfter,
+          validatorHash,
+          signers: entry.signers?.map(address => getKeyHash(address)!),
+          threshold: entry.threshold,
+          arbiter: entry.arbiterAddress ?? null,
+          milestones: entry.milestones?.map(amount => ({ amount, releaseTxHash: null })),
+          vesting: entry.vesting,
+        });
+        setTxAssets(toEscrowId(txHash, outputIndex), entry.assets ?? []);
+      });
+    });
+
+    return NextResponse.json<BatchLockResponse>({
+      txHash,
+      complete,
+      escrowIds: outputIndexes.map(index => toEscrowId(txHash, index)),
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'locking funds batch');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lockFunds } from '@/lib/anvil-api';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { LockPreviewResponse, lockRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { getMinLockLovelace } from '@/lib/escrow';
+import { getTxFee } from '@/lib/tx-parser';
+import { checkSpendable } from '@/lib/wallet-funds';
+
+// Builds the lock exactly as /escrow/lock would, but stores nothing and hands out no tx to sign
+export async function POST(request: NextRequest) {
+  try {
+    const changeAddress = requireWallet(request);
+    const {
+      beneficiaryAddress, amount, assets, deadline, refundAfter, signers, threshold, arbiterAddress, milestones, vesting,
+    } = await parseJsonBody(request, lockRequestSchema);
+
+    await checkSpendable(changeAddress, amount);
+
+    const { complete, error } = await lockFunds({
+      changeAddress,
+      beneficiaryAddress,
+      lovelaceAmount: amount,
+      assets,
+      deadline,
+      refundAfter,
+      signers,
+      threshold,
+      arbiterAddress,
+      milestones,
+      vesting,
+    });
+    if (error || !complete) {
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build lock transaction', 502);
+    }
+
+    const fee = getTxFee(complete);
+    return NextResponse.json<LockPreviewResponse>({
+      amount,
+      fee,
+      minLovelace: getMinLockLovelace({ signers, arbiterAddress, milestones, vesting }, assets),
+      total: amount + fee,
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, 'previewing lock');
+  }
+}
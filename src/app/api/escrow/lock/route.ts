@@ -1,46 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { lockFunds } from '@/lib/anvil-api';
-import { upsertWallet, upsertTx } from '@/lib/db';
-import { TX_STATUS } from '@/lib/types';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { LockResponse, lockRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { upsertWallet, insertTx, setTxAssets, withTransaction } from '@/lib/db';
+import { toEscrowId } from '@/lib/escrow';
+import { getKeyHash } from '@/lib/escrow-access';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+import { checkSpendable } from '@/lib/wallet-funds';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { changeAddress, amount, ownerKeyHash, message } = body;
+    // The signed-in wallet is the depositor
+    const changeAddress = requireWallet(request);
+    const {
+      beneficiaryAddress, amount, assets, deadline, refundAfter, signers, threshold, arbiterAddress, milestones, vesting,
+      message,
+    } = await parseJsonBody(request, lockRequestSchema);
 
-    // Validate inputs
-    if (!changeAddress || amount == null || !ownerKeyHash) {
-      return NextResponse.json(
-        { error: 'Missing changeAddress, amount, or ownerKeyHash' },
-        { status: 400 }
-      );
-    }
+    // The form caps the amount at what the wallet can spend; a request past it is refused here
+    await checkSpendable(changeAddress, amount);
 
     // Build lock transaction
-    const { txHash, complete, error } = await lockFunds({
+    const { txHash, complete, outputIndex, validatorHash, error } = await lockFunds({
       changeAddress,
+      beneficiaryAddress,
       lovelaceAmount: amount,
-      ownerKeyHash,
+      assets,
+      deadline,
+      refundAfter,
+      signers,
+      threshold,
+      arbiterAddress,
+      milestones,
+      vesting,
       message: message || 'Locking funds in escrow using Anvil API',
     });
-    if (error || !txHash || !complete) {
-      return NextResponse.json(
-        { error: error || 'Failed to build lock transaction' },
-        { status: 500 }
-      );
+    if (error || !txHash || !complete || outputIndex === undefined || !validatorHash) {
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build lock transaction', 502);
     }
 
     // Store transaction in DB
-    upsertWallet(changeAddress);
-    upsertTx(txHash, changeAddress, Number(amount), TX_STATUS.SIGN_LOCK);
+    withTransaction(() => {
+      upsertWallet(changeAddress);
+      upsertWallet(beneficiaryAddress);
+      signers?.forEach(upsertWallet);
+      if (arbiterAddress) upsertWallet(arbiterAddress);
+      insertTx(txHash, outputIndex, changeAddress, amount, TX_STATUS.SIGN_LOCK, TX_EVENT_SOURCE.API, {
+        beneficiary: beneficiaryAddress,
+        deadline,
+        refundAfter,
+        validatorHash,
+        signers: signers?.map(address => getKeyHash(address)!),
+        threshold,
+        arbiter: arbiterAddress ?? null,
+        milestones: milestones?.map(milestone => ({ amount: milestone, releaseTxHash: null })),
+        vesting,
+      });
+      setTxAssets(toEscrowId(txHash, outputIndex), assets);
+    });
 
-    return NextResponse.json({ txHash, complete });
-  } catch (err: unknown) {
-    console.error('Error locking funds:', err);
-    const message = err instanceof Error ? err.message : String(err);
-    return NextResponse.json(
-      { error: message || 'Failed to lock funds' },
-      { status: 500 }
-    );
+    return NextResponse.json<LockResponse>({ txHash, complete, escrowId: toEscrowId(txHash, outputIndex) });
+  } catch (error: unknown) {
+    return errorResponse(error, 'locking funds');
   }
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse } from '@/lib/api-response';
+import { getChainStateProvider } from '@/lib/chain-provider';
+import { reconcileEscrows } from '@/lib/reconciler';
+
+const DEFAULT_SIGN_TTL_SECONDS = 60 * 60;
+const DEFAULT_PENDING_TTL_SECONDS = 2 * 60 * 60;
+const DEFAULT_APPROVAL_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+// TTL in ms from a variable in seconds; an invalid one falls back to the default rather than
+// turning into NaN, which would expire every unsigned build at once
+function msFromEnv(name: string, fallbackSeconds: number): number {
+  const value = process.env[name];
+  const seconds = Number(value);
+  if (!value || !Number.isFinite(seconds) || seconds <= 0) {
+    if (value) console.warn(`Ignoring invalid ${name} "${value}", using ${fallbackSeconds}s`);
+    return fallbackSeconds * 1000;
+  }
+  return seconds * 1000;
+}
+
+function isAuthorized(header: string | null, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Repair stale escrow statuses from chain state; meant to be called by a cron job
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.RECONCILER_SECRET;
+    if (!secret) {
+      console.error('RECONCILER_SECRET environment variable is not set');
+      throw new ApiError(API_ERROR_CODE.NOT_CONFIGURED, 'Reconciler secret not configured', 500);
+    }
+    if (!isAuthorized(request.headers.get('Authorization'), secret)) {
+      throw new ApiError(API_ERROR_CODE.UNAUTHENTICATED, 'Unauthorized', 401);
+    }
+
+    const result = await reconcileEscrows(getChainStateProvider(), {
+      signTtlMs: msFromEnv('RECONCILER_SIGN_TTL_SECONDS', DEFAULT_SIGN_TTL_SECONDS),
+      approvalTtlMs: msFromEnv('RECONCILER_APPROVAL_TTL_SECONDS', DEFAULT_APPROVAL_TTL_SECONDS),
+      pendingTtlMs: msFromEnv('RECONCILER_PENDING_TTL_SECONDS', DEFAULT_PENDING_TTL_SECONDS),
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return errorResponse(error, 'reconciling escrows');
+  }
+}
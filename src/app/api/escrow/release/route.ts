@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockFunds } from '@/lib/anvil-api';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { UnlockResponse, unlockRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import {
+  createPendingUnlock,
+  deleteUnsignedContinuations,
+  insertTx,
+  setTxAssets,
+  setUnlockWallet,
+  transitionTx,
+  upsertWallet,
+  withTransaction,
+} from '@/lib/db';
+import { toEscrowId } from '@/lib/escrow';
+import { getKeyHash } from '@/lib/escrow-access';
+import { getMilestoneRelease, markReleased, resolveReleasableEscrow } from '@/lib/milestones';
+import { resolveApprovers } from '@/lib/multisig';
+import { getTxHash } from '@/lib/tx-parser';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signed-in wallet is the depositor; it signs and pays the fee of the release
+    const changeAddress = requireWallet(request);
+    const { escrowId, approvers: approverKeyHashes } = await parseJsonBody(request, unlockRequestSchema);
+
+    const { escrow, position } = resolveReleasableEscrow(escrowId, changeAddress);
+    // Multi-signature escrows need their approvals for every milestone
+    const approvers = escrow.threshold ? resolveApprovers(escrow, approverKeyHashes) : [];
+    const release = getMilestoneRelease(escrow, position);
+
+    const { complete, continuingOutputIndex, error } = await unlockFunds({
+      txHash: escrow.txHash,
+      outputIndex: escrow.outputIndex,
+      validatorHash: escrow.validatorHash,
+      action: 'release',
+      changeAddress,
+      approvers,
+      release,
+      unlockReason: `Releasing milestone ${position + 1} of ${escrow.milestones.length}`,
+    });
+    if (error || !complete) {
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build release transaction', 502);
+    }
+
+    // The rest stays locked in a new escrow output, recorded like a lock waiting for its signature;
+    // it replaces the one of an earlier build that was never signed
+    const releaseTxHash = getTxHash(complete);
+    withTransaction(() => {
+      deleteUnsignedContinuations(escrow.id);
+      upsertWallet(changeAddress);
+      setUnlockWallet(escrow.id, changeAddress);
+      transitionTx(escrow.id, TX_STATUS.SIGN_UNLOCK, TX_EVENT_SOURCE.API);
+      if (approvers.length > 0) {
+        createPendingUnlock(releaseTxHash, escrow.id, complete, [getKeyHash(changeAddress)!, ...approvers]);
+      }
+      if (release.remaining && continuingOutputIndex !== undefined) {
+        insertTx(releaseTxHash, continuingOutputIndex, escrow.wallet, release.remaining.lovelace,
+          TX_STATUS.SIGN_LOCK, TX_EVENT_SOURCE.API, {
+            beneficiary: escrow.beneficiary,
+            deadline: escrow.deadline,
+            refundAfter: escrow.refundAfter,
+            validatorHash: escrow.validatorHash!,
+            signers: escrow.signers,
+            threshold: escrow.threshold,
+            arbiter: escrow.arbiter,
+            milestones: markReleased(escrow.milestones, position, releaseTxHash),
+            parentEscrowId: escrow.id,
+          });
+        setTxAssets(toEscrowId(releaseTxHash, continuingOutputIndex), release.remaining.assets);
+      }
+    });
+
+    // Signed and submitted like any other unlock
+    return NextResponse.json<UnlockResponse>({ complete });
+  } catch (error: unknown) {
+    return errorResponse(error, 'releasing milestone');
+  }
+}
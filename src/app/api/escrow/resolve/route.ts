@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockFunds } from '@/lib/anvil-api';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { UnlockResponse, resolveRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { setDisputeResolution, setUnlockWallet, transitionTx, upsertWallet, withTransaction } from '@/lib/db';
+import { getDisputePayout, resolveArbitratedEscrow } from '@/lib/disputes';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signed-in wallet is the arbiter; it signs and pays the fee of the resolution
+    const changeAddress = requireWallet(request);
+    const { escrowId, resolution, beneficiaryAmount } = await parseJsonBody(request, resolveRequestSchema);
+
+    const escrow = resolveArbitratedEscrow(escrowId, changeAddress);
+    const payout = getDisputePayout(escrow, resolution, beneficiaryAmount);
+
+    const { complete, error } = await unlockFunds({
+      txHash: escrow.txHash,
+      outputIndex: escrow.outputIndex,
+      validatorHash: escrow.validatorHash,
+      action: 'resolve',
+      changeAddress,
+      payout,
+      unlockReason: 'Resolving escrow dispute',
+    });
+    if (error || !complete) {
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build resolution transaction', 502);
+    }
+
+    withTransaction(() => {
+      upsertWallet(changeAddress);
+      setUnlockWallet(escrow.id, changeAddress);
+      setDisputeResolution(escrow.id, resolution, payout.beneficiaryAmount);
+      transitionTx(escrow.id, TX_STATUS.SIGN_UNLOCK, TX_EVENT_SOURCE.API);
+    });
+
+    // Signed and submitted like any other unlock
+    return NextResponse.json<UnlockResponse>({ complete });
+  } catch (error: unknown) {
+    return errorResponse(error, 'resolving dispute');
+  }
+}
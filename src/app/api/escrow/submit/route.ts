@@ -1,45 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { submitTransaction } from '@/lib/anvil-api';
-import { updateTxStatus } from '@/lib/db';
-import { TX_STATUS } from '@/lib/types';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { SubmitResponse, submitRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import {
+  getPendingUnlock,
+  getTxById,
+  setUnlockTxHash,
+  transitionTx,
+  transitionTxsByHash,
+  withTransaction,
+} from '@/lib/db';
+import { addUnlockWitness } from '@/lib/multisig';
+import { getTxHash } from '@/lib/tx-parser';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { complete, signature, type, originalTxHash } = body;
-    
-    // Validate inputs
-    if (!complete || !signature || !(type === TX_STATUS.SIGN_LOCK || type === TX_STATUS.SIGN_UNLOCK)) {
-      return NextResponse.json(
-        { error: 'Missing complete transaction or signature' },
-        { status: 400 }
-      );
+    const wallet = requireWallet(request);
+    const { complete, signature, type, originalEscrowId, originalEscrowIds } =
+      await parseJsonBody(request, submitRequestSchema);
+    // Batch unlocks spend several escrows with one transaction
+    const escrowIds = originalEscrowIds ?? (originalEscrowId ? [originalEscrowId] : []);
+
+    // Only the wallet that built an unlock may submit it
+    for (const escrowId of escrowIds) {
+      if (getTxById(escrowId)?.unlockedBy !== wallet) {
+        throw new ApiError(API_ERROR_CODE.FORBIDDEN, `Unlock of escrow ${escrowId} was not requested by this wallet`, 403);
+      }
     }
-    
-    // For unlock transactions, originalTxHash is required
-    if (type === TX_STATUS.SIGN_UNLOCK && !originalTxHash) {
-      return NextResponse.json(
-        { error: 'Missing originalTxHash for unlock transaction' },
-        { status: 400 }
-      );
+
+    // A multi-signature unlock is only submitted once every approver has signed too
+    const pending = type === TX_STATUS.SIGN_UNLOCK ? getPendingUnlock(getTxHash(complete)) : null;
+    if (pending) {
+      const approval = await addUnlockWitness(pending.txHash, wallet, signature);
+      return NextResponse.json<SubmitResponse>(approval);
     }
 
     // Submit the signed transaction to the blockchain
-    const result = await submitTransaction(signature, complete);
+    let result: { txHash: string };
+    try {
+      result = await submitTransaction([signature], complete);
+    } catch (error: unknown) {
+      console.error('Error submitting transaction:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ApiError(API_ERROR_CODE.SUBMIT_FAILED, message || 'Failed to submit transaction', 502);
+    }
 
-    // Mark transaction as pending in DB
-    // For lock transactions, update the new txHash
-    // For unlock transactions, update the original txHash
-    const txHashToUpdate = type === TX_STATUS.SIGN_UNLOCK ? originalTxHash : result.txHash;
-    updateTxStatus(txHashToUpdate, type === TX_STATUS.SIGN_LOCK ? TX_STATUS.PENDING : TX_STATUS.UNLOCKED);
+    // For lock transactions, mark every escrow output of the new txHash as pending
+    // For unlock transactions, link every spent escrow to the unlock tx; the webhook
+    // marks them unlocked once the unlock tx is confirmed on-chain. A milestone release
+    // also creates the escrow carrying the rest, which is pending like a lock
+    if (type === TX_STATUS.SIGN_LOCK) {
+      transitionTxsByHash(result.txHash, TX_STATUS.PENDING, TX_EVENT_SOURCE.API);
+    } else {
+      withTransaction(() => {
+        for (const escrowId of escrowIds) {
+          setUnlockTxHash(escrowId, result.txHash);
+          transitionTx(escrowId, TX_STATUS.UNLOCK_PENDING, TX_EVENT_SOURCE.API);
+        }
+        transitionTxsByHash(result.txHash, TX_STATUS.PENDING, TX_EVENT_SOURCE.API);
+      });
+    }
 
-    return NextResponse.json({ txHash: result.txHash });
+    return NextResponse.json<SubmitResponse>({ txHash: result.txHash });
   } catch (error: unknown) {
-    console.error('Error submitting transaction:', error);
-    const message = error instanceof Error ? error.message : String(error);
-    return NextResponse.json(
-      { error: message || 'Failed to submit transaction' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'submitting transaction');
   }
 }
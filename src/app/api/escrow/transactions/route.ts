@@ -1,27 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseInput } from '@/lib/api-response';
+import { TransactionsResponse, transactionsQuerySchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
 import { getTxsByWallet } from '@/lib/db';
 
 export async function GET(request: NextRequest) {
-  const url = new URL(request.url);
-  const wallet = url.searchParams.get('wallet');
+  try {
+    const wallet = requireWallet(request);
 
-  // Validate wallet parameter
-  if (!wallet) {
-    return NextResponse.json(
-      { error: 'Missing wallet parameter' },
-      { status: 400 }
-    );
-  }
+    // A wallet can only read its own history
+    const query = parseInput(Object.fromEntries(request.nextUrl.searchParams), transactionsQuerySchema);
+    if (query.wallet && query.wallet !== wallet) {
+      throw new ApiError(API_ERROR_CODE.FORBIDDEN, 'Signed in as a different wallet', 403);
+    }
 
-  try {
-    const txs = getTxsByWallet(wallet);
-    return NextResponse.json(txs);
+    return NextResponse.json<TransactionsResponse>(getTxsByWallet(wallet));
   } catch (error: unknown) {
-    console.error('Error fetching transactions:', error);
-    const message = error instanceof Error ? error.message : String(error);
-    return NextResponse.json(
-      { error: message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'fetching transactions');
   }
 }
@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseInput } from '@/lib/api-response';
+import { transactionsQuerySchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { subscribeToWallet } from '@/lib/event-bus';
+import { Transaction } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+// Server-Sent Events stream of escrow changes for a wallet
+export async function GET(request: NextRequest) {
+  let wallet: string;
+  try {
+    wallet = requireWallet(request);
+
+    // A wallet can only follow its own escrows
+    const query = parseInput(Object.fromEntries(request.nextUrl.searchParams), transactionsQuerySchema);
+    if (query.wallet && query.wallet !== wallet) {
+      throw new ApiError(API_ERROR_CODE.FORBIDDEN, 'Signed in as a different wallet', 403);
+    }
+  } catch (error: unknown) {
+    return errorResponse(error, 'opening transaction stream');
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToWallet(wallet, (transaction: Transaction) => {
+        send(`event: transaction\ndata: ${JSON.stringify(transaction)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(': connected\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
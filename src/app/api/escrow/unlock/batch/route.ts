@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EscrowOutputRef, unlockFundsBatch } from '@/lib/anvil-api';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { UnlockResponse, batchUnlockRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { upsertWallet, setUnlockWallet, transitionTx, withTransaction } from '@/lib/db';
+import { getActionValidFrom } from '@/lib/escrow';
+import { resolveUnlockableEscrow } from '@/lib/escrow-access';
+import { Transaction, TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signed-in wallet receives the funds and must sign the unlock
+    const changeAddress = requireWallet(request);
+    // Script execution units grow with every input, so the schema caps the batch size
+    const { escrowIds } = await parseJsonBody(request, batchUnlockRequestSchema);
+
+    const escrows: Transaction[] = [];
+    const outputRefs: EscrowOutputRef[] = [];
+    let validFrom: number | undefined;
+    for (const escrowId of new Set(escrowIds)) {
+      const { escrow, action } = resolveUnlockableEscrow(escrowId, changeAddress);
+      // Approvals are collected per unlock tx, so multi-signature escrows are unlocked one at a time
+      if (escrow.threshold) {
+        throw new ApiError(
+          API_ERROR_CODE.VALIDATION_FAILED,
+          `Escrow ${escrowId} needs approvals and must be unlocked on its own`,
+          400,
+          [{ path: 'escrowIds', message: 'must not include multi-signature escrows' }]
+        );
+      }
+      escrows.push(escrow);
+      // Escrows may sit at different contract versions, each spent with its own redeemer
+      outputRefs.push({
+        txHash: escrow.txHash,
+        outputIndex: escrow.outputIndex,
+        validatorHash: escrow.validatorHash,
+        action,
+      });
+
+      // The tx must be valid for every selected path, so start at the latest opening
+      const escrowValidFrom = getActionValidFrom(escrow, action);
+      if (escrowValidFrom != null) {
+        validFrom = Math.max(validFrom ?? 0, escrowValidFrom);
+      }
+    }
+
+    const { complete, error } = await unlockFundsBatch({
+      outputRefs,
+      changeAddress,
+      validFrom,
+    });
+    if (error || !complete) {
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build batch unlock transaction', 502);
+    }
+
+    withTransaction(() => {
+      upsertWallet(changeAddress);
+      for (const escrow of escrows) {
+        setUnlockWallet(escrow.id, changeAddress);
+        transitionTx(escrow.id, TX_STATUS.SIGN_UNLOCK, TX_EVENT_SOURCE.API);
+      }
+    });
+
+    // Return built transaction for client-side signing and submission
+    return NextResponse.json<UnlockResponse>({ complete });
+  } catch (error: unknown) {
+    return errorResponse(error, 'unlocking funds batch');
+  }
+}
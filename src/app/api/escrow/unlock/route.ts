@@ -1,39 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { unlockFunds } from '@/lib/anvil-api';
-import { upsertWallet, upsertTx } from '@/lib/db';
-import { TX_STATUS } from '@/lib/types';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { UnlockResponse, unlockRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import { createPendingUnlock, upsertWallet, setUnlockWallet, transitionTx, withTransaction } from '@/lib/db';
+import { getActionValidFrom } from '@/lib/escrow';
+import { getKeyHash, resolveUnlockableEscrow } from '@/lib/escrow-access';
+import { resolveApprovers } from '@/lib/multisig';
+import { getTxHash } from '@/lib/tx-parser';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
-  const body = await request.json();
-  const { txHash, changeAddress, ownerKeyHash, amount } = body;
+  try {
+    // The signed-in wallet receives the funds and must sign the unlock
+    const changeAddress = requireWallet(request);
+    const { escrowId, approvers: approverKeyHashes } = await parseJsonBody(request, unlockRequestSchema);
 
-  if (!txHash || !changeAddress || !ownerKeyHash || amount == null) {
-    return NextResponse.json(
-      { error: 'Missing txHash, changeAddress, ownerKeyHash, or amount' },
-      { status: 400 }
-    );
-  }
+    // Amount and parties come from the stored escrow, never from the request
+    const { escrow, action } = resolveUnlockableEscrow(escrowId, changeAddress);
+    // Multi-signature escrows are also signed by their approvers before submission
+    const approvers = escrow.threshold ? resolveApprovers(escrow, approverKeyHashes) : [];
 
-  try {
-    const { complete, error } = await unlockFunds({ txHash, changeAddress, ownerKeyHash });
+    const { complete, error } = await unlockFunds({
+      txHash: escrow.txHash,
+      outputIndex: escrow.outputIndex,
+      validatorHash: escrow.validatorHash,
+      action,
+      changeAddress,
+      approvers,
+      validFrom: getActionValidFrom(escrow, action),
+      unlockReason: action === 'refund' ? 'Refunding escrow to depositor' : undefined,
+    });
     if (error || !complete) {
-      return NextResponse.json(
-        { error: error || 'Failed to build unlock transaction' },
-        { status: 500 }
-      );
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build unlock transaction', 502);
     }
 
-    upsertWallet(changeAddress);
-    upsertTx(txHash, changeAddress, Number(amount), TX_STATUS.PENDING);
+    // The unlocking wallet may be either party, so keep the depositor on the row
+    withTransaction(() => {
+      upsertWallet(changeAddress);
+      setUnlockWallet(escrow.id, changeAddress);
+      transitionTx(escrow.id, TX_STATUS.SIGN_UNLOCK, TX_EVENT_SOURCE.API);
+      if (approvers.length > 0) {
+        createPendingUnlock(getTxHash(complete), escrow.id, complete, [getKeyHash(changeAddress)!, ...approvers]);
+      }
+    });
 
     // Return built transaction for client-side signing and submission
-    return NextResponse.json({ complete });
-  } catch (err: unknown) {
-    console.error('Error unlocking funds:', err);
-    const message = err instanceof Error ? err.message : String(err);
-    return NextResponse.json(
-      { error: message },
-      { status: 500 }
-    );
+    return NextResponse.json<UnlockResponse>({ complete });
+  } catch (error: unknown) {
+    return errorResponse(error, 'unlocking funds');
   }
 }
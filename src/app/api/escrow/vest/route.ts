@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockFunds } from '@/lib/anvil-api';
+import { API_ERROR_CODE, ApiError } from '@/lib/api-errors';
+import { errorResponse, parseJsonBody } from '@/lib/api-response';
+import { UnlockResponse, vestRequestSchema } from '@/lib/api-schemas';
+import { requireWallet } from '@/lib/auth';
+import {
+  createPendingUnlock,
+  deleteUnsignedContinuations,
+  insertTx,
+  setTxAssets,
+  setUnlockWallet,
+  transitionTx,
+  upsertWallet,
+  withTransaction,
+} from '@/lib/db';
+import { getSlotStart, toEscrowId } from '@/lib/escrow';
+import { getKeyHash } from '@/lib/escrow-access';
+import { resolveApprovers } from '@/lib/multisig';
+import { getTxHash } from '@/lib/tx-parser';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+import { getVestingRelease, resolveVestingEscrow } from '@/lib/vesting';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signed-in wallet is the beneficiary; it signs and pays the fee of the claim
+    const changeAddress = requireWallet(request);
+    const { escrowId, amount, approvers: approverKeyHashes } = await parseJsonBody(request, vestRequestSchema);
+
+    // The validator works out what has vested from the tx validity start, as its slot
+    const validFrom = getSlotStart(Date.now());
+    const { escrow, claimable } = resolveVestingEscrow(escrowId, changeAddress, validFrom);
+    const approvers = escrow.threshold ? resolveApprovers(escrow, approverKeyHashes) : [];
+    const release = getVestingRelease(escrow, claimable, amount);
+
+    const { complete, continuingOutputIndex, error } = await unlockFunds({
+      txHash: escrow.txHash,
+      outputIndex: escrow.outputIndex,
+      validatorHash: escrow.validatorHash,
+      action: 'vest',
+      changeAddress,
+      approvers,
+      release,
+      validFrom,
+      unlockReason: `Claiming ${release.amount / 1_000_000} vested ADA`,
+    });
+    if (error || !complete) {
+      throw new ApiError(API_ERROR_CODE.BUILD_FAILED, error || 'Failed to build vesting claim transaction', 502);
+    }
+
+    // The unvested rest stays locked in a new escrow output under the same schedule,
+    // replacing the one of an earlier claim that was never signed
+    const claimTxHash = getTxHash(complete);
+    withTransaction(() => {
+      deleteUnsignedContinuations(escrow.id);
+      upsertWallet(changeAddress);
+      setUnlockWallet(escrow.id, changeAddress);
+      transitionTx(escrow.id, TX_STATUS.SIGN_UNLOCK, TX_EVENT_SOURCE.API);
+      if (approvers.length > 0) {
+        createPendingUnlock(claimTxHash, escrow.id, complete, [getKeyHash(changeAddress)!, ...approvers]);
+      }
+      if (release.remaining && continuingOutputIndex !== undefined) {
+        insertTx(claimTxHash, continuingOutputIndex, escrow.wallet, release.remaining.lovelace,
+          TX_STATUS.SIGN_LOCK, TX_EVENT_SOURCE.API, {
+            beneficiary: escrow.beneficiary,
+            deadline: escrow.deadline,
+            refundAfter: escrow.refundAfter,
+            validatorHash: escrow.validatorHash!,
+            signers: escrow.signers,
+            threshold: escrow.threshold,
+            arbiter: escrow.arbiter,
+            vesting: escrow.vesting,
+            parentEscrowId: escrow.id,
+          });
+        setTxAssets(toEscrowId(claimTxHash, continuingOutputIndex), release.remaining.assets);
+      }
+    });
+
+    // Signed and submitted like any other unlock
+    return NextResponse.json<UnlockResponse>({ complete });
+  } catch (error: unknown) {
+    return errorResponse(error, 'claiming vested funds');
+  }
+}
@@ -1,23 +1,145 @@
 import { NextResponse } from "next/server";
-import { upsertWallet, upsertTx } from "@/lib/db";
-import { TX_STATUS } from "@/lib/types";
+import { API_ERROR_CODE, ApiErrorBody } from "@/lib/api-errors";
+import {
+  insertTx,
+  setTxAssets,
+  markTxSpent,
+  getTxById,
+  findWalletByKeyHash,
+  transitionTx,
+  InvalidTransitionError,
+  recordWebhookEvent,
+  withTransaction,
+} from "@/lib/db";
+import { getSpentStatus, toEscrowId } from "@/lib/escrow";
+import { BlockfrostTxEvent, parseTxEvent } from "@/lib/blockfrost-events";
+import { TX_EVENT_SOURCE, TX_STATUS } from "@/lib/types";
+import { parseToleranceSeconds, verifyWebhookSignature } from "@/lib/webhook-signature";
+import { applyBlock, recordLockInclusion } from "@/lib/confirmations";
+import { getValidatorHashes } from "@/lib/validator-registry";
+
+function confirmUnlock(escrowId: string) {
+  try {
+    transitionTx(escrowId, getSpentStatus(getTxById(escrowId)!), TX_EVENT_SOURCE.WEBHOOK);
+  } catch (err) {
+    if (!(err instanceof InvalidTransitionError)) throw err;
+    console.warn(err.message);
+  }
+}
+
+// Apply a transaction to the escrows it spends or creates at any registered script address
+function handleTransactionEvent(event: BlockfrostTxEvent, scriptHashes: string[]) {
+  const { txHash, blockHeight, spentInputs, escrowOutputs } = parseTxEvent(event, scriptHashes);
+
+  // Any escrow UTxO consumed by this transaction has been claimed or refunded
+  for (const input of spentInputs) {
+    const escrowId = markTxSpent(input.txHash, input.outputIndex, txHash, blockHeight);
+    if (escrowId) {
+      confirmUnlock(escrowId);
+    }
+  }
+
+  for (const output of escrowOutputs) {
+    const escrowId = toEscrowId(txHash, output.outputIndex);
+
+    // Escrows recorded at lock time already know their parties and amounts
+    const known = getTxById(escrowId);
+    if (known) {
+      recordLockInclusion(known, blockHeight, TX_EVENT_SOURCE.WEBHOOK);
+      continue;
+    }
+
+    // Otherwise attribute the escrow to the depositor named in its datum
+    const depositor = output.datum && findWalletByKeyHash(output.datum.depositor);
+    if (!output.datum || !depositor) {
+      console.warn(`Ignoring escrow output ${escrowId}: no escrow datum or unknown depositor`);
+      continue;
+    }
+    const beneficiary = output.datum.beneficiary && findWalletByKeyHash(output.datum.beneficiary);
+    const arbiter = output.datum.arbiter && findWalletByKeyHash(output.datum.arbiter);
+
+    insertTx(txHash, output.outputIndex, depositor, output.lovelace, TX_STATUS.PENDING, TX_EVENT_SOURCE.WEBHOOK, {
+      beneficiary: beneficiary || null,
+      deadline: output.datum.deadline,
+      refundAfter: output.datum.refundAfter,
+      validatorHash: output.validatorHash,
+      signers: output.datum.signers,
+      threshold: output.datum.threshold,
+      arbiter: arbiter || null,
+      // Stages released before this output aren't in its datum
+      milestones: output.datum.milestones.map(amount => ({ amount, releaseTxHash: null })),
+      vesting: output.datum.vesting,
+    });
+    setTxAssets(escrowId, output.assets);
+    recordLockInclusion(getTxById(escrowId)!, blockHeight, TX_EVENT_SOURCE.WEBHOOK);
+  }
+}
 
 export async function POST(request: Request) {
+  const secret = process.env.BLOCKFROST_WEBHOOK_SECRET;
+  let scriptHashes: string[] = [];
   try {
-    const body = await request.json();
-    for (const event of body.payload) {
-      const wallet = event.inputs?.[0]?.address;
-      const txHash = event.tx.hash;
-      const amount = event.outputs?.[0]?.amount.find(
-        (a: { unit: string; quantity: string }) => a.unit === "lovelace"
-      )?.quantity;
-      if (wallet && amount) {
-        upsertWallet(wallet);
-        upsertTx(txHash, wallet, Number(amount), TX_STATUS.CONFIRMED);
+    scriptHashes = getValidatorHashes();
+  } catch (err) {
+    console.error("Failed to load escrow validators:", err);
+  }
+  if (!secret || scriptHashes.length === 0) {
+    console.error("BLOCKFROST_WEBHOOK_SECRET or the escrow validators (ESCROW_CONTRACTS or ESCROW_VALIDATOR_HASH) are not set");
+    return NextResponse.json<ApiErrorBody>(
+      { error: { code: API_ERROR_CODE.NOT_CONFIGURED, message: "Webhook not configured" } },
+      { status: 500 }
+    );
+  }
+
+  // Verify the signature against the raw body before parsing anything
+  const rawBody = await request.text();
+  const verification = verifyWebhookSignature(
+    rawBody,
+    request.headers.get("Blockfrost-Signature"),
+    secret,
+    parseToleranceSeconds(process.env.BLOCKFROST_WEBHOOK_TOLERANCE_SECONDS)
+  );
+  if (!verification.valid) {
+    console.warn("Rejected Blockfrost webhook:", verification.reason);
+    return NextResponse.json<ApiErrorBody>(
+      { error: { code: API_ERROR_CODE.UNAUTHENTICATED, message: "Invalid webhook signature" } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = JSON.parse(rawBody);
+
+    // Blockfrost retries deliveries until it gets a 2xx; handle each event ID once
+    const handled = withTransaction(() => {
+      if (body.id && !recordWebhookEvent(String(body.id))) return false;
+
+      if (body.type === "block") {
+        const { rolledBack, promoted } = applyBlock(
+          Number(body.payload.height),
+          body.payload.hash,
+          TX_EVENT_SOURCE.WEBHOOK
+        );
+        if (rolledBack > 0 || promoted > 0) {
+          console.info(`Block ${body.payload.height}: ${promoted} promoted, ${rolledBack} rolled back`);
+        }
+      } else {
+        for (const event of body.payload) {
+          handleTransactionEvent(event, scriptHashes);
+        }
       }
+      return true;
+    });
+    if (!handled) {
+      console.info("Skipping already handled webhook event", body.id);
     }
   } catch (err) {
+    // Failed events aren't recorded, so Blockfrost's retry can process them again
     console.error("Failed to handle webhook:", err);
+    return NextResponse.json<ApiErrorBody>(
+      { error: { code: API_ERROR_CODE.INTERNAL, message: "Failed to handle webhook" } },
+      { status: 500 }
+    );
   }
   return NextResponse.json({ ok: true });
 }
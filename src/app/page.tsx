@@ -6,6 +6,8 @@
 import WalletConnector from "@/components/WalletConnector";
 import LockFundsForm from "@/components/LockFundsForm";
 import MyTransactions from "@/components/MyTransactions";
+import PendingApprovals from "@/components/PendingApprovals";
+import ArbiterDashboard from "@/components/ArbiterDashboard";
 
 export default function Page() {
   return (
@@ -13,6 +15,8 @@ export default function Page() {
       <h1 className="text-3xl font-bold mb-6 text-black">Cardano Smart Escrow</h1>
       <WalletConnector />
       <LockFundsForm />
+      <PendingApprovals />
+      <ArbiterDashboard />
       <MyTransactions />
     </main>
   );
@@ -0,0 +1,138 @@
+"use client";
+
+import { useWallet } from '@ada-anvil/weld/react';
+import { useState } from 'react';
+import { useDisputes } from '@/hooks/useDisputes';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { MIN_PAYOUT_LOVELACE } from '@/lib/escrow';
+import { EscrowResolution, Transaction, TX_STATUS } from '@/lib/types';
+
+const formatAddress = (address: string | null): string => {
+  if (!address) return '-';
+  return `${address.slice(0, 12)}...${address.slice(-6)}`;
+};
+
+const formatAmount = (lovelaceAmount: number): string => {
+  return (lovelaceAmount / 1_000_000).toFixed(2);
+};
+
+const RESOLUTION_LABELS: Record<EscrowResolution, string> = {
+  release: 'Released',
+  refund: 'Refunded',
+  split: 'Split',
+};
+
+// Release, refund or split one disputed escrow
+function ResolveActions({ escrow, busy, onResolve }: {
+  escrow: Transaction;
+  busy: boolean;
+  onResolve: (resolution: EscrowResolution, beneficiaryAmount?: number) => void;
+}) {
+  const [splitAda, setSplitAda] = useState('');
+  const splitLovelace = Math.round(Number(splitAda) * 1_000_000);
+  // Escrows holding tokens can't be split, and each side needs a spendable output
+  const canSplit = escrow.assets.length === 0 &&
+    splitLovelace >= MIN_PAYOUT_LOVELACE && escrow.amount - splitLovelace >= MIN_PAYOUT_LOVELACE;
+  const buttonClass = 'button-primary py-1 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button disabled={busy} className={buttonClass} onClick={() => onResolve('release')}>
+        Release
+      </button>
+      <button disabled={busy} className={buttonClass} onClick={() => onResolve('refund')}>
+        Refund
+      </button>
+      {escrow.assets.length === 0 && (
+        <>
+          <input
+            type="number"
+            min={MIN_PAYOUT_LOVELACE / 1_000_000}
+            step="0.000001"
+            value={splitAda}
+            onChange={e => setSplitAda(e.target.value)}
+            placeholder="ADA to beneficiary"
+            className="w-36 p-1 border-2 border-neutral-800 rounded-lg text-sm text-black"
+          />
+          <button
+            disabled={busy || !canSplit}
+            className={buttonClass}
+            onClick={() => onResolve('split', splitLovelace)}
+          >
+            Split
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Disputes on escrows naming this wallet as arbiter
+ * Hidden unless the wallet arbitrates at least one
+ */
+export default function ArbiterDashboard() {
+  const wallet = useWallet();
+  const { signedIn } = useWalletSession(wallet, wallet.changeAddressBech32);
+  const address = signedIn ? wallet.changeAddressBech32 : undefined;
+
+  const { data: disputes = [], resolve, resolving, resolveError } = useDisputes(wallet, address);
+
+  const handleResolve = (escrowId: string, resolution: EscrowResolution, beneficiaryAmount?: number) => {
+    resolve(escrowId, resolution, beneficiaryAmount).catch(err => {
+      console.debug('Resolution error:', err);
+    });
+  };
+
+  if (!address || disputes.length === 0) return null;
+
+  return (
+    <section className="section-card text-black">
+      <h2 className="text-xl font-bold mb-4 text-black">Disputes You Arbitrate</h2>
+
+      {resolveError && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md border border-red-200">
+          {resolveError}
+        </div>
+      )}
+
+      <ul className="space-y-4">
+        {disputes.map(escrow => escrow.dispute && (
+          <li key={escrow.id} className="border-t pt-3">
+            <div className="flex justify-between text-sm">
+              <span className="font-mono" title={escrow.id}>{formatAddress(escrow.id)}</span>
+              <span>{formatAmount(escrow.amount)} ADA{escrow.assets.length > 0 && ` + ${escrow.assets.length} token(s)`}</span>
+            </div>
+            <p className="text-sm text-gray-600">
+              Depositor <span className="font-mono" title={escrow.wallet}>{formatAddress(escrow.wallet)}</span>,
+              beneficiary <span className="font-mono" title={escrow.beneficiary ?? undefined}>{formatAddress(escrow.beneficiary)}</span>
+            </p>
+            <p className="my-2 text-sm">{escrow.dispute.reason}</p>
+            {escrow.dispute.evidence.length > 0 && (
+              <ul className="mb-2 list-disc ml-5 text-sm">
+                {escrow.dispute.evidence.map(link => (
+                  <li key={link}>
+                    <a href={link} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline break-all">
+                      {link}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {escrow.status === TX_STATUS.DISPUTED ? (
+              <ResolveActions
+                escrow={escrow}
+                busy={resolving !== null}
+                onResolve={(resolution, beneficiaryAmount) => handleResolve(escrow.id, resolution, beneficiaryAmount)}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">
+                {escrow.dispute.resolution ? RESOLUTION_LABELS[escrow.dispute.resolution] : 'Settled by the parties'}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { EscrowAsset } from '@/lib/types';
+import { formatAssetName } from '@/lib/assets';
+
+type AssetPickerProps = {
+  available: EscrowAsset[];            // Assets held by the connected wallet
+  selected: EscrowAsset[];             // Assets chosen for the escrow
+  onChange: (selected: EscrowAsset[]) => void;
+  disabled?: boolean;
+};
+
+const assetKey = (asset: Pick<EscrowAsset, 'policyId' | 'assetName'>) =>
+  `${asset.policyId}.${asset.assetName}`;
+
+/**
+ * Lets the user choose native tokens from their wallet balance to lock in escrow
+ */
+export default function AssetPicker({ available, selected, onChange, disabled }: AssetPickerProps) {
+  const selectedByKey = new Map(selected.map(asset => [assetKey(asset), asset]));
+
+  const toggleAsset = (asset: EscrowAsset) => {
+    const key = assetKey(asset);
+    if (selectedByKey.has(key)) {
+      onChange(selected.filter(a => assetKey(a) !== key));
+    } else {
+      // Default to the full balance held, which is a single unit for NFTs
+      onChange([...selected, { ...asset }]);
+    }
+  };
+
+  const setQuantity = (asset: EscrowAsset, value: string) => {
+    const quantity = Math.min(Math.max(parseInt(value, 10) || 1, 1), asset.quantity);
+    onChange(selected.map(a => (assetKey(a) === assetKey(asset) ? { ...a, quantity } : a)));
+  };
+
+  if (available.length === 0) {
+    return <p className="text-sm text-gray-500">No native tokens in this wallet.</p>;
+  }
+
+  return (
+    <ul className="max-h-48 overflow-y-auto border-2 border-neutral-800 rounded-lg divide-y">
+      {available.map(asset => {
+        const key = assetKey(asset);
+        const chosen = selectedByKey.get(key);
+
+        return (
+          <li key={key} className="flex items-center gap-3 p-2 text-black">
+            <input
+              type="checkbox"
+              checked={!!chosen}
+              onChange={() => toggleAsset(asset)}
+              disabled={disabled}
+              aria-label={`Lock ${formatAssetName(asset.assetName)}`}
+            />
+            <div className="flex-grow min-w-0">
+              <div className="font-medium truncate">{formatAssetName(asset.assetName)}</div>
+              <div className="font-mono text-xs text-gray-500 truncate" title={asset.policyId}>
+                {asset.policyId}
+              </div>
+            </div>
+            {chosen && asset.quantity > 1 ? (
+              <input
+                type="number"
+                min="1"
+                max={asset.quantity}
+                step="1"
+                value={chosen.quantity}
+                onChange={(e) => setQuantity(asset, e.target.value)}
+                className="w-24 p-1 border-2 border-neutral-800 rounded-lg text-right"
+                disabled={disabled}
+              />
+            ) : (
+              <span className="w-24 text-right text-sm text-gray-600">{asset.quantity}</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
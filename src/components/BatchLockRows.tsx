@@ -0,0 +1,130 @@
+"use client";
+
+import { ChangeEvent, useState } from 'react';
+import { BatchLockRow, emptyBatchRow, parseBatchCsv } from '@/lib/batch-lock';
+import { MAX_BATCH_LOCK_ENTRIES } from '@/lib/escrow';
+
+type BatchLockRowsProps = {
+  rows: BatchLockRow[];
+  onChange: (rows: BatchLockRow[]) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Editable list of escrows to lock in a single transaction, with CSV import
+ */
+export default function BatchLockRows({ rows, onChange, disabled }: BatchLockRowsProps) {
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const updateRow = (index: number, field: keyof BatchLockRow, value: string) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    const remaining = rows.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : [emptyBatchRow()]);
+  };
+
+  const handleCsvImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rows: imported, errors } = parseBatchCsv(await file.text());
+    setImportErrors(errors);
+    if (imported.length > 0) {
+      // Replace the initial blank row rather than appending after it
+      const existing = rows.filter(row => row.beneficiaryAddress || row.adaAmount);
+      onChange([...existing, ...imported].slice(0, MAX_BATCH_LOCK_ENTRIES));
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-gray-700">
+          Escrows ({rows.length}/{MAX_BATCH_LOCK_ENTRIES})
+        </span>
+        <label className="text-sm text-blue-700 hover:underline cursor-pointer">
+          Import CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleCsvImport}
+            className="hidden"
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="mb-2 p-2 bg-red-50 text-red-700 rounded border border-red-200 text-sm">
+          {importErrors.map(err => <div key={err}>{err}</div>)}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {rows.map((row, i) => (
+          <div key={i} className="flex gap-2 items-center">
+            <input
+              type="text"
+              placeholder="Beneficiary addr_test1..."
+              value={row.beneficiaryAddress}
+              onChange={(e) => updateRow(i, 'beneficiaryAddress', e.target.value)}
+              className="flex-grow min-w-0 p-2 border-2 border-neutral-800 rounded-lg font-mono text-sm text-black"
+              disabled={disabled}
+            />
+            <input
+              type="number"
+              placeholder="ADA"
+              min="1"
+              value={row.adaAmount}
+              onChange={(e) => updateRow(i, 'adaAmount', e.target.value)}
+              className="w-24 p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+              disabled={disabled}
+            />
+            <input
+              type="datetime-local"
+              value={row.deadline}
+              onChange={(e) => updateRow(i, 'deadline', e.target.value)}
+              className="p-2 border-2 border-neutral-800 rounded-lg text-black"
+              disabled={disabled}
+              aria-label="Release deadline"
+            />
+            <input
+              type="number"
+              min="1"
+              value={row.graceDays}
+              onChange={(e) => updateRow(i, 'graceDays', e.target.value)}
+              className="w-16 p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+              disabled={disabled}
+              aria-label="Grace period (days)"
+              title="Grace period (days)"
+            />
+            <button
+              type="button"
+              onClick={() => removeRow(i)}
+              className="text-gray-500 hover:text-red-700 px-2"
+              disabled={disabled}
+              aria-label="Remove row"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange([...rows, emptyBatchRow()])}
+        className="mt-2 text-sm text-blue-700 hover:underline disabled:opacity-50"
+        disabled={disabled || rows.length >= MAX_BATCH_LOCK_ENTRIES}
+      >
+        + Add escrow
+      </button>
+      <p className="mt-1 text-sm text-gray-500">
+        CSV columns: beneficiary, amount (ADA), deadline, grace period (days, optional)
+      </p>
+    </div>
+  );
+}
@@ -3,14 +3,46 @@
 import { useState } from 'react';
 import { useWallet } from '@ada-anvil/weld/react';
 import { useAmountSlider } from '@/hooks/useAmountSlider';
+import { useLockPreview } from '@/hooks/useLockPreview';
 import { useTransactionOperations } from '@/hooks/useTransactions';
+import { useWalletAssets } from '@/hooks/useWalletAssets';
+import {
+  DEFAULT_GRACE_PERIOD_MS,
+  getMinLockLovelace,
+  MAX_ESCROW_MILESTONES,
+  MAX_ESCROW_SIGNERS,
+  VESTING_MONTH_MS,
+} from '@/lib/escrow';
+import { EscrowAsset, EscrowTerms, VestingSchedule } from '@/lib/types';
+import AssetPicker from '@/components/AssetPicker';
+import BatchLockRows from '@/components/BatchLockRows';
+import { BatchLockRow, emptyBatchRow, rowToEntry } from '@/lib/batch-lock';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export default function LockFundsForm() {
   const wallet = useWallet();
   const address = wallet.changeAddressBech32;
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
-  const { lockFunds, processing, error: errorMessage } = useTransactionOperations(wallet, address);
+  const [beneficiaryAddress, setBeneficiaryAddress] = useState<string>('');
+  const [deadlineInput, setDeadlineInput] = useState<string>('');
+  const [graceDays, setGraceDays] = useState<number>(DEFAULT_GRACE_PERIOD_MS / DAY_MS);
+  const [selectedAssets, setSelectedAssets] = useState<EscrowAsset[]>([]);
+  const [signersInput, setSignersInput] = useState<string>('');
+  const [threshold, setThreshold] = useState<number>(1);
+  const [arbiterAddress, setArbiterAddress] = useState<string>('');
+  const [milestonesInput, setMilestonesInput] = useState<string>('');
+  const [vestingKind, setVestingKind] = useState<VestingSchedule['kind'] | 'none'>('none');
+  const [vestingMonths, setVestingMonths] = useState<number>(12);
+  const [cliffMonths, setCliffMonths] = useState<number>(0);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [batchRows, setBatchRows] = useState<BatchLockRow[]>([emptyBatchRow()]);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  // Vesting in the fee preview starts when the form opened; the tx is the same size either way
+  const [previewStart] = useState(Date.now);
+  const walletAssets = useWalletAssets(wallet);
+  const { lockFunds, lockFundsBatch, processing, error: errorMessage } = useTransactionOperations(wallet, address);
   const isLocking = processing === 'lock';
   
   const { 
@@ -22,19 +54,105 @@ export default function LockFundsForm() {
     isWalletConnected
   } = useAmountSlider({ wallet });
 
+  const handleBatchSubmit = async () => {
+    if (!isWalletConnected || !wallet.changeAddressBech32) return;
+    
+    setSuccessMessage(null);
+    setTxHash(null);
+    setBatchError(null);
+    
+    // Validate every row before building, so one typo doesn't cost a wallet prompt
+    const entries = [];
+    for (const [i, row] of batchRows.entries()) {
+      const entry = rowToEntry(row);
+      if (typeof entry === 'string') {
+        setBatchError(`Row ${i + 1}: ${entry}`);
+        return;
+      }
+      entries.push(entry);
+    }
+    
+    try {
+      const result = await lockFundsBatch(entries);
+      
+      if (result?.txHash) {
+        const total = entries.reduce((sum, entry) => sum + entry.adaAmount, 0);
+        setSuccessMessage(`Successfully prepared transaction to lock ${total} ADA across ${entries.length} escrows`);
+        setTxHash(result.txHash);
+        setBatchRows([emptyBatchRow()]);
+      }
+    } catch (error) {
+      console.error('Failed to lock funds batch:', error);
+    }
+  };
+
+  // ADA per stage, separated by spaces or commas; none makes a single-payment escrow
+  // Vesting escrows pay out on their schedule instead
+  const milestones = vestingKind !== 'none' ? [] :
+    milestonesInput.split(/[\s,]+/).filter(Boolean).map(ada => Math.round(Number(ada) * 1_000_000));
+  const milestonesMatch = milestones.length === 0 ||
+    milestones.reduce((sum, milestone) => sum + milestone, 0) === Math.round(amount * 1_000_000);
+
+  // Terms of a single escrow as entered, or null while incomplete
+  const buildTerms = (start: number): EscrowTerms | null => {
+    const beneficiary = beneficiaryAddress.trim();
+    // Vesting starts at lock time; a monthly schedule ends a whole number of months later,
+    // which becomes the deadline, and a linear one ends at the deadline
+    // datetime-local values are interpreted in the user's local time zone
+    const deadline = vestingKind === 'monthly' ? start + vestingMonths * VESTING_MONTH_MS : new Date(deadlineInput).getTime();
+    if (!beneficiary || isNaN(deadline) || !milestonesMatch) return null;
+    const vesting: VestingSchedule | undefined = vestingKind === 'none' ? undefined : {
+      kind: vestingKind,
+      total: Math.round(amount * 1_000_000),
+      start,
+      cliff: start + cliffMonths * VESTING_MONTH_MS,
+      end: deadline,
+    };
+    // One approver address per line; none makes a regular escrow
+    const signers = signersInput.split(/\s+/).filter(Boolean);
+    const arbiter = arbiterAddress.trim();
+    return {
+      beneficiaryAddress: beneficiary,
+      deadline,
+      refundAfter: deadline + graceDays * DAY_MS,
+      ...(signers.length > 0 && { signers, threshold: Math.min(threshold, signers.length) }),
+      ...(arbiter && { arbiterAddress: arbiter }),
+      ...(milestones.length > 0 && { milestones }),
+      ...(vesting && { vesting }),
+    };
+  };
+
+  const previewTerms = mode === 'single' ? buildTerms(previewStart) : null;
+  const preview = useLockPreview(address, Math.round(amount * 1_000_000), previewTerms, selectedAssets);
+  // The deposit is known locally, so a too small amount shows before the preview comes back
+  const minDeposit = getMinLockLovelace(previewTerms ?? {}, selectedAssets);
+  const belowMinDeposit = Math.round(amount * 1_000_000) < minDeposit;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isWalletConnected || amount <= 0 || !wallet.changeAddressBech32) return;
+    if (mode === 'batch') {
+      await handleBatchSubmit();
+      return;
+    }
+    
+    const terms = buildTerms(Date.now());
+    if (!isWalletConnected || amount <= 0 || !wallet.changeAddressBech32 || !terms || belowMinDeposit) return;
     
     setSuccessMessage(null);
     setTxHash(null);
     
     try {
-      const result = await lockFunds(amount);
+      const result = await lockFunds(amount, terms, selectedAssets);
       
       if (result?.txHash) {
-        setSuccessMessage(`Successfully prepared transaction to lock ${amount} ADA`);
+        const tokens = selectedAssets.length > 0 ? ` and ${selectedAssets.length} token(s)` : '';
+        setSuccessMessage(`Successfully prepared transaction to lock ${amount} ADA${tokens} for ${terms.beneficiaryAddress}`);
         setTxHash(result.txHash);
+        setSelectedAssets([]);
+        setSignersInput('');
+        setArbiterAddress('');
+        setMilestonesInput('');
+        setVestingKind('none');
       }
     } catch (error) {
       console.error('Failed to lock funds:', error);
@@ -45,10 +163,27 @@ export default function LockFundsForm() {
     <section className="section-card">
       <h2 className="text-xl font-bold mb-4 text-black">Lock Funds</h2>
       
+      {/* Single escrow or multi-row batch mode */}
+      <div className="mb-4 flex gap-2">
+        {(['single', 'batch'] as const).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMode(option)}
+            disabled={isLocking}
+            className={`px-3 py-1 rounded-lg text-sm border-2 border-neutral-800 ${
+              mode === option ? 'bg-neutral-800 text-white' : 'bg-white text-black'
+            }`}
+          >
+            {option === 'single' ? 'Single Escrow' : 'Batch'}
+          </button>
+        ))}
+      </div>
+      
       {/* Status Messages */}
-      {errorMessage && (
+      {(errorMessage || batchError) && (
         <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg shadow-md border border-red-200">
-          <div className="font-medium">{errorMessage}</div>
+          <div className="font-medium">{batchError || errorMessage}</div>
         </div>
       )}
       
@@ -65,57 +200,310 @@ export default function LockFundsForm() {
       )}
       
       <form onSubmit={handleSubmit}>
-        <div className="mb-6">
-          <label htmlFor="amount-slider" className="block text-sm font-medium text-gray-700 mb-2">
-            Amount to Lock (ADA)
-          </label>
-          
-          {/* Slider */}
-          <div className="flex items-center gap-4">
-            <div className="flex-grow relative py-2">
-              <input 
-                type="range" 
-                id="amount-slider"
-                min="1" 
-                max={maxAmount} 
-                step="1"
-                value={amount}
-                onChange={handleAmountChange}
-                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-50 slider-thumb"
+        {mode === 'batch' ? (
+          <BatchLockRows rows={batchRows} onChange={setBatchRows} disabled={!isWalletConnected || isLocking} />
+        ) : (
+          <>
+            <div className="mb-6">
+              <label htmlFor="beneficiary-address" className="block text-sm font-medium text-gray-700 mb-2">
+                Beneficiary Address
+              </label>
+              <input
+                type="text"
+                id="beneficiary-address"
+                name="beneficiaryAddress"
+                value={beneficiaryAddress}
+                onChange={(e) => setBeneficiaryAddress(e.target.value)}
+                placeholder="addr_test1..."
+                className="w-full p-2 border-2 border-neutral-800 rounded-lg font-mono text-sm text-black"
                 disabled={!isWalletConnected}
-                style={{
-                  background: sliderBackground
-                }}
               />
+              <p className="mt-1 text-sm text-gray-500">
+                Only this address will be able to claim the locked funds
+              </p>
+            </div>
+        
+            <div className="mb-6 flex gap-4">
+              <div className="flex-grow">
+                <label htmlFor="release-deadline" className="block text-sm font-medium text-gray-700 mb-2">
+                  Release Deadline
+                </label>
+                <input
+                  type="datetime-local"
+                  id="release-deadline"
+                  name="deadline"
+                  value={deadlineInput}
+                  onChange={(e) => setDeadlineInput(e.target.value)}
+                  className="w-full p-2 border-2 border-neutral-800 rounded-lg text-black"
+                  disabled={!isWalletConnected || vestingKind === 'monthly'}
+                />
+              </div>
+              <div className="w-32">
+                <label htmlFor="grace-days" className="block text-sm font-medium text-gray-700 mb-2">
+                  Grace (days)
+                </label>
+                <input
+                  type="number"
+                  id="grace-days"
+                  name="graceDays"
+                  value={graceDays}
+                  onChange={(e) => setGraceDays(Math.max(parseInt(e.target.value, 10) || 1, 1))}
+                  min="1"
+                  step="1"
+                  className="w-full p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+                  disabled={!isWalletConnected}
+                />
+              </div>
             </div>
+            <p className="-mt-4 mb-6 text-sm text-gray-500">
+              The beneficiary can claim after the deadline. You can reclaim the funds if they are not claimed within the grace period.
+            </p>
+        
+            <div className="mb-6">
+              <label htmlFor="amount-slider" className="block text-sm font-medium text-gray-700 mb-2">
+                Amount to Lock (ADA)
+              </label>
+          
+              {/* Slider */}
+              <div className="flex items-center gap-4">
+                <div className="flex-grow relative py-2">
+                  <input 
+                    type="range" 
+                    id="amount-slider"
+                    min="1" 
+                    max={maxAmount} 
+                    step="1"
+                    value={amount}
+                    onChange={handleAmountChange}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-50 slider-thumb"
+                    disabled={!isWalletConnected}
+                    style={{
+                      background: sliderBackground
+                    }}
+                  />
+                </div>
             
-            {/* Number Input */}
-            <div className="relative w-24">
+                {/* Number Input */}
+                <div className="relative w-24">
+                  <input
+                    type="number"
+                    name="lockAmount"
+                    value={amount}
+                    onChange={handleInputChange}
+                    min="1"
+                    max={maxAmount}
+                    step="1"
+                    className="w-full p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+                    disabled={!isWalletConnected}
+                  />
+                </div>
+              </div>
+          
+              {/* Available Balance */}
+              <p className="mt-1 text-sm text-gray-500">
+                {isWalletConnected 
+                  ? `Available: ${wallet.balanceAda?.toFixed(2) || '0.00'} ADA, of which up to ${maxAmount} ADA can be locked after fees` 
+                  : 'Connect wallet to lock funds'}
+              </p>
+            </div>
+        
+            <div className="mb-6 flex gap-4">
+              <div className="flex-grow">
+                <label htmlFor="approvers" className="block text-sm font-medium text-gray-700 mb-2">
+                  Approvers (optional)
+                </label>
+                <textarea
+                  id="approvers"
+                  name="signers"
+                  value={signersInput}
+                  onChange={(e) => setSignersInput(e.target.value)}
+                  placeholder="addr_test1... (one per line)"
+                  rows={2}
+                  className="w-full p-2 border-2 border-neutral-800 rounded-lg font-mono text-sm text-black"
+                  disabled={!isWalletConnected}
+                />
+              </div>
+              <div className="w-32">
+                <label htmlFor="approval-threshold" className="block text-sm font-medium text-gray-700 mb-2">
+                  Required
+                </label>
+                <input
+                  type="number"
+                  id="approval-threshold"
+                  name="threshold"
+                  value={threshold}
+                  onChange={(e) => setThreshold(Math.max(parseInt(e.target.value, 10) || 1, 1))}
+                  min="1"
+                  max={MAX_ESCROW_SIGNERS}
+                  step="1"
+                  className="w-full p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+                  disabled={!isWalletConnected || !signersInput.trim()}
+                />
+              </div>
+            </div>
+            <p className="-mt-4 mb-6 text-sm text-gray-500">
+              With approvers, claiming or refunding also needs the signatures of the required number of them.
+            </p>
+
+            <div className="mb-6">
+              <label htmlFor="arbiter" className="block text-sm font-medium text-gray-700 mb-2">
+                Arbiter Address (optional)
+              </label>
               <input
-                type="number"
-                name="lockAmount"
-                value={amount}
-                onChange={handleInputChange}
-                min="1"
-                max={maxAmount}
-                step="1"
-                className="w-full p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+                type="text"
+                id="arbiter"
+                name="arbiterAddress"
+                value={arbiterAddress}
+                onChange={(e) => setArbiterAddress(e.target.value)}
+                placeholder="addr_test1..."
+                className="w-full p-2 border-2 border-neutral-800 rounded-lg font-mono text-sm text-black"
                 disabled={!isWalletConnected}
               />
+              <p className="mt-1 text-sm text-gray-500">
+                Either party can raise a dispute, which the arbiter settles by releasing, refunding or splitting the funds.
+                Disputes are kept by this app, not on-chain: the arbiter can settle the escrow at any time.
+              </p>
             </div>
-          </div>
-          
-          {/* Available Balance */}
-          <p className="mt-1 text-sm text-gray-500">
-            {isWalletConnected 
-              ? `Available: ${wallet.balanceAda?.toFixed(2) || '0.00'} ADA` 
-              : 'Connect wallet to lock funds'}
-          </p>
-        </div>
+
+            <div className="mb-6 flex gap-4">
+              <div className="flex-grow">
+                <label htmlFor="vesting-kind" className="block text-sm font-medium text-gray-700 mb-2">
+                  Vesting
+                </label>
+                <select
+                  id="vesting-kind"
+                  name="vestingKind"
+                  value={vestingKind}
+                  onChange={(e) => setVestingKind(e.target.value as VestingSchedule['kind'] | 'none')}
+                  className="w-full p-2 border-2 border-neutral-800 rounded-lg text-black"
+                  disabled={!isWalletConnected}
+                >
+                  <option value="none">None</option>
+                  <option value="linear">Linear until the deadline</option>
+                  <option value="monthly">Cliff plus monthly</option>
+                </select>
+              </div>
+              {vestingKind !== 'none' && (
+                <div className="w-32">
+                  <label htmlFor="cliff-months" className="block text-sm font-medium text-gray-700 mb-2">
+                    Cliff (months)
+                  </label>
+                  <input
+                    type="number"
+                    id="cliff-months"
+                    name="cliffMonths"
+                    value={cliffMonths}
+                    onChange={(e) => setCliffMonths(Math.max(parseInt(e.target.value, 10) || 0, 0))}
+                    min="0"
+                    step="1"
+                    className="w-full p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+                    disabled={!isWalletConnected}
+                  />
+                </div>
+              )}
+              {vestingKind === 'monthly' && (
+                <div className="w-32">
+                  <label htmlFor="vesting-months" className="block text-sm font-medium text-gray-700 mb-2">
+                    Months
+                  </label>
+                  <input
+                    type="number"
+                    id="vesting-months"
+                    name="vestingMonths"
+                    value={vestingMonths}
+                    onChange={(e) => setVestingMonths(Math.max(parseInt(e.target.value, 10) || 1, 1))}
+                    min="1"
+                    step="1"
+                    className="w-full p-2 border-2 border-neutral-800 rounded-lg text-right text-black"
+                    disabled={!isWalletConnected}
+                  />
+                </div>
+              )}
+            </div>
+            {vestingKind !== 'none' && (
+              <p className="-mt-4 mb-6 text-sm text-gray-500">
+                Vesting starts when the funds are locked. The beneficiary claims what has vested at any time after the
+                cliff{vestingKind === 'monthly' && ', in 30 day steps; the deadline is the end of the last month'}.
+              </p>
+            )}
+
+            {vestingKind === 'none' && (
+              <div className="mb-6">
+                <label htmlFor="milestones" className="block text-sm font-medium text-gray-700 mb-2">
+                  Milestones in ADA (optional)
+                </label>
+                <input
+                  type="text"
+                  id="milestones"
+                  name="milestones"
+                  value={milestonesInput}
+                  onChange={(e) => setMilestonesInput(e.target.value)}
+                  placeholder="e.g. 30, 30, 40"
+                  className="w-full p-2 border-2 border-neutral-800 rounded-lg font-mono text-sm text-black"
+                  disabled={!isWalletConnected}
+                />
+                <p className={`mt-1 text-sm ${milestonesMatch ? 'text-gray-500' : 'text-red-600'}`}>
+                  {milestonesMatch
+                    ? `You release up to ${MAX_ESCROW_MILESTONES} stages to the beneficiary one at a time; tokens go out with the last.`
+                    : 'Milestones must add up to the ADA amount.'}
+                </p>
+              </div>
+            )}
+        
+            <div className="mb-6">
+              <span className="block text-sm font-medium text-gray-700 mb-2">
+                Tokens to Lock (optional)
+              </span>
+              {isWalletConnected ? (
+                <AssetPicker
+                  available={walletAssets}
+                  selected={selectedAssets}
+                  onChange={setSelectedAssets}
+                  disabled={isLocking}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">Connect wallet to choose tokens</p>
+              )}
+            </div>
+
+            {/* Cost of the lock, built as a dry run before the wallet asks to sign */}
+            {isWalletConnected && (
+              <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+                <div className="flex justify-between">
+                  <span>Locked in escrow</span>
+                  <span>{amount} ADA</span>
+                </div>
+                <div className={`flex justify-between ${belowMinDeposit ? 'text-red-600' : ''}`}>
+                  <span>Minimum deposit (min-UTxO)</span>
+                  <span>{minDeposit / 1_000_000} ADA</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Network fee</span>
+                  <span>{preview.data ? `${preview.data.fee / 1_000_000} ADA` : previewTerms && !preview.error ? 'Estimating...' : '-'}</span>
+                </div>
+                <div className="flex justify-between font-medium text-black">
+                  <span>Total from wallet</span>
+                  <span>{preview.data ? `${preview.data.total / 1_000_000} ADA` : '-'}</span>
+                </div>
+                {belowMinDeposit ? (
+                  <p className="mt-2 text-red-600">The amount is below the minimum deposit the network requires for this escrow.</p>
+                ) : preview.error ? (
+                  <p className="mt-2 text-red-600">{preview.error.message}</p>
+                ) : !previewTerms && (
+                  <p className="mt-2 text-gray-500">Fill in the beneficiary and deadline to see the network fee.</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
         
         <button
           type="submit"
-          disabled={!isWalletConnected || isLocking || amount <= 0}
+          disabled={
+            !isWalletConnected || isLocking || amount <= 0 || !beneficiaryAddress.trim() ||
+            (!deadlineInput && vestingKind !== 'monthly') ||
+            (mode === 'single' && (!milestonesMatch || belowMinDeposit))
+          }
           className="button-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isLocking ? 'Processing...' : 'Lock Funds'}
@@ -2,7 +2,27 @@
 
 import { useWallet } from '@ada-anvil/weld/react';
 import { usePollingTransactions, useTransactionOperations } from '@/hooks/useTransactions';
-import { Transaction, TransactionStatus, TX_STATUS } from '@/lib/types';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import {
+  Dispute,
+  Milestone,
+  Transaction,
+  TransactionEvent,
+  TransactionEventSource,
+  TransactionStatus,
+  TX_EVENT_SOURCE,
+  TX_STATUS,
+  VestingSchedule,
+} from '@/lib/types';
+import {
+  getAvailableAction,
+  getNextMilestone,
+  getVestedAmount,
+  getVestingClaim,
+  MAX_BATCH_UNLOCK_ENTRIES,
+} from '@/lib/escrow';
+import { formatAssetName } from '@/lib/assets';
+import { Fragment, useEffect, useState } from 'react';
 
 const formatTxHash = (hash: string): string => {
   return `${hash.substring(0, 8)}...${hash.substring(hash.length - 4)}`;
@@ -13,57 +33,646 @@ const formatDate = (timestamp: number): string => {
   return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
 };
 
+const formatAddress = (address: string | null): string => {
+  if (!address) return '-';
+  return `${address.slice(0, 12)}...${address.slice(-6)}`;
+};
+
 const formatAmount = (lovelaceAmount: number): string => {
   return (lovelaceAmount / 1_000_000).toFixed(2);
 };
 
+// Render the time left until a deadline, e.g. "2d 4h" or "12m 30s"
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+};
+
+// Current time, refreshed every second so countdowns stay live
+const useNow = (): number => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+  return now;
+};
+
+// Describe where an escrow is in its claim/refund timeline
+const describeDeadline = (transaction: Transaction, now: number): string => {
+  if (transaction.deadline == null) return '-';
+  if (now < transaction.deadline) {
+    return `Claimable in ${formatCountdown(transaction.deadline - now)}`;
+  }
+  if (transaction.refundAfter != null && now < transaction.refundAfter) {
+    return `Refundable in ${formatCountdown(transaction.refundAfter - now)}`;
+  }
+  return 'Claimable or refundable';
+};
+
 const STATUS_STYLES: Record<TransactionStatus, string> = {
   [TX_STATUS.PENDING]: 'bg-yellow-100 text-yellow-800',
   [TX_STATUS.SIGN_LOCK]: 'bg-yellow-100 text-yellow-800',
   [TX_STATUS.SIGN_UNLOCK]: 'bg-yellow-100 text-yellow-800',
+  [TX_STATUS.UNLOCK_PENDING]: 'bg-yellow-100 text-yellow-800',
+  [TX_STATUS.CONFIRMING]: 'bg-lime-100 text-lime-800',
   [TX_STATUS.CONFIRMED]: 'bg-green-100 text-green-800',
   [TX_STATUS.UNLOCKED]: 'bg-blue-100 text-blue-800',
+  [TX_STATUS.DISPUTED]: 'bg-purple-100 text-purple-800',
+  [TX_STATUS.RESOLVED]: 'bg-blue-100 text-blue-800',
+  [TX_STATUS.FAILED]: 'bg-red-100 text-red-800',
+  [TX_STATUS.EXPIRED]: 'bg-gray-100 text-gray-800',
+  [TX_STATUS.ROLLED_BACK]: 'bg-orange-100 text-orange-800',
 };
 const STATUS_LABELS: Record<TransactionStatus, string> = {
   [TX_STATUS.PENDING]: 'Pending',
   [TX_STATUS.SIGN_LOCK]: 'Sign to Lock',
   [TX_STATUS.SIGN_UNLOCK]: 'Sign to Unlock',
+  [TX_STATUS.UNLOCK_PENDING]: 'Unlocking',
+  [TX_STATUS.CONFIRMING]: 'Confirming',
   [TX_STATUS.CONFIRMED]: 'Confirmed',
   [TX_STATUS.UNLOCKED]: 'Unlocked',
+  [TX_STATUS.DISPUTED]: 'Disputed',
+  [TX_STATUS.RESOLVED]: 'Resolved',
+  [TX_STATUS.FAILED]: 'Failed',
+  [TX_STATUS.EXPIRED]: 'Expired',
+  [TX_STATUS.ROLLED_BACK]: 'Rolled Back',
 };
 
 const STATUS_DETAILS: Record<TransactionStatus, string> = {
   [TX_STATUS.PENDING]: 'Waiting for Cardano blockchain confirmation...',
   [TX_STATUS.SIGN_LOCK]: 'Transaction needs to be signed to lock funds',
   [TX_STATUS.SIGN_UNLOCK]: 'Transaction needs to be signed to unlock funds',
+  [TX_STATUS.UNLOCK_PENDING]: 'Waiting for the unlock transaction to be confirmed...',
+  [TX_STATUS.CONFIRMING]: 'Transaction is on-chain, waiting for more blocks before the escrow can be unlocked',
   [TX_STATUS.CONFIRMED]: 'Transaction confirmed on the Cardano blockchain',
-  [TX_STATUS.UNLOCKED]: 'Funds have been successfully unlocked',
+  [TX_STATUS.UNLOCKED]: 'Unlock transaction confirmed on the Cardano blockchain',
+  [TX_STATUS.DISPUTED]: 'A dispute was raised; waiting for the arbiter to settle it',
+  [TX_STATUS.RESOLVED]: 'The arbiter\'s resolution was confirmed on the Cardano blockchain',
+  [TX_STATUS.FAILED]: 'Transaction was rejected and never reached the chain',
+  [TX_STATUS.EXPIRED]: 'Transaction was not signed or confirmed in time',
+  [TX_STATUS.ROLLED_BACK]: 'Transaction was removed from the chain by a rollback',
 };
 
+// Status label, with the current depth while waiting for confirmations
+const formatStatus = (transaction: Transaction): string => {
+  const label = STATUS_LABELS[transaction.status] || transaction.status;
+  if (transaction.status !== TX_STATUS.CONFIRMING) return label;
+  return `${label} (${transaction.confirmations}/${transaction.requiredConfirmations})`;
+};
+
+const EVENT_SOURCE_LABELS: Record<TransactionEventSource, string> = {
+  [TX_EVENT_SOURCE.API]: 'App',
+  [TX_EVENT_SOURCE.WEBHOOK]: 'Blockfrost webhook',
+  [TX_EVENT_SOURCE.RECONCILER]: 'Chain reconciler',
+};
+
+// Status transitions of one escrow, oldest first
+function TransactionHistory({ history }: { history: TransactionEvent[] }) {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet.</p>;
+  }
+  return (
+    <ol className="text-sm space-y-1">
+      {history.map(event => (
+        <li key={event.id} className="flex gap-3">
+          <span className="text-gray-500 whitespace-nowrap">{formatDate(event.timestamp)}</span>
+          <span>
+            {event.fromStatus ? `${STATUS_LABELS[event.fromStatus] ?? event.fromStatus} → ` : 'Created as '}
+            <span className="font-medium">{STATUS_LABELS[event.toStatus] ?? event.toStatus}</span>
+          </span>
+          <span className="text-gray-500">via {EVENT_SOURCE_LABELS[event.source] ?? event.source}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+const RESOLUTION_LABELS: Record<NonNullable<Dispute['resolution']>, string> = {
+  release: 'Released to the beneficiary',
+  refund: 'Refunded to the depositor',
+  split: 'Split between the parties',
+};
+
+// Reason, evidence and outcome of a dispute
+function DisputeDetails({ dispute }: { dispute: Dispute }) {
+  return (
+    <div className="mb-3 text-sm">
+      <p>
+        <span className="font-medium">Dispute</span> raised {formatDate(dispute.raisedAt)} by{' '}
+        <span className="font-mono" title={dispute.raisedBy}>{formatAddress(dispute.raisedBy)}</span>: {dispute.reason}
+      </p>
+      {dispute.evidence.length > 0 && (
+        <ul className="list-disc ml-5">
+          {dispute.evidence.map(link => (
+            <li key={link}>
+              <a href={link} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline break-all">
+                {link}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+      {dispute.resolution && (
+        <p className="text-gray-600">
+          {RESOLUTION_LABELS[dispute.resolution]}
+          {dispute.resolution === 'split' && ` (${formatAmount(dispute.beneficiaryAmount ?? 0)} ADA to the beneficiary)`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Payment stages of a milestone escrow and the txs that released them
+function MilestoneList({ milestones }: { milestones: Milestone[] }) {
+  return (
+    <ol className="mb-3 list-decimal ml-5 text-sm">
+      {milestones.map((milestone, i) => (
+        <li key={i}>
+          {formatAmount(milestone.amount)} ADA{' '}
+          {milestone.releaseTxHash ? (
+            <a
+              href={`https://preprod.cardanoscan.io/transaction/${milestone.releaseTxHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-700 hover:underline"
+              title={milestone.releaseTxHash}
+            >
+              released in {formatTxHash(milestone.releaseTxHash)}
+            </a>
+          ) : (
+            <span className="text-gray-500">not released</span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Dates of a vesting schedule and how much has been claimed from it
+function VestingDetails({ vesting, amount }: { vesting: VestingSchedule; amount: number }) {
+  return (
+    <p className="mb-3 text-sm">
+      <span className="font-medium">{vesting.kind === 'monthly' ? 'Monthly' : 'Linear'} vesting</span> of{' '}
+      {formatAmount(vesting.total)} ADA from {formatDate(vesting.start)} to {formatDate(vesting.end)}
+      {vesting.cliff > vesting.start && `, cliff ${formatDate(vesting.cliff)}`};{' '}
+      {formatAmount(vesting.total - amount)} ADA claimed before this output
+    </p>
+  );
+}
+
+// Reason and evidence links for a new dispute
+function DisputeForm({ onSubmit, onCancel, busy }: {
+  onSubmit: (reason: string, evidence: string[]) => void;
+  onCancel: () => void;
+  busy: boolean;
+}) {
+  const [reason, setReason] = useState('');
+  const [evidence, setEvidence] = useState('');
+
+  return (
+    <form
+      className="text-sm space-y-2"
+      onSubmit={e => {
+        e.preventDefault();
+        onSubmit(reason.trim(), evidence.split(/\s+/).filter(Boolean));
+      }}
+    >
+      <textarea
+        value={reason}
+        onChange={e => setReason(e.target.value)}
+        placeholder="What went wrong?"
+        rows={2}
+        maxLength={2000}
+        className="w-full p-2 border-2 border-neutral-800 rounded-lg text-black"
+      />
+      <textarea
+        value={evidence}
+        onChange={e => setEvidence(e.target.value)}
+        placeholder="Evidence links, one per line (optional)"
+        rows={2}
+        className="w-full p-2 border-2 border-neutral-800 rounded-lg font-mono text-black"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={busy || !reason.trim()}
+          className="button-primary py-1 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busy ? 'Processing…' : 'Raise Dispute'}
+        </button>
+        <button type="button" onClick={onCancel} className="text-blue-700 hover:underline">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Signers of a multi-signature escrow, of whom the unlocking wallet picks the threshold to approve
+function ApproverPicker({ signers, threshold, picked, onChange }: {
+  signers: string[];
+  threshold: number;
+  picked: string[];
+  onChange: (picked: string[]) => void;
+}) {
+  return (
+    <fieldset className="mt-1 text-xs text-left">
+      <legend className="text-gray-600">Pick {threshold} approvers</legend>
+      {signers.map(keyHash => (
+        <label key={keyHash} className="block font-mono" title={keyHash}>
+          <input
+            type="checkbox"
+            className="mr-1"
+            checked={picked.includes(keyHash)}
+            disabled={!picked.includes(keyHash) && picked.length >= threshold}
+            onChange={() =>
+              onChange(picked.includes(keyHash) ? picked.filter(signer => signer !== keyHash) : [...picked, keyHash])
+            }
+          />
+          {formatTxHash(keyHash)}
+        </label>
+      ))}
+    </fieldset>
+  );
+}
+
+type TransactionTableProps = {
+  transactions: Transaction[];
+  role: 'depositor' | 'beneficiary';
+  address: string;
+  now: number;
+  unlocking: string | null;
+  onUnlock: (escrowId: string, approvers?: string[]) => void;
+  onDispute: (escrowId: string, reason: string, evidence: string[]) => Promise<void>;
+  onRelease: (escrowId: string, approvers?: string[]) => void;
+  onClaimVested: (escrowId: string, approvers?: string[]) => void;
+  selected: Set<string>;
+  onToggleSelect: (escrowId: string) => void;
+  selectionFull: boolean;
+};
+
+/**
+ * Table of escrows from one party's point of view
+ * - depositor: escrows the wallet funded, with a refund action after the grace period
+ *   and a release action for the next stage of a milestone escrow
+ * - beneficiary: escrows the wallet can claim, with a claim action after the deadline
+ *   and a claim of what has vested so far for vesting escrows
+ */
+function TransactionTable({
+  transactions, role, address, now, unlocking, onUnlock, onDispute, onRelease, onClaimVested, selected,
+  onToggleSelect, selectionFull
+}: TransactionTableProps) {
+  const canClaim = role === 'beneficiary';
+  const actionLabel = canClaim ? 'Claim' : 'Refund';
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [disputing, setDisputing] = useState<string | null>(null);
+  const [pickedApprovers, setPickedApprovers] = useState<Record<string, string[]>>({});
+
+  return (
+    <table className="w-full text-left border-collapse text-black">
+      <thead>
+        <tr>
+          <th className="px-2 py-2"><span className="sr-only">Select</span></th>
+          <th className="px-4 py-2">Transaction</th>
+          <th className="px-4 py-2">{canClaim ? 'Depositor' : 'Beneficiary'}</th>
+          <th className="px-4 py-2 text-right">Amount</th>
+          <th className="px-4 py-2 text-center">Status</th>
+          <th className="px-4 py-2">Deadline</th>
+          <th className="px-4 py-2">Date</th>
+          <th className="px-4 py-2">Action</th>
+        </tr>
+      </thead>
+      <tbody>
+        {transactions.map((transaction: Transaction) => {
+          const isPending = transaction.status === TX_STATUS.PENDING ||
+            transaction.status === TX_STATUS.CONFIRMING ||
+            transaction.status === TX_STATUS.UNLOCK_PENDING;
+          const counterparty = canClaim ? transaction.wallet : transaction.beneficiary;
+          const action = getAvailableAction(transaction, address, now);
+          const isActionValid = action === (canClaim ? 'claim' : 'refund');
+          // Approvals are collected per unlock, so multi-signature escrows can't join a batch
+          const isMultisig = transaction.threshold != null;
+          // Escrows with an arbiter can be disputed until an unlock is submitted
+          const canDispute = transaction.arbiter != null && !transaction.dispute && !transaction.spent &&
+            (transaction.status === TX_STATUS.CONFIRMED || transaction.status === TX_STATUS.SIGN_UNLOCK);
+          const nextMilestone = role === 'depositor' ? getNextMilestone(transaction) : null;
+          const releasedCount = transaction.milestones.filter(milestone => milestone.releaseTxHash).length;
+          // Before the deadline a vesting escrow pays out what has vested; after it, the claim takes the rest
+          const vestingClaim = role === 'beneficiary' && !isActionValid ? getVestingClaim(transaction, now) : null;
+          // Only the picked approvers become required signers, so exactly the threshold are picked;
+          // escrows needing every signer pick them all
+          const canUnlock = (transaction.status === TX_STATUS.CONFIRMED || transaction.status === TX_STATUS.SIGN_UNLOCK) &&
+            !transaction.spent;
+          const needsAllSigners = transaction.signers.length === transaction.threshold;
+          const approvers = isMultisig
+            ? pickedApprovers[transaction.id] ?? (needsAllSigners ? transaction.signers : [])
+            : undefined;
+          const approversReady = !approvers || approvers.length === transaction.threshold;
+          const canPickApprovers = isMultisig && !needsAllSigners && canUnlock &&
+            (isActionValid || nextMilestone != null || vestingClaim != null);
+          
+          return (
+            <Fragment key={transaction.id}>
+              <tr className={`border-t hover:bg-gray-50 ${isPending ? 'bg-yellow-50' : ''}`}>
+                <td className="px-2 py-3 text-center">
+                  {/* Only escrows whose path is open now can join a batch unlock */}
+                  <input
+                    type="checkbox"
+                    checked={selected.has(transaction.id)}
+                    onChange={() => onToggleSelect(transaction.id)}
+                    disabled={
+                      !isActionValid || isMultisig || unlocking !== null ||
+                      (selectionFull && !selected.has(transaction.id))
+                    }
+                    aria-label={`Select ${transaction.id}`}
+                  />
+                </td>
+                <td className="px-4 py-3 font-mono">
+                  <a 
+                    href={`https://preprod.cardanoscan.io/transaction/${transaction.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-700 hover:underline"
+                    title={transaction.txHash}
+                  >
+                    {formatTxHash(transaction.txHash)}
+                  </a>
+                  <span className="text-gray-500">#{transaction.outputIndex}</span>
+                {transaction.unlockTxHash && (
+                  <div className="text-xs">
+                    <span className="text-gray-500">Unlock: </span>
+                    <a
+                      href={`https://preprod.cardanoscan.io/transaction/${transaction.unlockTxHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-700 hover:underline"
+                      title={transaction.unlockedBy ? `Spent by ${transaction.unlockedBy}` : transaction.unlockTxHash}
+                    >
+                      {formatTxHash(transaction.unlockTxHash)}
+                    </a>
+                  </div>
+                )}
+                </td>
+                <td className="px-4 py-3 font-mono text-sm" title={counterparty ?? undefined}>
+                  {formatAddress(counterparty)}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {formatAmount(transaction.amount)} ADA
+                  {transaction.assets?.map(asset => (
+                    <div
+                      key={`${asset.policyId}.${asset.assetName}`}
+                      className="text-xs text-gray-600"
+                      title={`${asset.policyId}.${asset.assetName}`}
+                    >
+                      {asset.quantity} × {formatAssetName(asset.assetName)}
+                    </div>
+                  ))}
+                  {transaction.vesting && (
+                    <div className="text-xs text-gray-600" title="Vested out of the whole schedule">
+                      {formatAmount(getVestedAmount(transaction.vesting, now))} of {formatAmount(transaction.vesting.total)} ADA vested
+                    </div>
+                  )}
+                  {transaction.milestones.length > 0 && (
+                    <div className="text-xs text-gray-600" title="Stages paid out before this escrow output">
+                      {releasedCount} of {transaction.milestones.length} milestones released
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-center">
+                  {isPending ? (
+                      <span className="inline-flex items-center" title={STATUS_DETAILS[transaction.status]}>
+                        <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[transaction.status]}`}>
+                          {formatStatus(transaction)}
+                        </span>
+                        <span className="ml-2 flex h-3 w-3">
+                          <span className="animate-ping absolute inline-flex h-3 w-3 rounded-full bg-yellow-400 opacity-75"></span>
+                          <span className="relative inline-flex rounded-full h-3 w-3 bg-yellow-500"></span>
+                        </span>
+                      </span> 
+                    ) : (
+                      <span 
+                        className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[transaction.status] || 'bg-gray-100 text-gray-800'}`}
+                        title={STATUS_DETAILS[transaction.status]}
+                      > 
+                      {formatStatus(transaction)}
+                    </span>
+                  )}
+                  {transaction.spent && (
+                    <span
+                      className="ml-1 inline-block px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800"
+                      title="The escrow UTxO has already been consumed on-chain"
+                    >
+                      Spent
+                    </span>
+                  )}
+                  {isMultisig && (
+                    <div className="text-xs text-gray-600" title="Approvals required to claim or refund">
+                      {transaction.threshold} of {transaction.signers.length} approvals
+                    </div>
+                  )}
+                  {canPickApprovers && (
+                    <ApproverPicker
+                      signers={transaction.signers}
+                      threshold={transaction.threshold!}
+                      picked={approvers ?? []}
+                      onChange={picked => setPickedApprovers(prev => ({ ...prev, [transaction.id]: picked }))}
+                    />
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm">{describeDeadline(transaction, now)}</td>
+                <td className="px-4 py-3">
+                  {formatDate(transaction.timestamp)}
+                {transaction.confirmedAt && (
+                  <div className="text-xs text-gray-500">Confirmed {formatDate(transaction.confirmedAt)}</div>
+                )}
+                {transaction.unlockConfirmedAt && (
+                  <div className="text-xs text-gray-500">Unlocked {formatDate(transaction.unlockConfirmedAt)}</div>
+                )}
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(expanded === transaction.id ? null : transaction.id)}
+                    className="block text-xs text-blue-700 hover:underline"
+                    aria-expanded={expanded === transaction.id}
+                  >
+                    {expanded === transaction.id ? 'Hide history' : 'History'}
+                  </button>
+                </td>
+                <td className="px-4 py-3 text-center">
+                  {/* Claim/refund button for confirmed escrows, enabled only once its path is open */}
+                  {canUnlock ? (
+                    <button
+                      disabled={!isActionValid || !approversReady || unlocking === transaction.id}
+                      className="button-primary py-1 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={() => onUnlock(transaction.id, approvers)}
+                    >
+                      {unlocking === transaction.id ? 'Processing…' : actionLabel}
+                    </button>
+                  ) : (
+                    <span className="text-gray-400">-</span>
+                  )}
+                  {nextMilestone && (
+                    <button
+                      disabled={!approversReady || unlocking === transaction.id}
+                      className="block mx-auto mt-1 button-primary py-1 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={() => onRelease(transaction.id, approvers)}
+                    >
+                      Release {formatAmount(nextMilestone.amount)} ADA
+                    </button>
+                  )}
+                  {vestingClaim != null && (
+                    <button
+                      disabled={!approversReady || unlocking === transaction.id}
+                      className="block mx-auto mt-1 button-primary py-1 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={() => onClaimVested(transaction.id, approvers)}
+                    >
+                      Claim {formatAmount(vestingClaim)} ADA
+                    </button>
+                  )}
+                  {canDispute && (
+                    <button
+                      type="button"
+                      onClick={() => setDisputing(disputing === transaction.id ? null : transaction.id)}
+                      className="block mx-auto mt-1 text-xs text-blue-700 hover:underline"
+                    >
+                      Dispute
+                    </button>
+                  )}
+                </td>
+              </tr>
+              {disputing === transaction.id && canDispute && (
+                <tr className="bg-gray-50">
+                  <td />
+                  <td colSpan={7} className="px-4 py-3">
+                    <DisputeForm
+                      busy={unlocking === transaction.id}
+                      onCancel={() => setDisputing(null)}
+                      onSubmit={(reason, evidence) =>
+                        onDispute(transaction.id, reason, evidence).then(() => setDisputing(null), () => {})
+                      }
+                    />
+                  </td>
+                </tr>
+              )}
+              {expanded === transaction.id && (
+                <tr className="bg-gray-50">
+                  <td />
+                  <td colSpan={7} className="px-4 py-3">
+                    {transaction.dispute && <DisputeDetails dispute={transaction.dispute} />}
+                    {transaction.milestones.length > 0 && <MilestoneList milestones={transaction.milestones} />}
+                    {transaction.vesting && <VestingDetails vesting={transaction.vesting} amount={transaction.amount} />}
+                    <TransactionHistory history={transaction.history ?? []} />
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
 export default function MyTransactions() {
   const wallet = useWallet();
-  const address = wallet.changeAddressBech32;
+  const { signedIn } = useWalletSession(wallet, wallet.changeAddressBech32);
+  // History is only served to the signed-in wallet
+  const address = signedIn ? wallet.changeAddressBech32 : undefined;
   
   const { data: transactions = [], error, isLoading } = usePollingTransactions(address);
-  const { unlockFunds, processing: unlocking, error: unlockError } = useTransactionOperations(wallet, address);
+  const {
+    unlockFunds,
+    unlockFundsBatch,
+    releaseMilestone,
+    claimVested,
+    raiseDispute,
+    processing: unlocking,
+    error: unlockError
+  } = useTransactionOperations(wallet, address);
+  const now = useNow();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // The same escrow appears in both sections when a wallet locks funds for itself
+  const funded = transactions.filter(tx => tx.wallet === address);
+  const claimable = transactions.filter(tx => tx.beneficiary === address);
 
-  const handleUnlock = (txHash: string, amount: number) => {
+  // Drop selections that are no longer spendable (e.g. after a status update)
+  const selectedIds = transactions
+    .filter(tx => selected.has(tx.id) && address && getAvailableAction(tx, address, now))
+    .map(tx => tx.id);
+  const selectionFull = selectedIds.length >= MAX_BATCH_UNLOCK_ENTRIES;
+
+  const toggleSelect = (escrowId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(escrowId)) {
+        next.delete(escrowId);
+      } else {
+        next.add(escrowId);
+      }
+      return next;
+    });
+  };
+
+  const handleUnlock = (escrowId: string, approvers?: string[]) => {
     if (!address) return;
-    unlockFunds(txHash, amount).catch(err => {
+    unlockFunds(escrowId, approvers).catch(err => {
       console.debug('Transaction unlock error:', err);
     });
   };
+
+  const handleRelease = (escrowId: string, approvers?: string[]) => {
+    if (!address) return;
+    releaseMilestone(escrowId, approvers).catch(err => {
+      console.debug('Milestone release error:', err);
+    });
+  };
+
+  const handleClaimVested = (escrowId: string, approvers?: string[]) => {
+    if (!address) return;
+    claimVested(escrowId, approvers).catch(err => {
+      console.debug('Vesting claim error:', err);
+    });
+  };
+
+  // Errors are shown by the hook; the form stays open so the user can retry
+  const handleDispute = (escrowId: string, reason: string, evidence: string[]) =>
+    raiseDispute(escrowId, reason, evidence).catch(err => {
+      console.debug('Dispute error:', err);
+      throw err;
+    });
+
+  const handleBatchUnlock = () => {
+    if (!address || selectedIds.length === 0) return;
+    unlockFundsBatch(selectedIds)
+      .then(() => setSelected(new Set()))
+      .catch(err => {
+        console.debug('Batch unlock error:', err);
+      });
+  };
   
   return (
     <section className="section-card text-black">
       <h2 className="text-xl font-bold mb-4 text-black">My Transactions</h2>
       
       {/* Handle different states */}
-      {!address && (
+      {!wallet.isConnected && (
         <div className="p-8 text-center bg-gray-50 rounded-lg border border-gray-200">
           <p className="text-gray-600">Please connect your wallet to view your transactions.</p>
         </div>
       )}
+
+      {wallet.isConnected && !address && (
+        <div className="p-8 text-center bg-gray-50 rounded-lg border border-gray-200">
+          <p className="text-gray-600">Sign in with your wallet to view your transactions.</p>
+        </div>
+      )}
       
       {address && error && (
         <div className="p-6 bg-red-50 text-red-700 rounded-lg border border-red-200">
@@ -95,78 +704,65 @@ export default function MyTransactions() {
               <p className="text-gray-600">No transactions found. Lock some funds to get started.</p>
             </div>
           ) : (
-            // Display transactions table
-            <table className="w-full text-left border-collapse text-black">
-              <thead>
-                <tr>
-                  <th className="px-4 py-2">Transaction</th>
-                  <th className="px-4 py-2 text-right">Amount</th>
-                  <th className="px-4 py-2 text-center">Status</th>
-                  <th className="px-4 py-2">Date</th>
-                  <th className="px-4 py-2">Action</th>
-                </tr>
-              </thead>
-              <tbody>
-                {transactions.map((transaction: Transaction) => {
-                  const isPending = transaction.status === TX_STATUS.PENDING;
-                  
-                  return (
-                    <tr 
-                      key={transaction.txHash} 
-                      className={`border-t hover:bg-gray-50 ${isPending ? 'bg-yellow-50' : ''}`}
-                    >
-                      <td className="px-4 py-3 font-mono">
-                        <a 
-                          href={`https://preprod.cardanoscan.io/transaction/${transaction.txHash}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-700 hover:underline"
-                          title={transaction.txHash}
-                        >
-                          {formatTxHash(transaction.txHash)}
-                        </a>
-                      </td>
-                      <td className="px-4 py-3 text-right">{formatAmount(transaction.amount)} ADA</td>
-                      <td className="px-4 py-3 text-center">
-                        {isPending ? (
-                            <span className="inline-flex items-center" title={STATUS_DETAILS[transaction.status]}>
-                              <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[transaction.status]}`}>
-                                {STATUS_LABELS[transaction.status]}
-                              </span>
-                              <span className="ml-2 flex h-3 w-3">
-                                <span className="animate-ping absolute inline-flex h-3 w-3 rounded-full bg-yellow-400 opacity-75"></span>
-                                <span className="relative inline-flex rounded-full h-3 w-3 bg-yellow-500"></span>
-                              </span>
-                            </span> 
-                          ) : (
-                            <span 
-                              className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[transaction.status] || 'bg-gray-100 text-gray-800'}`}
-                              title={STATUS_DETAILS[transaction.status]}
-                            > 
-                            {STATUS_LABELS[transaction.status] || transaction.status}
-                          </span>
-                        )}
-                      </td>
-                      <td className="px-4 py-3">{formatDate(transaction.timestamp)}</td>
-                      <td className="px-4 py-3 text-center">
-                        {/* Unlock button, only visible for confirmed transactions */}
-                        {transaction.status === TX_STATUS.CONFIRMED ? (
-                          <button
-                            disabled={unlocking === transaction.txHash}
-                            className="button-primary py-1 px-3 text-sm disabled:opacity-50"
-                            onClick={() => handleUnlock(transaction.txHash, transaction.amount)}
-                          >
-                            {unlocking === transaction.txHash ? 'Unlocking…' : 'Unlock'}
-                          </button>
-                        ) : (
-                          <span className="text-gray-400">-</span>
-                        )}
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+            <>
+              {/* Batch unlock of the selected escrows with a single signature */}
+              <div className="mb-4 flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                  {selectedIds.length > 0
+                    ? `${selectedIds.length} selected (max ${MAX_BATCH_UNLOCK_ENTRIES})`
+                    : 'Select escrows to claim or refund them in one transaction'}
+                </span>
+                <button
+                  disabled={selectedIds.length === 0 || unlocking !== null}
+                  className="button-primary py-1 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={handleBatchUnlock}
+                >
+                  {unlocking === 'batchUnlock' ? 'Processing…' : `Unlock Selected (${selectedIds.length})`}
+                </button>
+              </div>
+              
+              <h3 className="text-lg font-semibold mb-2">Escrows You Funded</h3>
+              {funded.length === 0 ? (
+                <p className="mb-6 text-gray-600">You have not funded any escrows.</p>
+              ) : (
+                <div className="mb-6">
+                  <TransactionTable
+                    transactions={funded}
+                    role="depositor"
+                    address={address}
+                    now={now}
+                    unlocking={unlocking}
+                    onUnlock={handleUnlock}
+                    onDispute={handleDispute}
+                    onRelease={handleRelease}
+                    onClaimVested={handleClaimVested}
+                    selected={selected}
+                    onToggleSelect={toggleSelect}
+                    selectionFull={selectionFull}
+                  />
+                </div>
+              )}
+              
+              <h3 className="text-lg font-semibold mb-2">Escrows You Can Claim</h3>
+              {claimable.length === 0 ? (
+                <p className="text-gray-600">No escrows name this wallet as beneficiary.</p>
+              ) : (
+                <TransactionTable
+                  transactions={claimable}
+                  role="beneficiary"
+                  address={address}
+                  now={now}
+                  unlocking={unlocking}
+                  onUnlock={handleUnlock}
+                  onDispute={handleDispute}
+                  onRelease={handleRelease}
+                  onClaimVested={handleClaimVested}
+                  selected={selected}
+                  onToggleSelect={toggleSelect}
+                  selectionFull={selectionFull}
+                />
+              )}
+            </>
           )}
         </>
       )}
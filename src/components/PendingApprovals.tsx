@@ -0,0 +1,82 @@
+"use client";
+
+import { useWallet } from '@ada-anvil/weld/react';
+import { useApprovals } from '@/hooks/useApprovals';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { PendingApproval } from '@/lib/api-schemas';
+
+const formatAddress = (address: string | null): string => {
+  if (!address) return '-';
+  return `${address.slice(0, 12)}...${address.slice(-6)}`;
+};
+
+const formatAmount = (lovelaceAmount: number): string => {
+  return (lovelaceAmount / 1_000_000).toFixed(2);
+};
+
+/**
+ * Multi-signature unlocks waiting for this wallet's signature
+ * Hidden unless the wallet is a required signer of at least one
+ */
+export default function PendingApprovals() {
+  const wallet = useWallet();
+  const { signedIn } = useWalletSession(wallet, wallet.changeAddressBech32);
+  const address = signedIn ? wallet.changeAddressBech32 : undefined;
+
+  const { data: approvals = [], approve, approving, approveError } = useApprovals(wallet, address);
+
+  const handleApprove = (approval: PendingApproval) => {
+    approve(approval).catch(err => {
+      console.debug('Approval error:', err);
+    });
+  };
+
+  if (!address || approvals.length === 0) return null;
+
+  return (
+    <section className="section-card text-black">
+      <h2 className="text-xl font-bold mb-4 text-black">Awaiting Your Approval</h2>
+
+      {approveError && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md border border-red-200">
+          {approveError}
+        </div>
+      )}
+
+      <table className="w-full text-left border-collapse text-black">
+        <thead>
+          <tr>
+            <th className="px-4 py-2">Escrow</th>
+            <th className="px-4 py-2">Unlocked by</th>
+            <th className="px-4 py-2 text-right">Amount</th>
+            <th className="px-4 py-2 text-center">Signatures</th>
+            <th className="px-4 py-2">Action</th>
+          </tr>
+        </thead>
+        <tbody>
+          {approvals.map(approval => (
+            <tr key={approval.txHash} className="border-t hover:bg-gray-50">
+              <td className="px-4 py-3 font-mono text-sm" title={approval.escrow.id}>
+                {formatAddress(approval.escrow.id)}
+              </td>
+              <td className="px-4 py-3 font-mono text-sm" title={approval.escrow.unlockedBy ?? undefined}>
+                {formatAddress(approval.escrow.unlockedBy)}
+              </td>
+              <td className="px-4 py-3 text-right">{formatAmount(approval.escrow.amount)} ADA</td>
+              <td className="px-4 py-3 text-center">{approval.signed} / {approval.required}</td>
+              <td className="px-4 py-3 text-center">
+                <button
+                  disabled={approving !== null}
+                  className="button-primary py-1 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => handleApprove(approval)}
+                >
+                  {approving === approval.txHash ? 'Processing…' : 'Approve'}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -3,6 +3,7 @@
 import { useWallet, useExtensions } from "@ada-anvil/weld/react";
 import { SUPPORTED_WALLETS } from "@ada-anvil/weld";
 import { useState } from "react";
+import { useWalletSession } from "@/hooks/useWalletSession";
 
 // Component to display wallet information
 const WalletInfo = ({ label, value }: { label: string; value: string }) => (
@@ -23,9 +24,11 @@ const formatAddress = (address?: string) => {
  * - Detects available Cardano wallets
  * - Allows users to connect/disconnect their wallet
  * - Displays wallet information when connected
+ * - Signs the wallet in, which the escrow routes require
  */
 export default function WalletConnector() {
   const wallet = useWallet();
+  const session = useWalletSession(wallet, wallet.changeAddressBech32);
   const { supportedMap: installedWallets, isLoading } = useExtensions(
     "supportedMap",
     "isLoading"
@@ -43,6 +46,16 @@ export default function WalletConnector() {
     setSelectedWallet(walletKey);
   };
 
+  // End the session along with the connection
+  const handleDisconnect = async () => {
+    try {
+      if (session.signedIn) await session.signOut();
+      await wallet.disconnect();
+    } catch (error) {
+      console.error("Failed to disconnect wallet:", error);
+    }
+  };
+
   // Connect to selected wallet
   const handleConnect = async (walletKey?: string) => {
     if (!walletKey) return;
@@ -70,18 +83,23 @@ export default function WalletConnector() {
             value={`${wallet.balanceAda?.toFixed(2) || "0.00"} ADA`}
           />
 
-          <button
-            onClick={() =>
-              wallet
-                .disconnect()
-                .catch((err) =>
-                  console.error("Failed to disconnect wallet:", err)
-                )
-            }
-            className="button-primary"
-          >
+          {!session.signedIn && !session.isLoading && (
+            <button
+              onClick={() => session.signIn()}
+              className="button-primary mr-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={session.signingIn}
+            >
+              {session.signingIn ? "Waiting for signature..." : "Sign In"}
+            </button>
+          )}
+
+          <button onClick={handleDisconnect} className="button-primary">
             Disconnect
           </button>
+
+          {session.error && (
+            <p className="mt-2 text-sm text-red-700">{session.error}</p>
+          )}
         </>
       ) : isLoading ? (
         // Loading state
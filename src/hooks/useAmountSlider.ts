@@ -1,5 +1,7 @@
 import { useState, ChangeEvent, useMemo, useEffect } from 'react';
 import { useWallet } from '@ada-anvil/weld/react';
+import { getSpendableLovelace } from '@/lib/escrow';
+import { useWalletAssets } from './useWalletAssets';
 
 type UseAmountSliderProps = {
   wallet: ReturnType<typeof useWallet>;
@@ -7,7 +9,10 @@ type UseAmountSliderProps = {
 
 export const useAmountSlider = ({ wallet }: UseAmountSliderProps) => {
   const [amount, setAmount] = useState<number>(1);
-  const maxAmount = Number(wallet.balanceAda?.toFixed(2) || 1);
+  const walletAssets = useWalletAssets(wallet);
+  // Keep back the fee and the change output, rounded down so the cap itself is spendable
+  const spendable = getSpendableLovelace(wallet.balanceLovelace ?? 0, walletAssets);
+  const maxAmount = Math.floor(spendable / 10_000) / 100 || 1;
   
   useEffect(() => {
     if (!wallet.isConnected && amount !== 1) {
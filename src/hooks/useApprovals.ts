@@ -0,0 +1,63 @@
+"use client";
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { readApiResponse } from '@/lib/api-client';
+import { ApproveRequest, ApprovalsResponse, PendingApproval, SubmitResponse } from '@/lib/api-schemas';
+import { CardanoWallet } from './useTransactions';
+
+/**
+ * Hook for the multi-signature unlocks waiting on the signed-in wallet
+ * @param wallet - The wallet instance from useWallet() from Weld
+ * @param address - The signed-in wallet address
+ * @returns The pending approvals, and approve (Weld signTx + /escrow/approve) to sign one
+ */
+export function useApprovals(wallet: CardanoWallet, address?: string) {
+  const queryClient = useQueryClient();
+  const [approving, setApproving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Other approvers sign from their own browsers, so poll rather than wait for a push
+  const query = useQuery<PendingApproval[], Error>({
+    queryKey: ['approvals', address],
+    queryFn: async () => {
+      const response = await fetch('/api/escrow/approvals');
+      return readApiResponse<ApprovalsResponse>(response);
+    },
+    enabled: !!address,
+    refetchInterval: 15000,
+  });
+
+  const approve = async (approval: PendingApproval) => {
+    if (!address) return null;
+
+    setError(null);
+    setApproving(approval.txHash);
+
+    try {
+      // Sign the unlock as built; the server adds the witness and submits once all are in
+      const signature = await wallet?.handler?.signTx(approval.complete, true);
+      if (!signature) {
+        throw new Error('Signing failed');
+      }
+      const response = await fetch('/api/escrow/approve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: approval.txHash, signature } satisfies ApproveRequest),
+      });
+      const result = await readApiResponse<SubmitResponse>(response);
+
+      queryClient.invalidateQueries({ queryKey: ['approvals', address] });
+      queryClient.invalidateQueries({ queryKey: ['transactions', address] });
+      return result;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+      throw err;
+    } finally {
+      setApproving(null);
+    }
+  };
+
+  return { ...query, approve, approving, approveError: error };
+}
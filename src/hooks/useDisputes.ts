@@ -0,0 +1,83 @@
+"use client";
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { readApiResponse } from '@/lib/api-client';
+import {
+  DisputesResponse,
+  ResolveRequest,
+  SubmitRequest,
+  SubmitResponse,
+  UnlockResponse,
+} from '@/lib/api-schemas';
+import { EscrowResolution, Transaction, TX_STATUS } from '@/lib/types';
+import { CardanoWallet } from './useTransactions';
+
+const postJson = async <T>(endpoint: string, payload: object): Promise<T> => {
+  const response = await fetch(`/api/escrow/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return readApiResponse<T>(response);
+};
+
+/**
+ * Hook for the disputes the signed-in wallet is arbiter of
+ * @param wallet - The wallet instance from useWallet() from Weld
+ * @param address - The signed-in wallet address
+ * @returns The disputed escrows, and resolve (/escrow/resolve + Weld signTx + /escrow/submit) to settle one
+ */
+export function useDisputes(wallet: CardanoWallet, address?: string) {
+  const queryClient = useQueryClient();
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Parties raise disputes from their own browsers, so poll rather than wait for a push
+  const query = useQuery<Transaction[], Error>({
+    queryKey: ['disputes', address],
+    queryFn: async () => {
+      const response = await fetch('/api/escrow/disputes');
+      return readApiResponse<DisputesResponse>(response);
+    },
+    enabled: !!address,
+    refetchInterval: 15000,
+  });
+
+  const resolve = async (escrowId: string, resolution: EscrowResolution, beneficiaryAmount?: number) => {
+    if (!address) return null;
+
+    setError(null);
+    setResolving(escrowId);
+
+    try {
+      // The arbiter signs the payout as built and submits it like any other unlock
+      const { complete } = await postJson<UnlockResponse>(
+        'resolve',
+        { escrowId, resolution, beneficiaryAmount } satisfies ResolveRequest
+      );
+      const signature = await wallet?.handler?.signTx(complete, true);
+      if (!signature) {
+        throw new Error('Signing failed');
+      }
+      const result = await postJson<SubmitResponse>('submit', {
+        complete,
+        signature,
+        type: TX_STATUS.SIGN_UNLOCK,
+        originalEscrowId: escrowId,
+      } satisfies SubmitRequest);
+
+      queryClient.invalidateQueries({ queryKey: ['disputes', address] });
+      queryClient.invalidateQueries({ queryKey: ['transactions', address] });
+      return result;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+      throw err;
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return { ...query, resolve, resolving, resolveError: error };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { readApiResponse } from '@/lib/api-client';
+import { LockPreviewResponse, LockRequest } from '@/lib/api-schemas';
+import { EscrowAsset, EscrowTerms } from '@/lib/types';
+
+// Wait for the amount slider to settle before building
+const PREVIEW_DELAY_MS = 500;
+
+/**
+ * Hook for the cost of a lock before it is signed, from a dry-run build of the same transaction
+ * @param address - The signed-in wallet address, which pays the fee
+ * @param lovelaceAmount - Lovelace to lock
+ * @param terms - Terms of the escrow, or null while the form is incomplete
+ * @param assets - Tokens to lock alongside the ADA
+ * @returns The query with the fee, the min-UTxO deposit and the total leaving the wallet
+ */
+export function useLockPreview(
+  address: string | undefined,
+  lovelaceAmount: number,
+  terms: EscrowTerms | null,
+  assets: EscrowAsset[]
+) {
+  const body = terms && JSON.stringify({
+    beneficiaryAddress: terms.beneficiaryAddress,
+    deadline: terms.deadline,
+    refundAfter: terms.refundAfter,
+    signers: terms.signers,
+    threshold: terms.threshold,
+    arbiterAddress: terms.arbiterAddress,
+    milestones: terms.milestones,
+    vesting: terms.vesting,
+    amount: lovelaceAmount,
+    assets,
+  } satisfies LockRequest);
+
+  const [settled, setSettled] = useState(body);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(body), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [body]);
+
+  return useQuery<LockPreviewResponse, Error>({
+    queryKey: ['lockPreview', address, settled],
+    queryFn: async () => {
+      const response = await fetch('/api/escrow/lock/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: settled!,
+      });
+      return readApiResponse<LockPreviewResponse>(response);
+    },
+    enabled: !!address && !!settled && settled === body,
+    // Invalid terms won't build any better on a second try
+    retry: false,
+    staleTime: 30000,
+  });
+}
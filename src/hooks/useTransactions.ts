@@ -1,37 +1,88 @@
 "use client";
 
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { Transaction, TransactionStatus, TX_STATUS } from '@/lib/types';
+import { BatchLockEntry, EscrowAsset, EscrowTerms, Transaction, TransactionStatus, TX_STATUS } from '@/lib/types';
+import { getSlotStart, getVestingClaim, parseEscrowId } from '@/lib/escrow';
+import { readApiResponse } from '@/lib/api-client';
+import {
+  BatchLockRequest,
+  BatchLockResponse,
+  BatchUnlockRequest,
+  DisputeRequest,
+  DisputeResponse,
+  LockRequest,
+  LockResponse,
+  SubmitRequest,
+  SubmitResponse,
+  TransactionsResponse,
+  UnlockRequest,
+  UnlockResponse,
+  VestRequest,
+} from '@/lib/api-schemas';
 import { useCallback, useState, useEffect } from 'react';
 
+// Statuses waiting on the chain, which need live updates
+const AWAITING_CHAIN: TransactionStatus[] = [TX_STATUS.PENDING, TX_STATUS.CONFIRMING, TX_STATUS.UNLOCK_PENDING];
+
 /**
- * Hook to manage transaction data with smart polling that automatically
- * activates only when pending transactions are detected
+ * Hook to manage transaction data with live updates
+ * Changes are pushed over a Server-Sent Events stream; while the stream is down,
+ * polling activates whenever transactions are waiting on the chain
  * @param wallet - Wallet address to fetch transactions for
  * @returns Transaction data with loading and error states
  */
 export function usePollingTransactions(wallet?: string) {
+  const queryClient = useQueryClient();
   const [hasPendingTx, setHasPendingTx] = useState(false);
+  const [streamConnected, setStreamConnected] = useState(false);
   
   const query = useQuery<Transaction[], Error>({
     queryKey: ['transactions', wallet],
     queryFn: async () => {
       if (!wallet) throw new Error("Wallet is required");
-      const response = await fetch(`/api/escrow/transactions?wallet=${wallet}`);
-      return response.json();
+      const response = await fetch(`/api/escrow/transactions?wallet=${encodeURIComponent(wallet)}`);
+      return readApiResponse<TransactionsResponse>(response);
     },
     enabled: !!wallet,
-    refetchInterval: wallet && hasPendingTx ? 5000 : false,
+    refetchInterval: wallet && hasPendingTx && !streamConnected ? 5000 : false,
   });
   
   useEffect(() => {
     if (query.data) {
-      const isPending = query.data.some(tx => tx.status === TX_STATUS.PENDING);
+      const isPending = query.data.some(tx => AWAITING_CHAIN.includes(tx.status));
       if (isPending !== hasPendingTx) {
         setHasPendingTx(isPending);
       }
     }
   }, [query.data, hasPendingTx]);
+
+  // Apply pushed changes to the cache as they happen
+  useEffect(() => {
+    if (!wallet || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`/api/escrow/transactions/stream?wallet=${encodeURIComponent(wallet)}`);
+    source.onopen = () => {
+      setStreamConnected(true);
+      // Catch up on anything missed while disconnected
+      queryClient.invalidateQueries({ queryKey: ['transactions', wallet] });
+    };
+    // EventSource retries on its own; poll in the meantime
+    source.onerror = () => setStreamConnected(false);
+    source.addEventListener('transaction', (event: MessageEvent<string>) => {
+      const changed = JSON.parse(event.data) as Transaction;
+      queryClient.setQueryData<Transaction[]>(['transactions', wallet], old => {
+        if (!old) return [changed];
+        return old.some(tx => tx.id === changed.id)
+          ? old.map(tx => (tx.id === changed.id ? changed : tx))
+          : [changed, ...old];
+      });
+    });
+
+    return () => {
+      source.close();
+      setStreamConnected(false);
+    };
+  }, [wallet, queryClient]);
   
   return query;
 }
@@ -45,7 +96,7 @@ export function useTransactionUpdater(wallet?: string) {
   const queryClient = useQueryClient();
   
   return useCallback(
-    (txHash: string, newStatus: TransactionStatus, newTransaction?: Partial<Transaction>) => {
+    (escrowId: string, newStatus: TransactionStatus, newTransaction?: Partial<Transaction>) => {
       if (!wallet) return;
       
       // Update cache optimistically
@@ -55,21 +106,45 @@ export function useTransactionUpdater(wallet?: string) {
           if (!old) return [];
           
           // Update existing transaction or add new one
-          const existingTx = old.find(tx => tx.txHash === txHash);
+          const existingTx = old.find(tx => tx.id === escrowId);
           if (existingTx) {
             return old.map(tx => 
-              tx.txHash === txHash ? { ...tx, status: newStatus } : tx
+              tx.id === escrowId ? { ...tx, ...newTransaction, status: newStatus } : tx
             );
           } 
           
           // Create and add new transaction if provided
           if (newTransaction) {
             const newTx: Transaction = {
-              txHash,
+              id: escrowId,
+              ...parseEscrowId(escrowId),
+              spent: false,
               wallet: wallet,
+              beneficiary: newTransaction.beneficiary ?? null,
               amount: newTransaction.amount || 0,
+              assets: newTransaction.assets ?? [],
               status: newStatus,
               timestamp: newTransaction.timestamp || Date.now(),
+              updatedAt: null,
+              confirmedAt: null,
+              blockHeight: null,
+              confirmations: 0,
+              requiredConfirmations: 1,
+              unlockTxHash: null,
+              unlockedBy: null,
+              unlockConfirmedAt: null,
+              unlockBlockHeight: null,
+              history: [],
+              deadline: newTransaction.deadline ?? null,
+              refundAfter: newTransaction.refundAfter ?? null,
+              validatorHash: null,  // Known once the server's list is refetched
+              signers: [],          // Stored as key hashes, likewise known after the refetch
+              threshold: newTransaction.threshold ?? null,
+              arbiter: newTransaction.arbiter ?? null,
+              dispute: null,
+              milestones: newTransaction.milestones ?? [],
+              vesting: newTransaction.vesting ?? null,
+              parentEscrowId: null,
             };
             return [newTx, ...old];
           }
@@ -85,36 +160,21 @@ export function useTransactionUpdater(wallet?: string) {
   );
 }
 
-type CardanoWallet = {
-  changeAddressHex?: string;
+export type CardanoWallet = {
   handler?: {
     signTx: (txComplete: string, witnessOnly: boolean) => Promise<string>;
   };
 };
 
-interface TransactionResponse {
-  txHash: string;
-  error?: string;
-}
-
-interface BuildTransactionResponse {
-  complete?: string;
-  error?: string;
-}
-
-const apiPost = async <T>(endpoint: string, payload: Record<string, unknown>): Promise<T> => {
+// Error responses are turned into user-friendly messages based on their code
+const apiPost = async <T>(endpoint: string, payload: object): Promise<T> => {
   const response = await fetch(`/api/escrow/${endpoint}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(payload),
   });
   
-  const data = await response.json();
-  if (data.error) {
-    throw new Error(data.error);
-  }
-  
-  return data as T;
+  return readApiResponse<T>(response);
 };
 
 /**
@@ -122,48 +182,95 @@ const apiPost = async <T>(endpoint: string, payload: Record<string, unknown>): P
  * @param wallet - The wallet instance from useWallet() from Weld
  * @param address - The wallet address to use for transactions
  * @returns Functions:
- * - lockFunds (/escrow/lock + Weld signTx + /escrow/submit): Lock funds in escrow
- * - unlockFunds (/escrow/unlock + Weld signTx + /escrow/submit): Unlock funds from escrow
+ * - lockFunds (/escrow/lock + Weld signTx + /escrow/submit): Lock funds in escrow for a beneficiary
+ * - lockFundsBatch (/escrow/lock/batch + Weld signTx + /escrow/submit): Lock several escrows in one transaction
+ * - unlockFunds (/escrow/unlock + Weld signTx + /escrow/submit): Claim or refund funds from escrow
+ * - unlockFundsBatch (/escrow/unlock/batch + Weld signTx + /escrow/submit): Claim or refund several escrows at once
+ * - releaseMilestone (/escrow/release + Weld signTx + /escrow/submit): Pay the beneficiary the next stage of an escrow
+ * - claimVested (/escrow/vest + Weld signTx + /escrow/submit): Claim everything that has vested so far
+ * - raiseDispute (/escrow/dispute): Hand an escrow with an arbiter over to them
  */
 export function useTransactionOperations(wallet: CardanoWallet, address?: string) {
+  const queryClient = useQueryClient();
   const [processing, setProcessing] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const updateTransaction = useTransactionUpdater(address);
 
-  const buildUnlockTransaction = async (txHash: string, amount: number) => {
-    if (!address || !wallet?.changeAddressHex) return null;
+  // The server takes the unlocking wallet from the session and the amount from the escrow
+  // Multi-signature escrows also name the signers picked to approve
+  const buildUnlockTransaction = async (escrowId: string, approvers?: string[]) => {
+    if (!address) return null;
     
-    const data = await apiPost<BuildTransactionResponse>('unlock', {
-      txHash,
-      changeAddress: address,
-      ownerKeyHash: wallet.changeAddressHex,
-      amount
-    });
+    const data = await apiPost<UnlockResponse>('unlock', { escrowId, approvers } satisfies UnlockRequest);
+    return data.complete;
+  };
+
+  // The server works out the next milestone and the escrow carrying the rest
+  const buildReleaseTransaction = async (escrowId: string, approvers?: string[]) => {
+    if (!address) return null;
     
-    if (!data.complete) {
-      throw new Error('Build failed');
-    }
+    const data = await apiPost<UnlockResponse>('release', { escrowId, approvers } satisfies UnlockRequest);
+    return data.complete;
+  };
+
+  // The claimable amount is filled in from the cached escrow, matching what the user was shown;
+  // the server checks it against what has vested when it builds the tx
+  const buildVestTransaction = async (escrowId: string, approvers?: string[]) => {
+    if (!address) return null;
     
+    const escrow = queryClient.getQueryData<Transaction[]>(['transactions', address])?.find(tx => tx.id === escrowId);
+    const amount = escrow ? getVestingClaim(escrow, getSlotStart(Date.now())) : null;
+    if (escrow && amount == null) {
+      throw new Error('Nothing can be claimed from this escrow yet');
+    }
+    const data = await apiPost<UnlockResponse>('vest', { escrowId, amount: amount ?? undefined, approvers } satisfies VestRequest);
     return data.complete;
   };
 
-  const buildLockTransaction = async (lovelaceAmount: number) => {
-    if (!address || !wallet?.changeAddressHex) return null;
+  const buildLockTransaction = async (lovelaceAmount: number, terms: EscrowTerms, assets: EscrowAsset[]) => {
+    if (!address) return null;
     
-    const data = await apiPost<BuildTransactionResponse>('lock', {
-      changeAddress: address,
+    const data = await apiPost<LockResponse>('lock', {
+      beneficiaryAddress: terms.beneficiaryAddress,
+      deadline: terms.deadline,
+      refundAfter: terms.refundAfter,
+      signers: terms.signers,
+      threshold: terms.threshold,
+      arbiterAddress: terms.arbiterAddress,
+      milestones: terms.milestones,
+      vesting: terms.vesting,
       amount: lovelaceAmount,
-      ownerKeyHash: wallet.changeAddressHex,
+      assets,
       message: `Locking ${lovelaceAmount / 1_000_000} ADA in escrow`
-    });
+    } satisfies LockRequest);
     
-    if (!data.complete) {
-      throw new Error('Build failed');
-    }
+    return { complete: data.complete, escrowIds: [data.escrowId] };
+  };
+
+  const buildBatchUnlockTransaction = async (escrowIds: string[]) => {
+    if (!address) return null;
     
+    const data = await apiPost<UnlockResponse>('unlock/batch', { escrowIds } satisfies BatchUnlockRequest);
     return data.complete;
   };
 
+  const buildBatchLockTransaction = async (entries: BatchLockEntry[]) => {
+    if (!address) return null;
+    
+    const data = await apiPost<BatchLockResponse>('lock/batch', {
+      entries: entries.map(entry => ({
+        beneficiaryAddress: entry.beneficiaryAddress,
+        amount: Math.round(entry.adaAmount * 1_000_000),
+        assets: entry.assets ?? [],
+        deadline: entry.deadline,
+        refundAfter: entry.refundAfter,
+      })),
+      message: `Locking ${entries.length} escrows`
+    } satisfies BatchLockRequest);
+    
+    return { complete: data.complete, escrowIds: data.escrowIds };
+  };
+
   const signTransaction = async (txComplete: string): Promise<string> => {
     const signed = await wallet?.handler?.signTx(txComplete, true);
     if (!signed) {
@@ -172,46 +279,52 @@ export function useTransactionOperations(wallet: CardanoWallet, address?: string
     return signed;
   };
 
-  const submitUnlockTransaction = async (signed: string, txComplete: string, originalTxHash: string): Promise<TransactionResponse> => {
-    return apiPost<TransactionResponse>('submit', {
+  const submitUnlockTransaction = async (signed: string, txComplete: string, originalEscrowIds: string[]): Promise<SubmitResponse> => {
+    return apiPost<SubmitResponse>('submit', {
       signature: signed,
       complete: txComplete,
       type: TX_STATUS.SIGN_UNLOCK,
-      originalTxHash
-    });
+      originalEscrowIds
+    } satisfies SubmitRequest);
   };
   
-  const submitLockTransaction = async (signedTx: string, txComplete: string, lovelaceAmount: number): Promise<TransactionResponse> => {
-    return apiPost<TransactionResponse>('submit', {
+  const submitLockTransaction = async (signedTx: string, txComplete: string): Promise<SubmitResponse> => {
+    return apiPost<SubmitResponse>('submit', {
       signature: signedTx,
       complete: txComplete,
-      changeAddress: address,
-      amount: lovelaceAmount,
       type: TX_STATUS.SIGN_LOCK
-    });
+    } satisfies SubmitRequest);
   };
   
-  const lockFunds = async (adaAmount: number) => {
+  const lockFunds = async (adaAmount: number, terms: EscrowTerms, assets: EscrowAsset[] = []) => {
     if (!address) return null;
     
     setError(null);
     setProcessing('lock');
     
     try {
-      // Convert ADA to Lovelace (smallest unit)
-      const lovelaceAmount = adaAmount * 1_000_000;
+      // Convert ADA to Lovelace (smallest unit); the API only accepts whole lovelace
+      const lovelaceAmount = Math.round(adaAmount * 1_000_000);
       
       // Build → Sign → Submit pattern
-      const txComplete = await buildLockTransaction(lovelaceAmount);
-      if (!txComplete) throw new Error('Failed to build transaction');
+      const built = await buildLockTransaction(lovelaceAmount, terms, assets);
+      if (!built) throw new Error('Failed to build transaction');
       
-      const signedTx = await signTransaction(txComplete);
-      const result = await submitLockTransaction(signedTx, txComplete, lovelaceAmount);
+      const signedTx = await signTransaction(built.complete);
+      const result = await submitLockTransaction(signedTx, built.complete);
       
       // Update transaction status in cache
       if (result.txHash) {
-        updateTransaction(result.txHash, TX_STATUS.PENDING, {
+        updateTransaction(built.escrowIds[0], TX_STATUS.PENDING, {
+          beneficiary: terms.beneficiaryAddress,
+          deadline: terms.deadline,
+          refundAfter: terms.refundAfter,
+          threshold: terms.threshold ?? null,
+          arbiter: terms.arbiterAddress ?? null,
+          milestones: (terms.milestones ?? []).map(amount => ({ amount, releaseTxHash: null })),
+          vesting: terms.vesting ?? null,
           amount: lovelaceAmount,
+          assets,
           timestamp: Date.now()
         });
       }
@@ -226,22 +339,176 @@ export function useTransactionOperations(wallet: CardanoWallet, address?: string
     }
   };
   
-  const unlockFunds = async (txHash: string, amount: number) => {
+  const lockFundsBatch = async (entries: BatchLockEntry[]) => {
+    if (!address || entries.length === 0) return null;
+    
+    setError(null);
+    setProcessing('lock');
+    
+    try {
+      // Build → Sign → Submit pattern, with one signature for every escrow
+      const built = await buildBatchLockTransaction(entries);
+      if (!built) throw new Error('Failed to build transaction');
+      
+      const signedTx = await signTransaction(built.complete);
+      const result = await submitLockTransaction(signedTx, built.complete);
+      
+      // Update transaction status in cache, one row per escrow output
+      if (result.txHash) {
+        entries.forEach((entry, i) => {
+          updateTransaction(built.escrowIds[i], TX_STATUS.PENDING, {
+            beneficiary: entry.beneficiaryAddress,
+            deadline: entry.deadline,
+            refundAfter: entry.refundAfter,
+            amount: Math.round(entry.adaAmount * 1_000_000),
+            assets: entry.assets ?? [],
+            timestamp: Date.now()
+          });
+        });
+      }
+      
+      return result;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+      throw err;
+    } finally {
+      setProcessing(null);
+    }
+  };
+  
+  const unlockFunds = async (escrowId: string, approvers?: string[]) => {
     if (!address) return;
     
     setError(null);
-    setProcessing(txHash);
+    setProcessing(escrowId);
     
     try {
       // Build → Sign → Submit pattern
-      const txComplete = await buildUnlockTransaction(txHash, amount);
+      const txComplete = await buildUnlockTransaction(escrowId, approvers);
       if (!txComplete) throw new Error('Failed to build transaction');
       
       const signedTx = await signTransaction(txComplete);
-      await submitUnlockTransaction(signedTx, txComplete, txHash);
+      const result = await submitUnlockTransaction(signedTx, txComplete, [escrowId]);
       
-      // Update transaction status in cache
-      updateTransaction(txHash, TX_STATUS.UNLOCKED);
+      // Multi-signature unlocks stay unsigned until every picked approver has signed
+      if (result.awaitingApprovals) {
+        updateTransaction(escrowId, TX_STATUS.SIGN_UNLOCK, { unlockedBy: address });
+        return result;
+      }
+
+      // Update transaction status in cache until the webhook confirms the unlock
+      updateTransaction(escrowId, TX_STATUS.UNLOCK_PENDING, { unlockTxHash: result.txHash, unlockedBy: address });
+      return result;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+      throw err;
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const unlockFundsBatch = async (escrowIds: string[]) => {
+    if (!address || escrowIds.length === 0) return;
+    
+    setError(null);
+    setProcessing('batchUnlock');
+    
+    try {
+      // Build → Sign → Submit pattern, with one wallet prompt for every escrow
+      const txComplete = await buildBatchUnlockTransaction(escrowIds);
+      if (!txComplete) throw new Error('Failed to build transaction');
+      
+      const signedTx = await signTransaction(txComplete);
+      const result = await submitUnlockTransaction(signedTx, txComplete, escrowIds);
+      
+      // Update transaction status in cache until the webhook confirms the unlock
+      escrowIds.forEach(escrowId =>
+        updateTransaction(escrowId, TX_STATUS.UNLOCK_PENDING, { unlockTxHash: result.txHash, unlockedBy: address })
+      );
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+      throw err;
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const releaseMilestone = async (escrowId: string, approvers?: string[]) => {
+    if (!address) return;
+    
+    setError(null);
+    setProcessing(escrowId);
+    
+    try {
+      // Build → Sign → Submit pattern
+      const txComplete = await buildReleaseTransaction(escrowId, approvers);
+      if (!txComplete) throw new Error('Failed to build transaction');
+      
+      const signedTx = await signTransaction(txComplete);
+      const result = await submitUnlockTransaction(signedTx, txComplete, [escrowId]);
+      
+      // Multi-signature releases stay unsigned until every picked approver has signed
+      if (result.awaitingApprovals) {
+        updateTransaction(escrowId, TX_STATUS.SIGN_UNLOCK, { unlockedBy: address });
+        return result;
+      }
+
+      // The escrow carrying the rest arrives over the stream once the server records it
+      updateTransaction(escrowId, TX_STATUS.UNLOCK_PENDING, { unlockTxHash: result.txHash, unlockedBy: address });
+      return result;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+      throw err;
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const claimVested = async (escrowId: string, approvers?: string[]) => {
+    if (!address) return;
+    
+    setError(null);
+    setProcessing(escrowId);
+    
+    try {
+      // Build → Sign → Submit pattern
+      const txComplete = await buildVestTransaction(escrowId, approvers);
+      if (!txComplete) throw new Error('Failed to build transaction');
+      
+      const signedTx = await signTransaction(txComplete);
+      const result = await submitUnlockTransaction(signedTx, txComplete, [escrowId]);
+      
+      // Multi-signature claims stay unsigned until every picked approver has signed
+      if (result.awaitingApprovals) {
+        updateTransaction(escrowId, TX_STATUS.SIGN_UNLOCK, { unlockedBy: address });
+        return result;
+      }
+
+      // The escrow carrying the unvested rest arrives over the stream once the server records it
+      updateTransaction(escrowId, TX_STATUS.UNLOCK_PENDING, { unlockTxHash: result.txHash, unlockedBy: address });
+      return result;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+      throw err;
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const raiseDispute = async (escrowId: string, reason: string, evidence: string[]) => {
+    if (!address) return;
+    
+    setError(null);
+    setProcessing(escrowId);
+    
+    try {
+      const escrow = await apiPost<DisputeResponse>('dispute', { escrowId, reason, evidence } satisfies DisputeRequest);
+      updateTransaction(escrowId, escrow.status, escrow);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
       setError(msg);
@@ -253,7 +520,12 @@ export function useTransactionOperations(wallet: CardanoWallet, address?: string
 
   return {
     lockFunds,
+    lockFundsBatch,
     unlockFunds,
+    unlockFundsBatch,
+    releaseMilestone,
+    claimVested,
+    raiseDispute,
     processing,
     error
   };
@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useWallet } from '@ada-anvil/weld/react';
+import { parseBalance } from '@ada-anvil/weld/server';
+import { EscrowAsset } from '@/lib/types';
+
+/**
+ * Native tokens held by the connected wallet, decoded from its CBOR balance
+ * @param wallet - The wallet instance from useWallet() from Weld
+ * @returns Assets with the quantity available in the wallet
+ */
+export const useWalletAssets = (wallet: ReturnType<typeof useWallet>): EscrowAsset[] => {
+  const balanceDecoded = wallet.balanceDecoded;
+
+  return useMemo(() => {
+    if (!wallet.isConnected || !balanceDecoded) return [];
+
+    const balance = parseBalance(balanceDecoded);
+    return Object.entries(balance)
+      .filter(([policyId]) => policyId !== 'cardano')
+      .flatMap(([policyId, tokens]) =>
+        Object.entries(tokens).map(([assetName, quantity]) => ({ policyId, assetName, quantity }))
+      );
+  }, [wallet.isConnected, balanceDecoded]);
+};
@@ -0,0 +1,87 @@
+"use client";
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useWallet } from '@ada-anvil/weld/react';
+import { readApiResponse } from '@/lib/api-client';
+import { NonceRequest, NonceResponse, SessionResponse, VerifyRequest, VerifyResponse } from '@/lib/api-schemas';
+import { bytesToHex } from '@/lib/cbor';
+
+const authPost = async <T>(endpoint: string, payload: object = {}): Promise<T> => {
+  const response = await fetch(`/api/auth/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  return readApiResponse<T>(response);
+};
+
+/**
+ * Hook to sign in with the connected wallet
+ * The server issues a nonce message, the wallet signs it with CIP-30 signData using its
+ * payment key, and a session cookie is set once the signature checks out
+ * @param wallet - The wallet instance from useWallet() from Weld
+ * @param address - The wallet address to sign in as
+ * @returns Whether that address is signed in, with signIn and signOut functions
+ */
+export function useWalletSession(wallet: ReturnType<typeof useWallet>, address?: string) {
+  const queryClient = useQueryClient();
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const session = useQuery<SessionResponse, Error>({
+    queryKey: ['session'],
+    queryFn: async () => readApiResponse<SessionResponse>(await fetch('/api/auth/session')),
+  });
+
+  // A session for another wallet doesn't count after switching accounts
+  const signedIn = !!address && session.data?.address === address;
+
+  const signIn = async () => {
+    if (!address || !wallet.handler) return;
+
+    setError(null);
+    setSigningIn(true);
+
+    try {
+      const { nonce, message } = await authPost<NonceResponse>('nonce', { address } satisfies NonceRequest);
+
+      // Sign with the change address so the payment key, not the stake key, signs
+      const signed = await wallet.handler.enabledApi.signData(
+        await wallet.handler.getChangeAddressHex(),
+        bytesToHex(new TextEncoder().encode(message))
+      );
+      if (typeof signed === 'string' || !signed.key) {
+        throw new Error('Wallet did not return a CIP-30 data signature');
+      }
+
+      await authPost<VerifyResponse>('verify', {
+        nonce,
+        signature: signed.signature,
+        key: signed.key,
+      } satisfies VerifyRequest);
+      await queryClient.invalidateQueries({ queryKey: ['session'] });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const signOut = async () => {
+    await authPost('logout');
+    queryClient.removeQueries({ queryKey: ['transactions'] });
+    await queryClient.invalidateQueries({ queryKey: ['session'] });
+  };
+
+  return {
+    signedIn,
+    isLoading: session.isLoading,
+    signIn,
+    signOut,
+    signingIn,
+    error,
+  };
+}
@@ -1,14 +1,18 @@
-const API = process.env.ANVIL_API_ENDPOINT;
-const X_API_KEY = process.env.ANVIL_API_KEY;
-
-if (!API || !X_API_KEY) {
-  throw new Error('ANVIL_API_ENDPOINT or ANVIL_API_KEY environment variables are not set');
-}
-
-const getHeaders = () => ({
-  'Content-Type': 'application/json',
-  'x-api-key': X_API_KEY,
-});
+import { EscrowAsset, VestingSchedule } from './types';
+import { EscrowDatum, findScriptOutputIndexes, getAddressPaymentCredential } from './tx-parser';
+import { BuildTxRequest, DatumField, getChainBackend, TxOutputAsset, TxOutputRequest } from './chain-backend';
+import { LookupCache } from './lookup-cache';
+import { encodeVestingTerms, EscrowAction } from './escrow';
+import {
+  EscrowValidator,
+  getActiveValidator,
+  getValidator,
+  supportsApprovals,
+  supportsArbiter,
+  supportsBeneficiary,
+  supportsMilestones,
+  supportsVesting,
+} from './validator-registry';
 
 // Error handling utilities
 const handleApiError = (context: string, error: unknown): string => {
@@ -17,144 +21,435 @@ const handleApiError = (context: string, error: unknown): string => {
   return `Failed to ${context}: ${message}`;
 };
 
-// Generic API fetch with error handling
-async function fetchApi<T>(endpoint: string, options: RequestInit, context: string): Promise<T> {
-  try {
-    const response = await fetch(`${API}${endpoint}`, options);
-    
-    if (!response.ok) {
-      const errText = await response.text();
-      console.error(`${context} error:`, response.status, response.statusText, errText);
-      throw new Error(`${response.status} ${response.statusText} - ${errText}`);
-    }
-    
-    return await response.json() as T;
-  } catch (error) {
-    throw new Error(handleApiError(context, error));
-  }
+// A single escrow output to create in a lock transaction
+export interface LockEntry {
+  beneficiaryAddress: string;  // Address of the party who can claim the funds
+  lovelaceAmount: number;      // Amount in lovelace to lock in escrow
+  assets?: EscrowAsset[];      // Native tokens to lock alongside the lovelace
+  deadline: number;            // Unix ms after which the beneficiary can claim
+  refundAfter: number;         // Unix ms after which the depositor can reclaim
+  signers?: string[];          // Approver addresses of a multi-signature escrow
+  threshold?: number;          // Approvals needed to unlock, out of the signers
+  arbiterAddress?: string;     // Wallet that settles disputes
+  milestones?: number[];       // Lovelace per stage released by the depositor, summing to lovelaceAmount
+  vesting?: VestingSchedule;   // Schedule the beneficiary claims on, vesting lovelaceAmount
 }
 
 // Interface for lock funds parameters
-interface LockFundsParams {
-  changeAddress: string;     // User's wallet address for change
-  lovelaceAmount: number;    // Amount in lovelace to lock in escrow
-  ownerKeyHash: string;      // Public key hash of the owner who can unlock funds
-  message?: string;          // Optional transaction message
+interface LockFundsParams extends LockEntry {
+  changeAddress: string;       // Depositor's wallet address for change
+  message?: string;            // Optional transaction message
 }
 
 // Interface for the lock funds response
 interface LockFundsResponse {
   txHash?: string;  // Transaction hash if successful
   complete?: string; // Complete tx for client-side signing
+  outputIndex?: number; // Index of the escrow output at the script address
+  validatorHash?: string; // Escrow contract the funds were locked to
   error?: string;   // Error message if the request fails
 }
 
+// Interface for batch lock parameters
+export interface LockFundsBatchParams {
+  changeAddress: string;       // Depositor's wallet address for change
+  entries: LockEntry[];        // One escrow output per entry
+  message?: string;            // Optional transaction message
+}
+
+// Interface for the batch lock response
+export interface LockFundsBatchResponse {
+  txHash?: string;
+  complete?: string;
+  outputIndexes?: number[];    // Script output index of each entry, in entry order
+  validatorHash?: string;
+  error?: string;
+}
+
 // Interface for unlock funds parameters
 export interface UnlockFundsParams {
   txHash: string;
-  changeAddress: string;
-  ownerKeyHash: string;       // Key hash for requiredSigners
+  outputIndex: number;        // Index of the escrow output in the lock tx
+  validatorHash: string | null; // Escrow contract holding the output, as recorded on the row
+  action: EscrowAction;       // Spending path, which picks the redeemer
+  changeAddress: string;      // Unlocking wallet; its payment key hash is the required signer
+  approvers?: string[];       // Approver key hashes that must co-sign a multi-signature escrow
+  payout?: DisputePayout;     // Where the funds go; required for the resolve action
+  release?: PartialRelease;   // Part paid out; required for the release and vest actions
+  validFrom?: number;         // Unix ms the claim or refund path opens, or vesting is counted to
+  unlockReason?: string;
+}
+
+// Split of a disputed escrow decided by its arbiter, paid out by the resolution tx
+export interface DisputePayout {
+  beneficiaryAddress: string;
+  beneficiaryAmount: number;  // Lovelace to the beneficiary
+  depositorAddress: string;
+  depositorAmount: number;    // Lovelace back to the depositor
+  assets: EscrowAsset[];      // Locked tokens, all paid to one party
+  assetsTo: 'beneficiary' | 'depositor';
+}
+
+// Part of an escrow paid to the beneficiary, a milestone or what has vested, and the escrow output
+// carrying the rest
+export interface PartialRelease {
+  beneficiaryAddress: string;
+  amount: number;             // Lovelace paid out
+  assets: EscrowAsset[];      // Locked tokens, paid out with the last part
+  remaining: {                // Continuing escrow output; null when this is the last part
+    lovelace: number;
+    assets: EscrowAsset[];
+    datum: EscrowDatum;       // The spent escrow's datum, without the released milestone
+  } | null;
+}
+
+// Escrow UTxO to spend, with the contract holding it and the path to spend it by
+export interface EscrowOutputRef {
+  txHash: string;
+  outputIndex: number;
+  validatorHash: string | null;
+  action: EscrowAction;
+}
+
+// Interface for batch unlock parameters
+export interface UnlockFundsBatchParams {
+  outputRefs: EscrowOutputRef[];
+  changeAddress: string;      // Unlocking wallet; its payment key hash is the required signer
+  validFrom?: number;         // Latest opening time across the selected escrows
   unlockReason?: string;
 }
 
 // Interface for the unlock funds response
 export interface UnlockFundsResponse {
   complete?: string;
+  continuingOutputIndex?: number;  // Index of the escrow output carrying the rest of a partial release
   error?: string;
 }
 
+// Both lookups are deterministic, so results are kept per backend; script addresses survive restarts
+const scriptAddresses = new LookupCache('script-address', { persist: true });
+const addressKeyHashes = new LookupCache('address-key-hash');
+
 /**
  * Get the script address for a validator hash
  */
 export async function getScriptAddress(validatorHash: string): Promise<string> {
-  const data = await fetchApi<{ hex: string }>(
-    `/validators/${validatorHash}/address`,
-    {
-      method: 'GET',
-      headers: getHeaders(),
-    },
-    'get script address'
-  );
-  return data.hex;
+  const backend = getChainBackend();
+  return scriptAddresses.get(`${backend.id}:${validatorHash}`, () => backend.getScriptAddress(validatorHash));
 }
 
 /**
  * Get the payment verification key hash from an address
+ * Shelley addresses are decoded locally; the backend is only asked about anything else
  */
 export async function getAddressKeyHash(address: string): Promise<string> {
-  const data = await fetchApi<{ payment: string }>(
-    `/utils/addresses/parse`,
-    {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify({ address }),
+  const credential = getAddressPaymentCredential(address);
+  if (credential?.type === 'key') {
+    return credential.hash;
+  }
+  const backend = getChainBackend();
+  return addressKeyHashes.get(`${backend.id}:${address}`, () => backend.getAddressKeyHash(address));
+}
+
+const toOutputAssets = (assets: EscrowAsset[]): TxOutputAsset[] =>
+  assets.map(asset => ({
+    policyId: asset.policyId,
+    assetName: { name: asset.assetName, format: 'hex' },
+    quantity: asset.quantity,
+  }));
+
+// Only the fields the contract's datum takes; escrows without approvers store none and a threshold of 0,
+// escrows without an arbiter store empty bytes, and escrows without milestones or vesting none
+function toDatumValue(validator: EscrowValidator, datum: EscrowDatum): Record<string, DatumField | undefined> {
+  const fields: Record<string, DatumField | undefined> = {
+    depositor: datum.depositor,
+    beneficiary: datum.beneficiary ?? undefined,
+    deadline: datum.deadline ?? undefined,
+    refundAfter: datum.refundAfter ?? undefined,
+    signers: datum.signers,
+    threshold: datum.threshold ?? 0,
+    arbiter: datum.arbiter ?? '',
+    milestones: datum.milestones,
+    vesting: datum.vesting ? encodeVestingTerms(datum.vesting) : [],
+  };
+  return Object.fromEntries(validator.datumFields.map(field => [field, fields[field]]));
+}
+
+// Output locking funds at the contract's script address under an escrow datum
+function toEscrowOutput(
+  scriptAddress: string,
+  validator: EscrowValidator,
+  lovelace: number,
+  assets: EscrowAsset[],
+  datum: EscrowDatum
+): TxOutputRequest {
+  return {
+    address: scriptAddress,
+    lovelace,
+    ...(assets.length > 0 && { assets: toOutputAssets(assets) }),
+    datum: {
+      type: "inline",
+      value: toDatumValue(validator, datum),
+      shape: {
+        validatorHash: validator.hash,
+        purpose: "spend"
+      }
+    }
+  };
+}
+
+// Build one transaction with a script output per entry
+async function buildLockTransaction(
+  changeAddress: string,
+  entries: LockEntry[],
+  message: string
+): Promise<{ hash: string; complete: string; outputIndexes: number[]; validatorHash: string }> {
+  // New escrows always lock to the active contract version
+  const validator = getActiveValidator();
+  const validatorHash = validator.hash;
+  if (!supportsBeneficiary(validator)) {
+    throw new Error(`Escrow contract ${validator.title} can only unlock existing escrows; set ESCROW_CONTRACTS to lock new ones`);
+  }
+  if (entries.some(entry => entry.threshold) && !supportsApprovals(validator)) {
+    throw new Error(`Escrow contract ${validator.title} doesn't support multi-signature escrows`);
+  }
+  if (entries.some(entry => entry.arbiterAddress) && !supportsArbiter(validator)) {
+    throw new Error(`Escrow contract ${validator.title} doesn't support arbiters`);
+  }
+  if (entries.some(entry => entry.milestones?.length) && !supportsMilestones(validator)) {
+    throw new Error(`Escrow contract ${validator.title} doesn't support milestones`);
+  }
+  if (entries.some(entry => entry.vesting) && !supportsVesting(validator)) {
+    throw new Error(`Escrow contract ${validator.title} doesn't support vesting`);
+  }
+
+  // Derive payment key hashes of all parties for the datums, once per address
+  const keyHashes = new Map<string, string>();
+  const addresses = [
+    changeAddress,
+    ...entries.flatMap(e => [e.beneficiaryAddress, ...(e.signers ?? []), ...(e.arbiterAddress ? [e.arbiterAddress] : [])]),
+  ];
+  for (const address of addresses) {
+    if (!keyHashes.has(address)) {
+      keyHashes.set(address, await getAddressKeyHash(address));
+    }
+  }
+  const depositorKeyHash = keyHashes.get(changeAddress)!;
+
+  const toDatum = (entry: LockEntry): EscrowDatum => ({
+    depositor: depositorKeyHash,
+    beneficiary: keyHashes.get(entry.beneficiaryAddress)!,
+    deadline: entry.deadline,
+    refundAfter: entry.refundAfter,
+    signers: (entry.signers ?? []).map(address => keyHashes.get(address)!),
+    threshold: entry.threshold ?? null,
+    arbiter: entry.arbiterAddress ? keyHashes.get(entry.arbiterAddress)! : null,
+    milestones: entry.milestones ?? [],
+    vesting: entry.vesting ?? null,
+  });
+
+  // Get script address
+  const scriptAddress = await getScriptAddress(validatorHash);
+
+  // Prepare the transaction input
+  const input: BuildTxRequest = {
+    changeAddress,
+    message,
+    outputs: entries.map(entry =>
+      toEscrowOutput(scriptAddress, validator, entry.lovelaceAmount, entry.assets ?? [], toDatum(entry))
+    ),
+    // The lock must land on-chain before the earliest release deadline
+    validityInterval: {
+      end: Math.min(...entries.map(e => e.deadline)),
     },
-    'get address key hash'
-  );
-  return data.payment;
+  };
+
+  const result = await getChainBackend().buildTransaction(input);
+
+  // The wallet's change output may come first, so locate the escrow outputs
+  // Script outputs keep the relative order in which they were requested
+  const outputIndexes = findScriptOutputIndexes(result.complete, validatorHash);
+  if (outputIndexes.length !== entries.length) {
+    throw new Error(
+      `Built transaction has ${outputIndexes.length} script outputs, expected ${entries.length}`
+    );
+  }
+
+  return { hash: result.hash, complete: result.complete, outputIndexes, validatorHash };
 }
 
 /**
  * Lock funds in the escrow smart contract
- * This creates a transaction that sends ADA to the script address with the specified datum
+ * This creates a transaction that sends ADA (and any native tokens) to the script address with a datum
+ * naming the depositor, the beneficiary and the claim/refund deadlines
  */
 export async function lockFunds(params: LockFundsParams): Promise<LockFundsResponse> {
   try {
-    // Derive owner payment key hash for datum
-    const paymentKeyHash = await getAddressKeyHash(params.changeAddress);
-    
-    // Get the validator hash from environment
-    const validatorHash = process.env.ESCROW_VALIDATOR_HASH;
-    if (!validatorHash) {
-      throw new Error('Escrow validator hash not found');
-    }
-    
-    // Get script address
-    const scriptAddress = await getScriptAddress(validatorHash);
-    
-    // Prepare the transaction input
-    const input = {
-      changeAddress: params.changeAddress,
-      message: params.message || "Locking funds in escrow using Anvil API",
-      outputs: [
-        {
-          address: scriptAddress,
-          lovelace: params.lovelaceAmount,
-          datum: {
-            type: "inline",
-            value: {
-              owner: paymentKeyHash
-            },
-            shape: {
-              validatorHash: validatorHash,
-              purpose: "spend"
-            }
-          }
-        }
-      ],
+    const entry: LockEntry = {
+      beneficiaryAddress: params.beneficiaryAddress,
+      lovelaceAmount: params.lovelaceAmount,
+      assets: params.assets,
+      deadline: params.deadline,
+      refundAfter: params.refundAfter,
+      signers: params.signers,
+      threshold: params.threshold,
+      arbiterAddress: params.arbiterAddress,
+      milestones: params.milestones,
+      vesting: params.vesting,
     };
-
-    // Build the transaction using our generic fetch utility
-    const result = await fetchApi<{ hash: string, complete: string }>(
-      `/transactions/build`,
-      {
-        method: 'POST',
-        headers: getHeaders(),
-        body: JSON.stringify(input),
-      },
-      'build lock transaction'
+    const result = await buildLockTransaction(
+      params.changeAddress,
+      [entry],
+      params.message || "Locking funds in escrow using Anvil API"
     );
     
     // Return hash and complete transaction for client-side signing and DB recording
     return {
       txHash: result.hash,
       complete: result.complete,
+      outputIndex: result.outputIndexes[0],
+      validatorHash: result.validatorHash,
     };
   } catch (error: unknown) {
     return { error: handleApiError('lock funds', error) };
   }
 }
 
+/**
+ * Lock funds for several escrows in a single transaction
+ * Each entry becomes its own script output, so the fee is paid once
+ */
+export async function lockFundsBatch(params: LockFundsBatchParams): Promise<LockFundsBatchResponse> {
+  try {
+    if (params.entries.length === 0) {
+      throw new Error('No escrow entries provided');
+    }
+
+    const result = await buildLockTransaction(
+      params.changeAddress,
+      params.entries,
+      params.message || `Locking ${params.entries.length} escrows using Anvil API`
+    );
+
+    return {
+      txHash: result.hash,
+      complete: result.complete,
+      outputIndexes: result.outputIndexes,
+      validatorHash: result.validatorHash,
+    };
+  } catch (error: unknown) {
+    return { error: handleApiError('lock funds batch', error) };
+  }
+}
+
+// Protocol limit on serialized transaction size, in bytes
+const MAX_TX_SIZE = 16384;
+
+// Redeemer for spending an escrow by the given path; the arbiter's also carries the beneficiary's share
+function getRedeemer(validator: EscrowValidator, action: EscrowAction, payout?: DisputePayout) {
+  if (action === 'release' || action === 'vest') {
+    const redeemer = validator.redeemers[action];
+    if (!redeemer) {
+      throw new Error(`Escrow contract ${validator.title} doesn't support ${action === 'release' ? 'milestones' : 'vesting'}`);
+    }
+    return redeemer;
+  }
+  if (action !== 'resolve') {
+    return validator.redeemers[action];
+  }
+  if (!validator.redeemers.resolve || !payout) {
+    throw new Error(`Escrow contract ${validator.title} doesn't support dispute resolution`);
+  }
+  return { ...validator.redeemers.resolve, beneficiaryAmount: payout.beneficiaryAmount };
+}
+
+// Outputs paying each party its share of a resolved dispute
+function getPayoutOutputs(payout: DisputePayout): TxOutputRequest[] {
+  const shares = [
+    { party: 'beneficiary' as const, address: payout.beneficiaryAddress, lovelace: payout.beneficiaryAmount },
+    { party: 'depositor' as const, address: payout.depositorAddress, lovelace: payout.depositorAmount },
+  ];
+  return shares
+    .filter(share => share.lovelace > 0)
+    .map(share => ({
+      address: share.address,
+      lovelace: share.lovelace,
+      ...(share.party === payout.assetsTo && payout.assets.length > 0 && {
+        assets: toOutputAssets(payout.assets),
+      }),
+    }));
+}
+
+// Outputs paying part of an escrow to the beneficiary and returning the rest to the escrow's script
+async function getReleaseOutputs(validatorHash: string, release: PartialRelease): Promise<TxOutputRequest[]> {
+  const outputs: TxOutputRequest[] = [{
+    address: release.beneficiaryAddress,
+    lovelace: release.amount,
+    ...(release.assets.length > 0 && { assets: toOutputAssets(release.assets) }),
+  }];
+  if (release.remaining) {
+    const { lovelace, assets, datum } = release.remaining;
+    const validator = getValidator(validatorHash);
+    outputs.push(toEscrowOutput(await getScriptAddress(validator.hash), validator, lovelace, assets, datum));
+  }
+  return outputs;
+}
+
+// Build one transaction spending the given escrow UTxOs
+async function buildUnlockTransaction(
+  changeAddress: string,
+  outputRefs: EscrowOutputRef[],
+  validFrom: number | undefined,
+  message: string,
+  { approvers = [], payout, release }: Pick<UnlockFundsParams, 'approvers' | 'payout' | 'release'> = {}
+): Promise<string> {
+  // Derive owner payment key hash for requiredSigners
+  const signerKeyHash = await getAddressKeyHash(changeAddress);
+
+  const input: BuildTxRequest = {
+    changeAddress,
+    message,
+    // Each escrow is spent with the script and redeemer of the contract version it was locked to
+    scriptInteractions: outputRefs.map(outputRef => {
+      if (!outputRef.validatorHash) {
+        throw new Error(`Escrow ${outputRef.txHash}#${outputRef.outputIndex} has no recorded validator`);
+      }
+      const validator = getValidator(outputRef.validatorHash);
+      return {
+        hash: validator.hash,
+        purpose: 'spend',
+        outputRef: {
+          txHash: outputRef.txHash,
+          index: outputRef.outputIndex,
+        },
+        redeemer: {
+          type: "json",
+          value: getRedeemer(validator, outputRef.action, payout),
+        },
+      };
+    }),
+    // The arbiter's resolution pays each party its share and a partial release pays the beneficiary
+    // and keeps the rest locked; otherwise everything goes to the change address
+    ...(payout && { outputs: getPayoutOutputs(payout) }),
+    ...(release && { outputs: await getReleaseOutputs(outputRefs[0].validatorHash!, release) }),
+    // Multi-signature escrows also need their approvers' signatures
+    requiredSigners: [...new Set([signerKeyHash, ...approvers])],
+    // The validator checks the tx is only valid after the deadline for its path
+    ...(validFrom != null && {
+      validityInterval: { start: validFrom },
+    }),
+  };
+
+  const result = await getChainBackend().buildTransaction(input);
+
+  // Signatures add a little more, so fail early rather than at submit
+  if (result.complete.length / 2 > MAX_TX_SIZE) {
+    throw new Error(`Transaction exceeds the ${MAX_TX_SIZE} byte size limit; unlock fewer escrows at once`);
+  }
+
+  return result.complete;
+}
+
 /**
  * Unlock funds from the escrow smart contract
  * This creates a transaction that spends the UTXO with the specified redeemer
@@ -163,71 +458,62 @@ export async function unlockFunds(
   params: UnlockFundsParams
 ): Promise<UnlockFundsResponse> {
   try {
-    // Get the validator hash from environment
-    const validatorHash = process.env.ESCROW_VALIDATOR_HASH;
-    if (!validatorHash) {
-      throw new Error('Escrow validator hash not found');
+    const complete = await buildUnlockTransaction(
+      params.changeAddress,
+      [{
+        txHash: params.txHash,
+        outputIndex: params.outputIndex,
+        validatorHash: params.validatorHash,
+        action: params.action,
+      }],
+      params.validFrom,
+      params.unlockReason || 'Unlocking funds using Anvil API',
+      { approvers: params.approvers, payout: params.payout, release: params.release }
+    );
+
+    // The built tx may order the continuing escrow output after the beneficiary's and the change
+    if (params.release?.remaining) {
+      const [continuingOutputIndex] = findScriptOutputIndexes(complete, params.validatorHash!);
+      if (continuingOutputIndex === undefined) {
+        throw new Error('Built transaction has no continuing escrow output');
+      }
+      return { complete, continuingOutputIndex };
     }
+    return { complete };
+  } catch (error: unknown) {
+    return { error: handleApiError('unlock funds', error) };
+  }
+}
 
-    // Derive owner payment key hash for requiredSigners
-    const signerKeyHash = await getAddressKeyHash(params.changeAddress);
-
-    const input = {
-      changeAddress: params.changeAddress,
-      message: params.unlockReason || 'Unlocking funds using Anvil API',
-      scriptInteractions: [
-        {
-          hash: validatorHash,
-          purpose: 'spend',
-          outputRef: {
-            txHash: params.txHash,
-            index: 0,
-          },
-          redeemer: {
-            type: "json",
-            value: {
-              msg: Buffer.from("Hello, World!", "utf8").toString("hex"),
-            },
-          },
-        },
-      ],
-      requiredSigners: [signerKeyHash],
-    };
+/**
+ * Unlock several escrow UTxOs in a single transaction
+ * One script interaction per UTxO, all signed by the same wallet
+ */
+export async function unlockFundsBatch(
+  params: UnlockFundsBatchParams
+): Promise<UnlockFundsResponse> {
+  try {
+    if (params.outputRefs.length === 0) {
+      throw new Error('No escrows provided');
+    }
 
-    // Build the transaction using our generic fetch utility
-    const result = await fetchApi<{ complete: string }>(
-      `/transactions/build`,
-      {
-        method: 'POST',
-        headers: getHeaders(),
-        body: JSON.stringify(input),
-      },
-      'build unlock transaction'
+    const complete = await buildUnlockTransaction(
+      params.changeAddress,
+      params.outputRefs,
+      params.validFrom,
+      params.unlockReason || `Unlocking ${params.outputRefs.length} escrows using Anvil API`
     );
-    
-    return { complete: result.complete };
+
+    return { complete };
   } catch (error: unknown) {
-    return { error: handleApiError('unlock funds', error) };
+    return { error: handleApiError('unlock funds batch', error) };
   }
 }
 
 /**
  * Submit a signed transaction to the blockchain
+ * @param signatures - Witness sets of every wallet that signed, e.g. each approver of a multi-signature unlock
  */
-export async function submitTransaction(signedTx: string, complete: string): Promise<{ txHash: string }> {
-  // Use our generic fetch utility with proper error handling
-  const result = await fetchApi<{ txHash: string }>(
-    `/transactions/submit`,
-    {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify({
-        signatures: [signedTx],
-        transaction: complete,
-      }),
-    },
-    'submit transaction'
-  );
-  
-  return { txHash: result.txHash };
+export async function submitTransaction(signatures: string[], complete: string): Promise<{ txHash: string }> {
+  return getChainBackend().submitTransaction(signatures, complete);
 }
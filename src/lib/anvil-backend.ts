@@ -0,0 +1,137 @@
+import { BuildTxRequest, BuiltTx, ChainBackend } from './chain-backend';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  DEFAULT_RETRY_POLICY,
+  resilientFetch,
+  RetryMode,
+  RetryPolicy,
+} from './resilient-fetch';
+import { getTxHash } from './tx-parser';
+
+// How long a successful submit is remembered, so a repeated submit of the same tx isn't sent again
+const SUBMITTED_TX_TTL_MS = 10 * 60 * 1000;
+
+export interface AnvilBackendOptions {
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+/**
+ * Chain backend backed by the Anvil API
+ * Reads and builds are retried on timeouts and server errors; submits only when the request
+ * certainly never reached Anvil, and concurrent or repeated submits of one tx share a single call
+ */
+export class AnvilBackend implements ChainBackend {
+  readonly id: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly breaker: CircuitBreaker;
+  // Submits by tx hash, in flight or recently succeeded
+  private readonly submits = new Map<string, { result: Promise<{ txHash: string }>; expiresAt: number }>();
+
+  constructor(private readonly endpoint: string, private readonly apiKey: string, options: AnvilBackendOptions = {}) {
+    this.id = `anvil:${endpoint}`;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.breaker = new CircuitBreaker('Anvil API', { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options.circuitBreaker });
+  }
+
+  private getHeaders() {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+    };
+  }
+
+  // Generic API fetch with error handling
+  private async fetchApi<T>(endpoint: string, options: RequestInit, context: string, mode: RetryMode): Promise<T> {
+    try {
+      const response = await resilientFetch(
+        `${this.endpoint}${endpoint}`,
+        { ...options, headers: this.getHeaders() },
+        { context: `Anvil ${context}`, mode, policy: this.retryPolicy, breaker: this.breaker }
+      );
+
+      if (!response.ok) {
+        const errText = await response.text();
+        console.error(`${context} error:`, response.status, response.statusText, errText);
+        throw new Error(`${response.status} ${response.statusText} - ${errText}`);
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      console.error(`Error ${context}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to ${context}: ${message}`);
+    }
+  }
+
+  async getScriptAddress(validatorHash: string): Promise<string> {
+    const data = await this.fetchApi<{ hex: string }>(
+      `/validators/${validatorHash}/address`,
+      { method: 'GET' },
+      'get script address',
+      'idempotent'
+    );
+    return data.hex;
+  }
+
+  async getAddressKeyHash(address: string): Promise<string> {
+    const data = await this.fetchApi<{ payment: string }>(
+      `/utils/addresses/parse`,
+      { method: 'POST', body: JSON.stringify({ address }) },
+      'get address key hash',
+      'idempotent'
+    );
+    return data.payment;
+  }
+
+  // Building only selects UTxOs and balances, nothing is spent, so it's safe to repeat
+  async buildTransaction(request: BuildTxRequest): Promise<BuiltTx> {
+    return this.fetchApi<BuiltTx>(
+      `/transactions/build`,
+      { method: 'POST', body: JSON.stringify(request) },
+      'build transaction',
+      'idempotent'
+    );
+  }
+
+  async submitTransaction(signatures: string[], complete: string): Promise<{ txHash: string }> {
+    const txHash = getTxHash(complete);
+    const now = Date.now();
+    for (const [hash, submit] of this.submits) {
+      if (submit.expiresAt <= now) this.submits.delete(hash);
+    }
+
+    const existing = this.submits.get(txHash);
+    if (existing) {
+      console.info(`Anvil submit transaction: ${txHash} already submitted, reusing the result`);
+      return existing.result;
+    }
+
+    // Failed submits are forgotten so the wallet can try again
+    const result = this.sendTransaction(signatures, complete);
+    this.submits.set(txHash, { result, expiresAt: Infinity });
+    result.then(
+      () => this.submits.set(txHash, { result, expiresAt: Date.now() + SUBMITTED_TX_TTL_MS }),
+      () => this.submits.delete(txHash)
+    );
+    return result;
+  }
+
+  private async sendTransaction(signatures: string[], complete: string): Promise<{ txHash: string }> {
+    const result = await this.fetchApi<{ txHash: string }>(
+      `/transactions/submit`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          signatures,
+          transaction: complete,
+        }),
+      },
+      'submit transaction',
+      'unsent'
+    );
+    return { txHash: result.txHash };
+  }
+}
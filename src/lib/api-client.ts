@@ -0,0 +1,64 @@
+import { API_ERROR_CODE, ApiErrorBody, ApiErrorCode } from './api-errors';
+
+// What to tell the user for each error code; codes not listed show the server's message
+const ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  [API_ERROR_CODE.INVALID_JSON]: 'Something went wrong sending the request. Please try again.',
+  [API_ERROR_CODE.UNAUTHENTICATED]: 'Please sign in with your wallet first.',
+  [API_ERROR_CODE.FORBIDDEN]: 'This wallet is not allowed to do that.',
+  [API_ERROR_CODE.NOT_FOUND]: 'That escrow could not be found.',
+  [API_ERROR_CODE.ALREADY_SPENT]: 'That escrow has already been claimed or refunded.',
+  [API_ERROR_CODE.INVALID_TRANSITION]: 'That escrow changed status in the meantime. Refresh and try again.',
+  [API_ERROR_CODE.BUILD_FAILED]: 'The transaction could not be built. Check your wallet balance and try again.',
+  [API_ERROR_CODE.SUBMIT_FAILED]: 'The network rejected the transaction. Please try again.',
+  [API_ERROR_CODE.NOT_CONFIGURED]: 'The escrow service is not configured. Please contact the operator.',
+  [API_ERROR_CODE.INTERNAL]: 'Something went wrong on our side. Please try again.',
+};
+
+// Error thrown by the client helpers, keeping the code for callers that branch on it
+export class ApiRequestError extends Error {
+  constructor(public readonly code: ApiErrorCode | null, message: string, public readonly detail?: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+function isApiErrorBody(body: unknown): body is ApiErrorBody {
+  const error = (body as ApiErrorBody | null)?.error;
+  return typeof error === 'object' && error !== null && typeof error.code === 'string';
+}
+
+/**
+ * User-facing message for an error response
+ * Validation failures list the offending fields, since the user can fix those
+ */
+export function describeApiError(body: ApiErrorBody): string {
+  const { code, message, issues } = body.error;
+  if (code === API_ERROR_CODE.VALIDATION_FAILED) {
+    const details = issues?.map(issue => `${issue.path} ${issue.message}`).join('; ');
+    return `Please check your input: ${details || message}`;
+  }
+  return ERROR_MESSAGES[code] ?? message;
+}
+
+/**
+ * Read a JSON API response
+ * @throws ApiRequestError with a user-facing message when the response is an error
+ */
+export async function readApiResponse<T>(response: Response): Promise<T> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new ApiRequestError(null, `Unexpected response from the server (${response.status})`);
+  }
+
+  if (isApiErrorBody(body)) {
+    // Keep the server's wording in the console for debugging
+    console.debug(`API error ${body.error.code}:`, body.error.message);
+    throw new ApiRequestError(body.error.code, describeApiError(body), body.error.message);
+  }
+  if (!response.ok) {
+    throw new ApiRequestError(null, `Request failed (${response.status})`);
+  }
+  return body as T;
+}
@@ -0,0 +1,40 @@
+import { SchemaIssue } from './schema';
+
+// Machine-readable error codes returned by the API routes
+export const API_ERROR_CODE = {
+  INVALID_JSON: 'invalid_json' as const,              // Body isn't valid JSON
+  VALIDATION_FAILED: 'validation_failed' as const,    // Body or query failed its schema; see issues
+  UNAUTHENTICATED: 'unauthenticated' as const,        // No session, or the sign-in signature didn't verify
+  FORBIDDEN: 'forbidden' as const,                    // Signed in, but not allowed to act on this escrow
+  NOT_FOUND: 'not_found' as const,
+  ALREADY_SPENT: 'already_spent' as const,            // Escrow UTxO was consumed on-chain
+  INVALID_TRANSITION: 'invalid_transition' as const,  // Escrow isn't in a status that allows this
+  BUILD_FAILED: 'build_failed' as const,              // Chain backend couldn't build the transaction
+  SUBMIT_FAILED: 'submit_failed' as const,            // Chain backend rejected the signed transaction
+  NOT_CONFIGURED: 'not_configured' as const,          // Server is missing required environment variables
+  INTERNAL: 'internal_error' as const,
+} as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODE[keyof typeof API_ERROR_CODE];
+
+// Body of every error response
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    issues?: SchemaIssue[];  // Field level problems for validation_failed
+  };
+}
+
+// Error a route can throw to answer with a specific code and HTTP status
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly status: number,
+    public readonly issues?: SchemaIssue[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { API_ERROR_CODE, ApiError, ApiErrorBody } from './api-errors';
+import { InvalidTransitionError } from './db';
+import { Schema, SchemaError } from './schema';
+
+/**
+ * Parse a JSON request body against a schema
+ * @throws ApiError with invalid_json or validation_failed
+ */
+export async function parseJsonBody<T>(request: Request, schema: Schema<T>): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(API_ERROR_CODE.INVALID_JSON, 'Request body must be valid JSON', 400);
+  }
+  return parseInput(body, schema);
+}
+
+/**
+ * Validate already decoded input, such as query parameters
+ * @throws ApiError with validation_failed and the field issues
+ */
+export function parseInput<T>(input: unknown, schema: Schema<T>): T {
+  try {
+    return schema.parse(input);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, error.message, 400, error.issues);
+  }
+}
+
+/**
+ * Turn anything a route throws into the error envelope
+ * Unexpected errors are logged and answered with internal_error
+ * @param context - What the route was doing, for the log, e.g. 'locking funds'
+ */
+export function errorResponse(error: unknown, context: string): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: { code: error.code, message: error.message, ...(error.issues && { issues: error.issues }) } },
+      { status: error.status }
+    );
+  }
+  if (error instanceof InvalidTransitionError) {
+    return NextResponse.json(
+      { error: { code: API_ERROR_CODE.INVALID_TRANSITION, message: error.message } },
+      { status: 409 }
+    );
+  }
+
+  console.error(`Error ${context}:`, error);
+  const message = error instanceof Error ? error.message : String(error);
+  return NextResponse.json(
+    { error: { code: API_ERROR_CODE.INTERNAL, message: message || `Failed ${context}` } },
+    { status: 500 }
+  );
+}
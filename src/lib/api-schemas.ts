@@ -0,0 +1,369 @@
+import { decodeBech32 } from './bech32';
+import {
+  getMinEscrowLovelace,
+  getMinLockLovelace,
+  MAX_BATCH_LOCK_ENTRIES,
+  MAX_BATCH_UNLOCK_ENTRIES,
+  MAX_DISPUTE_EVIDENCE,
+  MAX_ESCROW_MILESTONES,
+  MAX_ESCROW_SIGNERS,
+  MIN_PAYOUT_LOVELACE,
+  VESTING_MONTH_MS,
+} from './escrow';
+import {
+  array,
+  Infer,
+  integer,
+  invalid,
+  literal,
+  object,
+  optional,
+  refine,
+  Schema,
+  SchemaIssue,
+  string,
+  withDefault,
+} from './schema';
+import { getAddressPaymentCredential, getPaymentCredential } from './tx-parser';
+import { Transaction, TX_STATUS } from './types';
+
+// Request and response shapes of the API routes, shared by the routes and the client hooks
+
+// Field schemas
+
+function hex(options: { bytes?: number; maxBytes?: number; allowEmpty?: boolean } = {}): Schema<string> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'string' || (!options.allowEmpty && value.length === 0)) {
+        return invalid(path, 'is required');
+      }
+      if (value.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(value)) {
+        return invalid(path, 'must be hex encoded bytes');
+      }
+      const length = value.length / 2;
+      if (options.bytes != null && length !== options.bytes) {
+        return invalid(path, `must be ${options.bytes} bytes`);
+      }
+      if (options.maxBytes != null && length > options.maxBytes) {
+        return invalid(path, `must be at most ${options.maxBytes} bytes`);
+      }
+      return value.toLowerCase();
+    },
+  };
+}
+
+// Bech32 Shelley address whose payment part is a key, i.e. an address a wallet can sign for
+export const walletAddress: Schema<string> = {
+  parse(value, path = '') {
+    if (typeof value !== 'string' || value.length === 0) {
+      return invalid(path, 'is required');
+    }
+
+    let decoded: ReturnType<typeof decodeBech32>;
+    try {
+      decoded = decodeBech32(value);
+    } catch {
+      return invalid(path, 'must be a bech32 address');
+    }
+    if (decoded.prefix !== 'addr' && decoded.prefix !== 'addr_test') {
+      return invalid(path, 'must be a Cardano address (addr or addr_test)');
+    }
+    // The header's network ID must agree with the prefix
+    const networkId = decoded.bytes[0] & 0x0f;
+    if ((decoded.prefix === 'addr') !== (networkId === 1)) {
+      return invalid(path, 'has a network ID that does not match its prefix');
+    }
+    if (getPaymentCredential(decoded.bytes)?.type !== 'key') {
+      return invalid(path, 'must have a payment key, not a script');
+    }
+    return value;
+  },
+};
+
+export const escrowId = string({
+  pattern: /^[0-9a-f]{64}#\d{1,5}$/,
+  description: 'an escrow id of the form <txHash>#<outputIndex>',
+});
+
+// Whole lovelace, at most the safe integer limit (the ADA supply itself is larger)
+export const lovelace = integer({ min: 1 });
+
+export const timestamp = integer({ min: 0 });
+
+export const escrowAsset = object({
+  policyId: hex({ bytes: 28 }),
+  assetName: hex({ maxBytes: 32, allowEmpty: true }),
+  quantity: integer({ min: 1 }),
+});
+
+// Request schemas
+
+// Approver wallets of a multi-signature escrow
+const approvers = array(walletAddress, { min: 1, max: MAX_ESCROW_SIGNERS });
+
+// Lovelace paid out per stage of a milestone escrow; each is a separate output to the beneficiary
+const milestones = array(integer({ min: MIN_PAYOUT_LOVELACE }), { min: 2, max: MAX_ESCROW_MILESTONES });
+
+// Schedule the beneficiary claims a vesting escrow on
+const vestingSchedule = object({
+  kind: literal('linear', 'monthly'),
+  total: lovelace,
+  start: timestamp,
+  cliff: timestamp,
+  end: timestamp,
+});
+
+const lockEntryShape = {
+  beneficiaryAddress: walletAddress,
+  amount: lovelace,
+  assets: withDefault(array(escrowAsset), []),
+  deadline: timestamp,
+  refundAfter: timestamp,
+  signers: optional(approvers),
+  threshold: optional(integer({ min: 1, max: MAX_ESCROW_SIGNERS })),
+  arbiterAddress: optional(walletAddress),
+  milestones: optional(milestones),
+  vesting: optional(vestingSchedule),
+};
+
+const lockEntryFields = object(lockEntryShape);
+
+// Payment key hashes of the listed wallets, or null when two share a key
+function distinctKeyHashes(addresses: string[]): string[] | null {
+  const keyHashes = addresses.map(address => getAddressPaymentCredential(address)!.hash);
+  return new Set(keyHashes).size === keyHashes.length ? keyHashes : null;
+}
+
+// Deadlines must open in the future in order, approvals must be satisfiable, the arbiter
+// must be a third party, milestones must add up, vesting must cover the amount up to the deadline,
+// and the output must carry the ledger minimum
+function checkLockEntry(entry: Infer<typeof lockEntryFields>): SchemaIssue | null {
+  if (entry.deadline <= Date.now()) {
+    return { path: 'deadline', message: 'must be in the future' };
+  }
+  if (entry.refundAfter <= entry.deadline) {
+    return { path: 'refundAfter', message: 'must be after deadline' };
+  }
+  if ((entry.signers == null) !== (entry.threshold == null)) {
+    return { path: entry.signers ? 'threshold' : 'signers', message: 'is required for multi-signature escrows' };
+  }
+  if (entry.signers && !distinctKeyHashes(entry.signers)) {
+    return { path: 'signers', message: 'must not list the same wallet twice' };
+  }
+  if (entry.signers && entry.threshold! > entry.signers.length) {
+    return { path: 'threshold', message: 'must not exceed the number of signers' };
+  }
+  if (entry.arbiterAddress && !distinctKeyHashes([entry.arbiterAddress, entry.beneficiaryAddress])) {
+    return { path: 'arbiterAddress', message: 'must not be the beneficiary' };
+  }
+  if (entry.milestones && entry.milestones.reduce((sum, amount) => sum + amount, 0) !== entry.amount) {
+    return { path: 'milestones', message: 'must add up to amount' };
+  }
+  if (entry.vesting) {
+    const issue = checkVestingSchedule(entry.vesting, entry);
+    if (issue) return { ...issue, path: `vesting.${issue.path}` };
+  }
+  const minLovelace = getMinLockLovelace(entry, entry.assets);
+  if (entry.amount < minLovelace) {
+    return { path: 'amount', message: `must be at least ${minLovelace} lovelace (the minimum UTxO value)` };
+  }
+  // The last stage is all that is left locked before it is released
+  const lastMilestone = entry.milestones?.[entry.milestones.length - 1];
+  const extraKeyHashes = (entry.signers?.length ?? 0) + (entry.arbiterAddress ? 1 : 0);
+  const minRemaining = getMinEscrowLovelace(entry.assets, extraKeyHashes, 1);
+  if (lastMilestone != null && lastMilestone < minRemaining) {
+    return {
+      path: `milestones.${entry.milestones!.length - 1}`,
+      message: `must be at least ${minRemaining} lovelace (the minimum UTxO value of the escrow it is left in)`,
+    };
+  }
+  return null;
+}
+
+// The schedule vests the whole amount by the deadline, after which the beneficiary can claim
+// the rest the usual way; monthly schedules move in whole steps
+function checkVestingSchedule(
+  vesting: Infer<typeof vestingSchedule>,
+  entry: Infer<typeof lockEntryFields>
+): SchemaIssue | null {
+  if (entry.milestones) {
+    return { path: 'kind', message: 'cannot be combined with milestones' };
+  }
+  if (vesting.total !== entry.amount) {
+    return { path: 'total', message: 'must equal amount' };
+  }
+  if (vesting.end !== entry.deadline) {
+    return { path: 'end', message: 'must equal deadline' };
+  }
+  if (vesting.start >= vesting.end) {
+    return { path: 'start', message: 'must be before end' };
+  }
+  if (vesting.cliff < vesting.start || vesting.cliff >= vesting.end) {
+    return { path: 'cliff', message: 'must be from start to before end' };
+  }
+  if (vesting.kind === 'monthly') {
+    if ((vesting.end - vesting.start) % VESTING_MONTH_MS !== 0) {
+      return { path: 'end', message: 'must be a whole number of months after start' };
+    }
+    if ((vesting.cliff - vesting.start) % VESTING_MONTH_MS !== 0) {
+      return { path: 'cliff', message: 'must be a whole number of months after start' };
+    }
+  }
+  return null;
+}
+
+const message = optional(string({ maxLength: 256 }));
+
+export const lockRequestSchema = refine(object({ ...lockEntryShape, message }), checkLockEntry);
+export type LockRequest = Infer<typeof lockRequestSchema>;
+
+export const lockEntrySchema = refine(lockEntryFields, checkLockEntry);
+export type LockEntryRequest = Infer<typeof lockEntrySchema>;
+
+export const batchLockRequestSchema = object({
+  entries: array(lockEntrySchema, { min: 1, max: MAX_BATCH_LOCK_ENTRIES }),
+  message,
+});
+export type BatchLockRequest = Infer<typeof batchLockRequestSchema>;
+
+// Key hashes of the signers chosen to approve an unlock, as listed on the escrow
+const unlockApprovers = array(hex({ bytes: 28 }), { min: 1, max: MAX_ESCROW_SIGNERS });
+
+// Multi-signature escrows name the threshold of their signers who will approve
+export const unlockRequestSchema = object({ escrowId, approvers: optional(unlockApprovers) });
+export type UnlockRequest = Infer<typeof unlockRequestSchema>;
+
+// The claim defaults to everything that can be claimed when the tx is built
+export const vestRequestSchema = object({ escrowId, amount: optional(lovelace), approvers: optional(unlockApprovers) });
+export type VestRequest = Infer<typeof vestRequestSchema>;
+
+export const batchUnlockRequestSchema = object({
+  escrowIds: array(escrowId, { min: 1, max: MAX_BATCH_UNLOCK_ENTRIES }),
+});
+export type BatchUnlockRequest = Infer<typeof batchUnlockRequestSchema>;
+
+// Unlocks name the escrows they spend, either one or a batch
+export const submitRequestSchema = refine(
+  object({
+    complete: hex(),
+    signature: hex(),
+    type: literal(TX_STATUS.SIGN_LOCK, TX_STATUS.SIGN_UNLOCK),
+    originalEscrowId: optional(escrowId),
+    originalEscrowIds: optional(array(escrowId, { min: 1, max: MAX_BATCH_UNLOCK_ENTRIES })),
+  }),
+  request =>
+    request.type === TX_STATUS.SIGN_UNLOCK && !request.originalEscrowId && !request.originalEscrowIds
+      ? { path: 'originalEscrowIds', message: 'is required for unlock transactions' }
+      : null
+);
+export type SubmitRequest = Infer<typeof submitRequestSchema>;
+
+// An approver's signature of a multi-signature unlock
+export const approveRequestSchema = object({
+  txHash: hex({ bytes: 32 }),
+  signature: hex(),  // The approver's CIP-30 witness set
+});
+export type ApproveRequest = Infer<typeof approveRequestSchema>;
+
+// Either party raising a dispute, with links to anything backing it up
+export const disputeRequestSchema = object({
+  escrowId,
+  reason: string({ maxLength: 2000 }),
+  evidence: withDefault(
+    array(string({ pattern: /^https?:\/\/\S+$/, maxLength: 2048, description: 'an http(s) link' }), {
+      max: MAX_DISPUTE_EVIDENCE,
+    }),
+    []
+  ),
+});
+export type DisputeRequest = Infer<typeof disputeRequestSchema>;
+
+// The arbiter settling a dispute; a split names the lovelace paid to the beneficiary
+export const resolveRequestSchema = refine(
+  object({
+    escrowId,
+    resolution: literal('release', 'refund', 'split'),
+    beneficiaryAmount: optional(integer({ min: 1 })),
+  }),
+  request =>
+    (request.resolution === 'split') !== (request.beneficiaryAmount != null)
+      ? { path: 'beneficiaryAmount', message: 'is required for a split, and only for a split' }
+      : null
+);
+export type ResolveRequest = Infer<typeof resolveRequestSchema>;
+
+export const transactionsQuerySchema = object({ wallet: optional(walletAddress) });
+
+export const nonceRequestSchema = object({ address: walletAddress });
+export type NonceRequest = Infer<typeof nonceRequestSchema>;
+
+export const verifyRequestSchema = object({
+  nonce: hex({ bytes: 16 }),
+  signature: hex(),
+  key: hex(),
+});
+export type VerifyRequest = Infer<typeof verifyRequestSchema>;
+
+// Response shapes
+
+export interface LockResponse {
+  txHash: string;
+  complete: string;  // Unsigned tx for the wallet to sign
+  escrowId: string;
+}
+
+// Dry run of a lock, for showing its cost before the wallet prompt
+export interface LockPreviewResponse {
+  amount: number;       // Lovelace locked in the escrow
+  fee: number;          // Network fee of the built tx
+  minLovelace: number;  // Smallest amount the escrow output may hold (the min-UTxO deposit)
+  total: number;        // Lovelace leaving the wallet: amount plus fee
+}
+
+export interface BatchLockResponse {
+  txHash: string;
+  complete: string;
+  escrowIds: string[];  // In entry order
+}
+
+export interface UnlockResponse {
+  complete: string;
+}
+
+export interface SubmitResponse {
+  txHash: string;
+  awaitingApprovals?: number;  // Multi-signature unlocks: signatures still missing; submitted once 0
+}
+
+// Multi-signature unlock waiting for the signed-in wallet's approval
+export interface PendingApproval {
+  txHash: string;
+  complete: string;  // Unlock tx for the approver to sign
+  escrow: Transaction;
+  signed: number;    // Required signers who have signed so far
+  required: number;
+}
+
+export type ApprovalsResponse = PendingApproval[];
+
+export type TransactionsResponse = Transaction[];
+
+// The escrow as updated by the dispute
+export type DisputeResponse = Transaction;
+
+// Disputed escrows the signed-in wallet arbitrates
+export type DisputesResponse = Transaction[];
+
+export interface NonceResponse {
+  nonce: string;
+  message: string;  // Text for the wallet to sign
+}
+
+export interface SessionResponse {
+  address: string | null;
+}
+
+export interface VerifyResponse {
+  address: string;
+  expiresAt: number;
+}
@@ -0,0 +1,34 @@
+import { EscrowAsset } from './types';
+
+const POLICY_ID_LENGTH = 56;
+
+// CIP-67 label prefixes used by CIP-68 tokens
+const CIP68_LABELS: Record<string, string> = {
+  '000643b0': 'ref',
+  '000de140': 'NFT',
+  '0014df10': 'FT',
+};
+
+/**
+ * Split a Blockfrost/CIP-30 asset unit (policy ID + asset name) into its parts
+ */
+export function parseAssetUnit(unit: string): Pick<EscrowAsset, 'policyId' | 'assetName'> {
+  return {
+    policyId: unit.slice(0, POLICY_ID_LENGTH),
+    assetName: unit.slice(POLICY_ID_LENGTH),
+  };
+}
+
+/**
+ * Human readable asset name: strips CIP-68 labels and decodes printable UTF-8
+ */
+export function formatAssetName(assetName: string): string {
+  const label = CIP68_LABELS[assetName.slice(0, 8)];
+  const nameHex = label ? assetName.slice(8) : assetName;
+  // TextDecoder keeps this usable in client components without a Buffer polyfill
+  const bytes = new Uint8Array((nameHex.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+  const decoded = new TextDecoder().decode(bytes);
+  // Fall back to hex when the name isn't printable text
+  const name = /^[\x20-\x7e]+$/.test(decoded) ? decoded : nameHex || '(unnamed)';
+  return label ? `${name} (${label})` : name;
+}
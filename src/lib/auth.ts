@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { API_ERROR_CODE, ApiError } from './api-errors';
+import { blake2b } from './blake2b';
+import { decodeBech32 } from './bech32';
+import { bytesToHex, CborValue, decodeCbor, encodeCbor } from './cbor';
+import { consumeAuthNonce, deleteSession, getSessionAddress, insertAuthNonce, insertSession } from './db';
+import { getAddressPaymentCredential } from './tx-parser';
+import { verifyEd25519 } from './witness';
+
+// httpOnly cookie holding the session token
+export const SESSION_COOKIE = 'escrow_session';
+
+// Time a wallet has to sign the challenge
+const NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Lifetime of a signed-in session
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// COSE header and key labels (RFC 9052/9053) used by CIP-30 signData
+const COSE_ALG = 1;
+const COSE_ALG_EDDSA = -8;
+const COSE_KEY_X = -2;
+
+// Thrown when a sign-in attempt can't be verified
+export class AuthError extends ApiError {
+  constructor(message: string) {
+    super(API_ERROR_CODE.UNAUTHENTICATED, message, 401);
+    this.name = 'AuthError';
+  }
+}
+
+// Text the wallet signs; the nonce makes every signature single use
+function buildSignInMessage(address: string, nonce: string, issuedAt: number): string {
+  return [
+    'Sign in to Cardano Smart Escrow',
+    `Address: ${address}`,
+    `Nonce: ${nonce}`,
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a sign-in challenge for a wallet
+ * Only addresses with a key payment credential can sign, so script addresses are rejected
+ */
+export function createSignInChallenge(address: string, now: number = Date.now()): { nonce: string; message: string } {
+  if (getAddressPaymentCredential(address)?.type !== 'key') {
+    throw new AuthError('Address must have a payment key');
+  }
+  const nonce = randomBytes(16).toString('hex');
+  const message = buildSignInMessage(address, nonce, now);
+  insertAuthNonce(nonce, { address, message, expiresAt: now + NONCE_TTL_MS });
+  return { nonce, message };
+}
+
+function decodeCose(input: string | Uint8Array): CborValue {
+  try {
+    return decodeCbor(input);
+  } catch {
+    throw new AuthError('Invalid signature: malformed CBOR');
+  }
+}
+
+function asBytes(value: CborValue | undefined, field: string): Uint8Array {
+  if (!(value instanceof Uint8Array)) {
+    throw new AuthError(`Invalid signature: ${field} must be a byte string`);
+  }
+  return value;
+}
+
+function asMap(value: CborValue, field: string): Map<CborValue, CborValue> {
+  if (!(value instanceof Map)) {
+    throw new AuthError(`Invalid signature: ${field} must be a map`);
+  }
+  return value;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Verify a CIP-30 signData result over the given message
+ * The COSE_Sign1 must cover the exact message and name the address in its protected header,
+ * and the COSE_Key's Ed25519 key must hash to the address's payment key hash
+ */
+export function verifyDataSignature(signatureHex: string, keyHex: string, address: string, message: string) {
+  const sign1 = decodeCose(signatureHex);
+  const coseKey = decodeCose(keyHex);
+  if (!Array.isArray(sign1) || sign1.length !== 4) {
+    throw new AuthError('Invalid signature: expected COSE_Sign1');
+  }
+  const protectedBytes = asBytes(sign1[0], 'protected header');
+  const payload = asBytes(sign1[2], 'payload');
+  const signature = asBytes(sign1[3], 'signature');
+
+  // Some wallets sign a hash of the payload, which can't be checked against the message
+  const unprotected = asMap(sign1[1], 'unprotected header');
+  if (unprotected.get('hashed') === true) {
+    throw new AuthError('Invalid signature: hashed payloads are not supported');
+  }
+
+  const headers = asMap(decodeCose(protectedBytes), 'protected header');
+  if (headers.get(COSE_ALG) !== COSE_ALG_EDDSA) {
+    throw new AuthError('Invalid signature: expected EdDSA');
+  }
+  const signedAddress = asBytes(headers.get('address'), 'address');
+  if (!sameBytes(signedAddress, decodeBech32(address).bytes)) {
+    throw new AuthError('Signature is for a different address');
+  }
+  if (!sameBytes(payload, new TextEncoder().encode(message))) {
+    throw new AuthError('Signature is for a different message');
+  }
+
+  const publicKey = asBytes(asMap(coseKey, 'key').get(COSE_KEY_X), 'public key');
+  if (publicKey.length !== 32) {
+    throw new AuthError('Invalid signature: expected an Ed25519 public key');
+  }
+  const credential = getAddressPaymentCredential(address);
+  if (credential?.type !== 'key' || bytesToHex(blake2b(publicKey, 28)) !== credential.hash) {
+    throw new AuthError('Signing key does not match the address');
+  }
+
+  const sigStructure = encodeCbor(['Signature1', protectedBytes, new Uint8Array(0), payload]);
+  if (!verifyEd25519(publicKey, sigStructure, signature)) {
+    throw new AuthError('Invalid signature');
+  }
+}
+
+/**
+ * Exchange a signed challenge for a session
+ * @returns The session token to store in the cookie, with the wallet it belongs to
+ */
+export function createSession(
+  nonce: string,
+  signature: string,
+  key: string,
+  now: number = Date.now()
+): { token: string; address: string; expiresAt: number } {
+  const challenge = consumeAuthNonce(nonce);
+  if (!challenge || challenge.expiresAt <= now) {
+    throw new AuthError('Sign-in challenge is unknown or has expired');
+  }
+  verifyDataSignature(signature, key, challenge.address, challenge.message);
+
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = now + SESSION_TTL_MS;
+  insertSession(hashToken(token), challenge.address, expiresAt);
+  return { token, address: challenge.address, expiresAt };
+}
+
+export function endSession(token: string) {
+  deleteSession(hashToken(token));
+}
+
+/**
+ * Wallet address the request's session cookie was issued to, or null when signed out
+ */
+export function getRequestWallet(request: NextRequest): string | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getSessionAddress(hashToken(token)) : null;
+}
+
+/**
+ * Wallet address of the request's session
+ * @throws ApiError with unauthenticated when signed out
+ */
+export function requireWallet(request: NextRequest): string {
+  const wallet = getRequestWallet(request);
+  if (!wallet) {
+    throw new ApiError(API_ERROR_CODE.UNAUTHENTICATED, 'Sign in with your wallet first', 401);
+  }
+  return wallet;
+}
@@ -0,0 +1,86 @@
+import { BatchLockEntry } from './types';
+import { DEFAULT_GRACE_PERIOD_MS } from './escrow';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Editable row of the batch lock form, kept as raw input strings
+export type BatchLockRow = {
+  beneficiaryAddress: string;
+  adaAmount: string;
+  deadline: string;   // datetime-local value, in the user's time zone
+  graceDays: string;
+};
+
+export const emptyBatchRow = (): BatchLockRow => ({
+  beneficiaryAddress: '',
+  adaAmount: '',
+  deadline: '',
+  graceDays: String(DEFAULT_GRACE_PERIOD_MS / DAY_MS),
+});
+
+/**
+ * Format a Unix ms timestamp as a datetime-local input value
+ */
+export function toDatetimeLocal(ms: number): string {
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Convert a form row into a batch entry
+ * @returns The entry, or an error message describing the invalid field
+ */
+export function rowToEntry(row: BatchLockRow): BatchLockEntry | string {
+  const beneficiaryAddress = row.beneficiaryAddress.trim();
+  const adaAmount = parseFloat(row.adaAmount);
+  const deadline = new Date(row.deadline).getTime();
+  const graceDays = parseInt(row.graceDays, 10);
+
+  if (!beneficiaryAddress) return 'missing beneficiary address';
+  if (isNaN(adaAmount) || adaAmount < 1) return 'amount must be at least 1 ADA';
+  if (isNaN(deadline)) return 'missing or invalid deadline';
+  if (isNaN(graceDays) || graceDays < 1) return 'grace period must be at least 1 day';
+
+  return {
+    beneficiaryAddress,
+    adaAmount,
+    deadline,
+    refundAfter: deadline + graceDays * DAY_MS,
+  };
+}
+
+/**
+ * Parse CSV rows of `beneficiary,amountAda,deadline[,graceDays]`
+ * The deadline may be any date string Date can parse (e.g. ISO 8601)
+ * A header row is skipped when its amount column isn't a number
+ */
+export function parseBatchCsv(text: string): { rows: BatchLockRow[]; errors: string[] } {
+  const rows: BatchLockRow[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+
+    const [beneficiaryAddress = '', adaAmount = '', deadline = '', graceDays = ''] =
+      line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+    if (i === 0 && isNaN(parseFloat(adaAmount))) return;
+
+    const deadlineMs = new Date(deadline).getTime();
+    if (isNaN(deadlineMs)) {
+      errors.push(`Line ${i + 1}: invalid deadline "${deadline}"`);
+      return;
+    }
+
+    rows.push({
+      beneficiaryAddress,
+      adaAmount,
+      deadline: toDatetimeLocal(deadlineMs),
+      graceDays: graceDays || emptyBatchRow().graceDays,
+    });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,94 @@
+// Bech32 (BIP 173) encoding and decoding for Cardano addresses, which exceed the 90 character limit
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) checksum ^= GENERATOR[i];
+    }
+  }
+  return checksum;
+}
+
+function expandPrefix(prefix: string): number[] {
+  const high = Array.from(prefix, c => c.charCodeAt(0) >> 5);
+  const low = Array.from(prefix, c => c.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+// Regroup 5 bit words into bytes, rejecting non-zero padding
+function fromWords(words: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator & ((1 << bits) - 1)) !== 0) {
+    throw new Error('Invalid bech32 padding');
+  }
+  return Uint8Array.from(bytes);
+}
+
+// Split bytes into 5 bit words, zero padding the last one
+function toWords(bytes: Uint8Array): number[] {
+  const words: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    accumulator = (accumulator << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      words.push((accumulator >> bits) & 31);
+    }
+  }
+  if (bits > 0) words.push((accumulator << (5 - bits)) & 31);
+  return words;
+}
+
+/**
+ * Encode bytes as a bech32 string with the given prefix, e.g. `addr_test`
+ */
+export function encodeBech32(prefix: string, bytes: Uint8Array): string {
+  const words = toWords(bytes);
+  const checksum = polymod([...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksumWords = Array.from({ length: 6 }, (_, i) => (checksum >> (5 * (5 - i))) & 31);
+  return `${prefix}1${[...words, ...checksumWords].map(word => CHARSET[word]).join('')}`;
+}
+
+/**
+ * Decode a bech32 string such as `addr_test1...` into its prefix and payload bytes
+ * @throws When the string is malformed or its checksum doesn't match
+ */
+export function decodeBech32(input: string): { prefix: string; bytes: Uint8Array } {
+  if (input !== input.toLowerCase() && input !== input.toUpperCase()) {
+    throw new Error('Invalid bech32 string: mixed case');
+  }
+  const str = input.toLowerCase();
+  const separator = str.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > str.length) {
+    throw new Error('Invalid bech32 string: missing separator or checksum');
+  }
+
+  const prefix = str.slice(0, separator);
+  const words = Array.from(str.slice(separator + 1), c => {
+    const word = CHARSET.indexOf(c);
+    if (word === -1) throw new Error(`Invalid bech32 character "${c}"`);
+    return word;
+  });
+  if (polymod([...expandPrefix(prefix), ...words]) !== 1) {
+    throw new Error('Invalid bech32 checksum');
+  }
+  return { prefix, bytes: fromWords(words.slice(0, -6)) };
+}
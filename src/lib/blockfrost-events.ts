@@ -0,0 +1,110 @@
+import { EscrowAsset } from './types';
+import { parseAssetUnit } from './assets';
+import { decodeCbor } from './cbor';
+import { decodeEscrowDatum, EscrowDatum, getAddressPaymentCredential } from './tx-parser';
+
+type BlockfrostAmount = { unit: string; quantity: string }[];
+
+// Fields of a Blockfrost transaction webhook event used by the escrow
+export interface BlockfrostTxEvent {
+  tx: { hash: string; block_height: number; valid_contract?: boolean };
+  inputs?: {
+    address: string;
+    tx_hash?: string;
+    output_index?: number;
+    collateral?: boolean;
+    reference?: boolean;
+  }[];
+  outputs?: {
+    address: string;
+    output_index?: number;
+    amount?: BlockfrostAmount;
+    inline_datum?: string | null;
+    collateral?: boolean;
+  }[];
+}
+
+export interface OutputRef {
+  txHash: string;
+  outputIndex: number;
+}
+
+// Output paying to an escrow script
+export interface EscrowOutput {
+  outputIndex: number;
+  validatorHash: string;      // Escrow contract version the output is locked to
+  lovelace: number;
+  assets: EscrowAsset[];
+  datum: EscrowDatum | null;  // null when the inline datum is missing or not an escrow datum
+}
+
+export interface ParsedTxEvent {
+  txHash: string;
+  blockHeight: number;
+  spentInputs: OutputRef[];      // UTxOs the transaction consumed
+  escrowOutputs: EscrowOutput[]; // UTxOs it created at an escrow script address
+}
+
+function parseAmount(amount: BlockfrostAmount = []): { lovelace: number; assets: EscrowAsset[] } {
+  return {
+    lovelace: Number(amount.find(a => a.unit === 'lovelace')?.quantity ?? 0),
+    // Every other unit is a native token: policy ID followed by asset name
+    assets: amount
+      .filter(a => a.unit !== 'lovelace')
+      .map(a => ({ ...parseAssetUnit(a.unit), quantity: Number(a.quantity) })),
+  };
+}
+
+function parseDatum(inlineDatum: string | null | undefined): EscrowDatum | null {
+  if (!inlineDatum) return null;
+  try {
+    return decodeEscrowDatum(decodeCbor(inlineDatum));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reduce a Blockfrost transaction event to what it means for escrows
+ * - A failed script validation only consumes the collateral and creates no outputs
+ * - Reference inputs are read, not spent
+ * - Only outputs whose payment credential is one of the escrow scripts are kept
+ */
+export function parseTxEvent(event: BlockfrostTxEvent, scriptHashes: string[]): ParsedTxEvent {
+  const escrowScripts = new Set(scriptHashes.map(hash => hash.toLowerCase()));
+  const valid = event.tx.valid_contract !== false;
+  const inputs = (event.inputs ?? []).filter(input =>
+    !input.reference && (valid ? !input.collateral : input.collateral)
+  );
+
+  const spentInputs = inputs.flatMap(input =>
+    input.tx_hash && input.output_index != null
+      ? [{ txHash: input.tx_hash, outputIndex: Number(input.output_index) }]
+      : []
+  );
+
+  const escrowOutputs = valid
+    ? (event.outputs ?? [])
+        .map((output, i) => ({
+          output,
+          outputIndex: Number(output.output_index ?? i),
+          credential: getAddressPaymentCredential(output.address),
+        }))
+        .filter(({ output, credential }) =>
+          !output.collateral && credential?.type === 'script' && escrowScripts.has(credential.hash)
+        )
+        .map(({ output, outputIndex, credential }) => ({
+          outputIndex,
+          validatorHash: credential!.hash,
+          ...parseAmount(output.amount),
+          datum: parseDatum(output.inline_datum),
+        }))
+    : [];
+
+  return {
+    txHash: event.tx.hash,
+    blockHeight: Number(event.tx.block_height),
+    spentInputs,
+    escrowOutputs,
+  };
+}
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+
+// CIP-57 Plutus blueprint (plutus.json), reduced to what the escrow reads
+
+// Plutus data schema; `{}` stands for any data
+export type BlueprintSchema = {
+  title?: string;
+  $ref?: string;
+  dataType?: 'bytes' | 'integer' | 'list' | 'map' | 'constructor';
+  index?: number;                 // Constructor index
+  fields?: BlueprintSchema[];     // Constructor fields, in order
+  anyOf?: BlueprintSchema[];      // Alternative constructors
+};
+
+export interface BlueprintValidator {
+  title: string;  // e.g. `escrow.escrow.spend`
+  datum?: { title?: string; schema: BlueprintSchema };
+  redeemer: { title?: string; schema: BlueprintSchema };
+  compiledCode: string;
+  hash: string;
+}
+
+export interface Blueprint {
+  preamble: { title: string; version: string; plutusVersion?: string };
+  validators: BlueprintValidator[];
+  definitions?: Record<string, BlueprintSchema>;
+}
+
+// JSON value of a constructor as the Anvil API takes it: fields by title, bytes as hex
+export type PlutusRecord = Record<string, string | number>;
+
+export function readBlueprint(path: string): Blueprint {
+  const blueprint = JSON.parse(readFileSync(path, 'utf8')) as Blueprint;
+  if (!blueprint?.preamble || !Array.isArray(blueprint.validators)) {
+    throw new Error(`${path} is not a CIP-57 blueprint`);
+  }
+  return blueprint;
+}
+
+/**
+ * Follow `$ref`s into the blueprint definitions
+ * References are JSON pointers where `~1` escapes `/`, e.g. `#/definitions/escrow~1Datum`
+ */
+export function resolveSchema(blueprint: Blueprint, schema: BlueprintSchema): BlueprintSchema {
+  let resolved = schema;
+  for (let depth = 0; resolved.$ref; depth++) {
+    const name = resolved.$ref.replace(/^#\/definitions\//, '').replace(/~1/g, '/').replace(/~0/g, '~');
+    const definition = blueprint.definitions?.[name];
+    if (!definition || depth > 32) {
+      throw new Error(`Unresolvable schema reference ${resolved.$ref}`);
+    }
+    resolved = definition;
+  }
+  return resolved;
+}
+
+/**
+ * Field names of a single-constructor schema, in order
+ * @throws When the schema isn't one constructor with titled fields
+ */
+export function getConstructorFields(blueprint: Blueprint, schema: BlueprintSchema): string[] {
+  let resolved = resolveSchema(blueprint, schema);
+  if (resolved.anyOf?.length === 1) {
+    resolved = resolveSchema(blueprint, resolved.anyOf[0]);
+  }
+  if (resolved.dataType !== 'constructor' || !resolved.fields) {
+    throw new Error(`Expected a single constructor, got ${resolved.title ?? resolved.dataType ?? 'any data'}`);
+  }
+  return resolved.fields.map((field, i) => {
+    if (!field.title) {
+      throw new Error(`Constructor field ${i} has no title`);
+    }
+    return field.title;
+  });
+}
+
+/**
+ * Check a JSON value against a single-constructor schema
+ * Bytes must be hex and integers whole numbers; nested data isn't checked
+ * @throws Describing the first mismatch
+ */
+export function checkPlutusRecord(blueprint: Blueprint, schema: BlueprintSchema, value: PlutusRecord) {
+  let resolved = resolveSchema(blueprint, schema);
+  if (resolved.anyOf?.length === 1) {
+    resolved = resolveSchema(blueprint, resolved.anyOf[0]);
+  }
+  const fields = getConstructorFields(blueprint, resolved);
+
+  for (const key of Object.keys(value)) {
+    if (!fields.includes(key)) {
+      throw new Error(`Unexpected field ${key}`);
+    }
+  }
+  resolved.fields!.forEach((field, i) => {
+    const name = fields[i];
+    const fieldValue = value[name];
+    if (fieldValue === undefined) {
+      throw new Error(`Missing field ${name}`);
+    }
+    const { dataType } = resolveSchema(blueprint, field);
+    if (dataType === 'bytes' && (typeof fieldValue !== 'string' || !/^([0-9a-f]{2})*$/i.test(fieldValue))) {
+      throw new Error(`Field ${name} must be hex encoded bytes`);
+    }
+    if (dataType === 'integer' && !Number.isSafeInteger(fieldValue)) {
+      throw new Error(`Field ${name} must be an integer`);
+    }
+  });
+}
@@ -0,0 +1,292 @@
+// Minimal CBOR (RFC 8949) codec, enough to inspect Cardano transactions and datums
+
+// Tagged CBOR item, e.g. tag 121 for Plutus constructor 0 or tag 258 for sets
+export class CborTag {
+  constructor(public readonly tag: number, public readonly value: CborValue) {}
+}
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTag;
+
+interface Reader {
+  bytes: Uint8Array;
+  offset: number;
+}
+
+// Marker for the end of an indefinite length item
+const BREAK = Symbol('break');
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function readByte(reader: Reader): number {
+  if (reader.offset >= reader.bytes.length) {
+    throw new Error('Unexpected end of CBOR input');
+  }
+  return reader.bytes[reader.offset++];
+}
+
+function readSlice(reader: Reader, length: number): Uint8Array {
+  if (reader.offset + length > reader.bytes.length) {
+    throw new Error('Unexpected end of CBOR input');
+  }
+  const slice = reader.bytes.slice(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return slice;
+}
+
+// Read the argument of an initial byte; null means indefinite length
+function readArgument(reader: Reader, info: number): number | bigint | null {
+  if (info < 24) return info;
+  if (info === 31) return null;
+
+  const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+  if (!size) {
+    throw new Error(`Invalid CBOR additional info: ${info}`);
+  }
+
+  let value = BigInt(0);
+  for (const byte of readSlice(reader, size)) {
+    value = (value << BigInt(8)) | BigInt(byte);
+  }
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+function readLength(reader: Reader, info: number): number | null {
+  const length = readArgument(reader, info);
+  if (typeof length === 'bigint') {
+    throw new Error('CBOR length too large');
+  }
+  return length;
+}
+
+function readChunks(reader: Reader, major: number): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const chunk = readItem(reader);
+    if (chunk === BREAK) break;
+    if (major === 2 && chunk instanceof Uint8Array) {
+      chunks.push(chunk);
+    } else if (major === 3 && typeof chunk === 'string') {
+      chunks.push(new TextEncoder().encode(chunk));
+    } else {
+      throw new Error('Invalid chunk in indefinite length string');
+    }
+  }
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function readFloat(reader: Reader, size: number): number {
+  const view = new DataView(readSlice(reader, size).buffer);
+  if (size === 4) return view.getFloat32(0);
+  if (size === 8) return view.getFloat64(0);
+
+  // Half precision float
+  const half = view.getUint16(0);
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+  if (exponent === 31) return mantissa ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+}
+
+function readItem(reader: Reader): CborValue | typeof BREAK {
+  const initial = readByte(reader);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  switch (major) {
+    case 0: {
+      const value = readArgument(reader, info);
+      if (value === null) throw new Error('Invalid indefinite integer');
+      return value;
+    }
+    case 1: {
+      const value = readArgument(reader, info);
+      if (value === null) throw new Error('Invalid indefinite integer');
+      if (typeof value === 'bigint') return BigInt(-1) - value;
+      return -1 - value;
+    }
+    case 2:
+    case 3: {
+      const length = readLength(reader, info);
+      const bytes = length === null ? readChunks(reader, major) : readSlice(reader, length);
+      return major === 2 ? bytes : new TextDecoder().decode(bytes);
+    }
+    case 4: {
+      const length = readLength(reader, info);
+      const items: CborValue[] = [];
+      for (let i = 0; length === null || i < length; i++) {
+        const item = readItem(reader);
+        if (item === BREAK) {
+          if (length === null) break;
+          throw new Error('Unexpected CBOR break');
+        }
+        items.push(item);
+      }
+      return items;
+    }
+    case 5: {
+      const length = readLength(reader, info);
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; length === null || i < length; i++) {
+        const key = readItem(reader);
+        if (key === BREAK) {
+          if (length === null) break;
+          throw new Error('Unexpected CBOR break');
+        }
+        const value = readItem(reader);
+        if (value === BREAK) throw new Error('Unexpected CBOR break');
+        map.set(key, value);
+      }
+      return map;
+    }
+    case 6: {
+      const tag = readArgument(reader, info);
+      if (tag === null) throw new Error('Invalid indefinite tag');
+      const value = readItem(reader);
+      if (value === BREAK) throw new Error('Unexpected CBOR break');
+      return new CborTag(Number(tag), value);
+    }
+    default: {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22) return null;
+      if (info === 23) return undefined;
+      if (info === 24) return readByte(reader);
+      if (info === 25) return readFloat(reader, 2);
+      if (info === 26) return readFloat(reader, 4);
+      if (info === 27) return readFloat(reader, 8);
+      if (info === 31) return BREAK;
+      return info;
+    }
+  }
+}
+
+/**
+ * Decode a single CBOR item from hex or raw bytes
+ */
+export function decodeCbor(input: string | Uint8Array): CborValue {
+  const bytes = typeof input === 'string' ? hexToBytes(input) : input;
+  const reader: Reader = { bytes, offset: 0 };
+  const value = readItem(reader);
+  if (value === BREAK) {
+    throw new Error('Unexpected CBOR break');
+  }
+  return value;
+}
+
+/**
+ * Split a CBOR array into the exact encoded bytes of its items
+ * Hashes must cover the original bytes, which re-encoding a decoded item doesn't always reproduce
+ */
+export function readCborArrayItems(input: string | Uint8Array): Uint8Array[] {
+  const bytes = typeof input === 'string' ? hexToBytes(input) : input;
+  const reader: Reader = { bytes, offset: 0 };
+  const initial = readByte(reader);
+  if (initial >> 5 !== 4) {
+    throw new Error('Expected a CBOR array');
+  }
+  const length = readLength(reader, initial & 0x1f);
+
+  const items: Uint8Array[] = [];
+  for (let i = 0; length === null || i < length; i++) {
+    const start = reader.offset;
+    const item = readItem(reader);
+    if (item === BREAK) {
+      if (length === null) break;
+      throw new Error('Unexpected CBOR break');
+    }
+    items.push(bytes.slice(start, reader.offset));
+  }
+  return items;
+}
+
+// Initial byte and argument, using the shortest encoding
+function writeHeader(out: number[], major: number, argument: number | bigint) {
+  const value = BigInt(argument);
+  if (value < BigInt(24)) {
+    out.push((major << 5) | Number(value));
+    return;
+  }
+  const size = value < BigInt(0x100) ? 1 : value < BigInt(0x10000) ? 2 : value < BigInt(0x100000000) ? 4 : 8;
+  out.push((major << 5) | { 1: 24, 2: 25, 4: 26, 8: 27 }[size]!);
+  for (let i = size - 1; i >= 0; i--) {
+    out.push(Number((value >> BigInt(i * 8)) & BigInt(0xff)));
+  }
+}
+
+function writeItem(out: number[], value: CborValue) {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    if (typeof value === 'number' && !Number.isInteger(value)) {
+      throw new Error('Encoding CBOR floats is not supported');
+    }
+    const n = BigInt(value);
+    if (n >= BigInt(0)) writeHeader(out, 0, n);
+    else writeHeader(out, 1, BigInt(-1) - n);
+  } else if (value instanceof Uint8Array) {
+    writeHeader(out, 2, value.length);
+    out.push(...value);
+  } else if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value);
+    writeHeader(out, 3, bytes.length);
+    out.push(...bytes);
+  } else if (Array.isArray(value)) {
+    writeHeader(out, 4, value.length);
+    value.forEach(item => writeItem(out, item));
+  } else if (value instanceof Map) {
+    writeHeader(out, 5, value.size);
+    for (const [key, item] of value) {
+      writeItem(out, key);
+      writeItem(out, item);
+    }
+  } else if (value instanceof CborTag) {
+    writeHeader(out, 6, value.tag);
+    writeItem(out, value.value);
+  } else if (value === false) {
+    out.push(0xf4);
+  } else if (value === true) {
+    out.push(0xf5);
+  } else if (value === null) {
+    out.push(0xf6);
+  } else {
+    out.push(0xf7);
+  }
+}
+
+/**
+ * Encode a value as definite length CBOR
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const out: number[] = [];
+  writeItem(out, value);
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,100 @@
+import { AnvilBackend } from './anvil-backend';
+import { EmulatorBackend } from './emulator-backend';
+import { DEFAULT_CIRCUIT_BREAKER_OPTIONS, DEFAULT_RETRY_POLICY } from './resilient-fetch';
+
+// Native token in a transaction output
+export interface TxOutputAsset {
+  policyId: string;
+  assetName: { name: string; format: 'hex' };
+  quantity: number;
+}
+
+// Datum field value: hex encoded bytes, an integer, or a list of either
+export type DatumField = string | number | string[] | number[];
+
+// Output the built transaction must contain
+export interface TxOutputRequest {
+  address: string;  // Bech32 or hex encoded address
+  lovelace: number;
+  assets?: TxOutputAsset[];
+  datum?: {
+    type: 'inline';
+    value: Record<string, DatumField | undefined>;  // Fields of Plutus constructor 0, in order
+    shape: { validatorHash: string; purpose: 'spend' };
+  };
+}
+
+// Script UTxO the built transaction must spend
+export interface ScriptInteraction {
+  hash: string;  // Validator hash
+  purpose: 'spend';
+  outputRef: { txHash: string; index: number };
+  redeemer: { type: 'json'; value: Record<string, string | number> };  // Constructor fields by title
+}
+
+// Transaction build request, in the shape of the Anvil API `/transactions/build` body
+export interface BuildTxRequest {
+  changeAddress: string;
+  message?: string;
+  outputs?: TxOutputRequest[];
+  scriptInteractions?: ScriptInteraction[];
+  requiredSigners?: string[];  // Payment key hashes that must sign
+  validityInterval?: { start?: number; end?: number };  // Unix ms
+}
+
+export interface BuiltTx {
+  hash: string;
+  complete: string;  // CBOR hex of the unsigned transaction
+}
+
+/**
+ * Everything the escrow needs from the chain to build and submit transactions
+ */
+export interface ChainBackend {
+  // Identifies the chain the backend talks to, so cached lookups aren't shared across networks
+  readonly id: string;
+  // Hex encoded address of a validator
+  getScriptAddress(validatorHash: string): Promise<string>;
+  // Payment key hash of a bech32 address
+  getAddressKeyHash(address: string): Promise<string>;
+  buildTransaction(request: BuildTxRequest): Promise<BuiltTx>;
+  // Attach the witness sets, one per signing wallet, and submit
+  submitTransaction(signatures: string[], complete: string): Promise<{ txHash: string }>;
+}
+
+let backend: ChainBackend | null = null;
+
+const numberFromEnv = (value: string | undefined, fallback: number) => (value ? Number(value) : fallback);
+
+/**
+ * Chain backend selected by CHAIN_BACKEND (`anvil` or `emulator`), created on first use
+ * Throws when the selected backend isn't configured
+ */
+export function getChainBackend(): ChainBackend {
+  if (backend) return backend;
+
+  const name = process.env.CHAIN_BACKEND ?? 'anvil';
+  if (name === 'anvil') {
+    const endpoint = process.env.ANVIL_API_ENDPOINT;
+    const apiKey = process.env.ANVIL_API_KEY;
+    if (!endpoint || !apiKey) {
+      throw new Error('ANVIL_API_ENDPOINT or ANVIL_API_KEY environment variables are not set');
+    }
+    backend = new AnvilBackend(endpoint, apiKey, {
+      retry: {
+        timeoutMs: numberFromEnv(process.env.ANVIL_TIMEOUT_MS, DEFAULT_RETRY_POLICY.timeoutMs),
+        maxRetries: numberFromEnv(process.env.ANVIL_MAX_RETRIES, DEFAULT_RETRY_POLICY.maxRetries),
+        baseDelayMs: numberFromEnv(process.env.ANVIL_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_POLICY.baseDelayMs),
+      },
+      circuitBreaker: {
+        failureThreshold: numberFromEnv(process.env.ANVIL_CIRCUIT_FAILURE_THRESHOLD, DEFAULT_CIRCUIT_BREAKER_OPTIONS.failureThreshold),
+        resetTimeoutMs: numberFromEnv(process.env.ANVIL_CIRCUIT_RESET_MS, DEFAULT_CIRCUIT_BREAKER_OPTIONS.resetTimeoutMs),
+      },
+    });
+  } else if (name === 'emulator') {
+    backend = EmulatorBackend.shared();
+  } else {
+    throw new Error(`Unknown CHAIN_BACKEND: ${name}`);
+  }
+  return backend;
+}
@@ -0,0 +1,165 @@
+import { EmulatorBackend } from './emulator-backend';
+import { CircuitBreaker, DEFAULT_RETRY_POLICY, resilientFetch, RetryPolicy } from './resilient-fetch';
+import { EscrowAsset } from './types';
+
+// On-chain view of a transaction
+export interface ChainTxInfo {
+  blockTime: number;    // Unix ms of the block that includes the transaction
+  blockHeight: number;  // Height of that block
+}
+
+// Funds held at an address, summed over its UTxOs
+export interface AddressBalance {
+  lovelace: number;
+  assets: EscrowAsset[];
+}
+
+/**
+ * Read-only chain state used to reconcile stored escrows with the ledger
+ */
+export interface ChainStateProvider {
+  // The transaction's block, or null when it isn't on-chain (never submitted, dropped or rolled back)
+  getTransaction(txHash: string): Promise<ChainTxInfo | null>;
+  // Hash of the transaction that consumed an output, or null while it's unspent
+  getOutputSpender(txHash: string, outputIndex: number): Promise<string | null>;
+  // What the address holds, or null when the provider has no view of it
+  getAddressBalance(address: string): Promise<AddressBalance | null>;
+}
+
+interface BlockfrostUtxos {
+  outputs: { output_index: number; consumed_by_tx?: string | null }[];
+}
+
+interface BlockfrostAddress {
+  amount: { unit: string; quantity: string }[];  // Unit is `lovelace` or policyId + assetName
+}
+
+/**
+ * Chain state from the Blockfrost API
+ * Every lookup is a read, so timeouts and server errors are retried
+ */
+export class BlockfrostChainProvider implements ChainStateProvider {
+  private readonly breaker = new CircuitBreaker('Blockfrost API');
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly projectId: string,
+    private readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {}
+
+  private async get<T>(path: string): Promise<T | null> {
+    const response = await resilientFetch(
+      `${this.baseUrl}${path}`,
+      { headers: { project_id: this.projectId } },
+      { context: `Blockfrost ${path}`, mode: 'idempotent', policy: this.retryPolicy, breaker: this.breaker }
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Blockfrost ${path} failed: ${response.status} ${await response.text()}`);
+    }
+    return await response.json() as T;
+  }
+
+  async getTransaction(txHash: string): Promise<ChainTxInfo | null> {
+    const tx = await this.get<{ block_time: number; block_height: number }>(`/txs/${txHash}`);
+    return tx && { blockTime: tx.block_time * 1000, blockHeight: tx.block_height };
+  }
+
+  async getOutputSpender(txHash: string, outputIndex: number): Promise<string | null> {
+    const utxos = await this.get<BlockfrostUtxos>(`/txs/${txHash}/utxos`);
+    const output = utxos?.outputs.find(o => o.output_index === outputIndex);
+    return output?.consumed_by_tx ?? null;
+  }
+
+  // Blockfrost answers 404 for an address that has never been used
+  async getAddressBalance(address: string): Promise<AddressBalance> {
+    const data = await this.get<BlockfrostAddress>(`/addresses/${address}`);
+    const amounts = data?.amount ?? [];
+    return {
+      lovelace: Number(amounts.find(amount => amount.unit === 'lovelace')?.quantity ?? 0),
+      assets: amounts
+        .filter(amount => amount.unit !== 'lovelace')
+        .map(amount => ({
+          policyId: amount.unit.slice(0, 56),
+          assetName: amount.unit.slice(56),
+          quantity: Number(amount.quantity),
+        })),
+    };
+  }
+}
+
+/**
+ * In-memory chain state for local development and tests
+ */
+export class FakeChainProvider implements ChainStateProvider {
+  private readonly txs = new Map<string, ChainTxInfo>();
+  private readonly spenders = new Map<string, string>();
+  private readonly balances = new Map<string, AddressBalance>();
+  private height = 0;
+
+  // Include a transaction in a block, by default the next one
+  confirm(txHash: string, blockTime: number = Date.now(), blockHeight: number = this.height + 1) {
+    this.height = Math.max(this.height, blockHeight);
+    this.txs.set(txHash, { blockTime, blockHeight });
+  }
+
+  // Remove a transaction, as a rollback would
+  drop(txHash: string) {
+    this.txs.delete(txHash);
+    for (const [outRef, spender] of this.spenders) {
+      if (spender === txHash) this.spenders.delete(outRef);
+    }
+  }
+
+  // Consume an output with a confirmed transaction
+  spend(txHash: string, outputIndex: number, spenderTxHash: string, blockTime: number = Date.now()) {
+    this.confirm(spenderTxHash, blockTime);
+    this.spenders.set(`${txHash}#${outputIndex}`, spenderTxHash);
+  }
+
+  // Set what an address holds; addresses never funded have no known balance
+  fund(address: string, lovelace: number, assets: EscrowAsset[] = []) {
+    this.balances.set(address, { lovelace, assets });
+  }
+
+  async getTransaction(txHash: string): Promise<ChainTxInfo | null> {
+    return this.txs.get(txHash) ?? null;
+  }
+
+  async getOutputSpender(txHash: string, outputIndex: number): Promise<string | null> {
+    return this.spenders.get(`${txHash}#${outputIndex}`) ?? null;
+  }
+
+  async getAddressBalance(address: string): Promise<AddressBalance | null> {
+    return this.balances.get(address) ?? null;
+  }
+}
+
+let fakeProvider: FakeChainProvider | null = null;
+
+/**
+ * Chain state provider selected by CHAIN_STATE_PROVIDER (`blockfrost`, `emulator` or `fake`)
+ * `emulator` reads the ledger of the in-memory chain backend
+ * Throws when the selected provider isn't configured
+ */
+export function getChainStateProvider(): ChainStateProvider {
+  const provider = process.env.CHAIN_STATE_PROVIDER ?? 'blockfrost';
+
+  if (provider === 'emulator') {
+    return EmulatorBackend.shared();
+  }
+  if (provider === 'fake') {
+    // Shared so state set up by one caller is visible to the reconciler
+    fakeProvider ??= new FakeChainProvider();
+    return fakeProvider;
+  }
+  if (provider === 'blockfrost') {
+    const baseUrl = process.env.BLOCKFROST_API_URL;
+    const projectId = process.env.BLOCKFROST_PROJECT_ID;
+    if (!baseUrl || !projectId) {
+      throw new Error('BLOCKFROST_API_URL or BLOCKFROST_PROJECT_ID environment variables are not set');
+    }
+    return new BlockfrostChainProvider(baseUrl, projectId);
+  }
+  throw new Error(`Unknown CHAIN_STATE_PROVIDER: ${provider}`);
+}
@@ -0,0 +1,159 @@
+import {
+  clearTxInclusion,
+  clearTxUnlockInclusion,
+  deleteBlocksBelow,
+  deleteBlocksSince,
+  getBlockHash,
+  getChainTip,
+  getTxsByStatus,
+  getTxsIncludedSince,
+  getTxsUnlockedSince,
+  recordBlock,
+  setChainTip,
+  setTxConfirmations,
+  setTxInclusion,
+  transitionTx,
+} from './db';
+import { Transaction, TransactionEventSource, TransactionStatus, TX_STATUS } from './types';
+
+// Escrows locking at least `minLovelace` wait for `confirmations` blocks
+export interface ConfirmationThreshold {
+  minLovelace: number;
+  confirmations: number;
+}
+
+/**
+ * Parse thresholds written as `minLovelace:confirmations` pairs, e.g. `0:1,100000000:5`
+ */
+export function parseConfirmationThresholds(spec: string): ConfirmationThreshold[] {
+  return spec
+    .split(',')
+    .filter(pair => pair.trim())
+    .map(pair => {
+      const [minLovelace, confirmations] = pair.split(':').map(part => Number(part.trim()));
+      if (!Number.isInteger(minLovelace) || !Number.isInteger(confirmations) || confirmations < 1) {
+        throw new Error(`Invalid confirmation threshold "${pair}"`);
+      }
+      return { minLovelace, confirmations };
+    })
+    .sort((a, b) => a.minLovelace - b.minLovelace);
+}
+
+// Without configuration an escrow is confirmed as soon as its lock tx is in a block
+const DEFAULT_THRESHOLDS = '0:1';
+
+/**
+ * Number of blocks an escrow of this size needs before it's treated as confirmed
+ */
+export function getRequiredConfirmations(
+  lovelaceAmount: number,
+  thresholds: ConfirmationThreshold[] = parseConfirmationThresholds(
+    process.env.CONFIRMATION_THRESHOLDS || DEFAULT_THRESHOLDS
+  )
+): number {
+  let required = 1;
+  for (const threshold of thresholds) {
+    if (lovelaceAmount >= threshold.minLovelace) required = threshold.confirmations;
+  }
+  return required;
+}
+
+// Statuses that move forward when the lock tx is seen in a block
+const AWAITING_INCLUSION: TransactionStatus[] = [
+  TX_STATUS.SIGN_LOCK,
+  TX_STATUS.PENDING,
+  TX_STATUS.ROLLED_BACK,
+  TX_STATUS.EXPIRED,
+  TX_STATUS.CONFIRMING,
+];
+
+// Statuses of escrows whose lock tx is in a block
+const INCLUDED: TransactionStatus[] = [
+  TX_STATUS.CONFIRMING,
+  TX_STATUS.CONFIRMED,
+  TX_STATUS.DISPUTED,
+  TX_STATUS.SIGN_UNLOCK,
+  TX_STATUS.UNLOCK_PENDING,
+];
+
+// Statuses of escrows whose UTxO was spent on-chain
+const SPENT: TransactionStatus[] = [TX_STATUS.UNLOCKED, TX_STATUS.RESOLVED];
+
+/**
+ * Record that an escrow's lock tx is in a block, promoting it once deep enough
+ */
+export function recordLockInclusion(escrow: Transaction, blockHeight: number, source: TransactionEventSource) {
+  if (!AWAITING_INCLUSION.includes(escrow.status)) return;
+
+  const tip = getChainTip();
+  const confirmations = tip && tip.height >= blockHeight ? tip.height - blockHeight + 1 : 1;
+  const required = getRequiredConfirmations(escrow.amount);
+
+  setTxInclusion(escrow.id, blockHeight, confirmations, required);
+  transitionTx(escrow.id, confirmations >= required ? TX_STATUS.CONFIRMED : TX_STATUS.CONFIRMING, source);
+}
+
+export interface BlockResult {
+  rolledBack: number;
+  promoted: number;
+}
+
+// Cardano's security parameter: blocks deeper than this are never rolled back
+const MAX_ROLLBACK_DEPTH = 2160;
+
+/**
+ * Undo what the blocks from the given height up did to escrows
+ * Spends are undone first, so an escrow locked and unlocked on the abandoned fork ends up rolled back
+ */
+function rollBackSince(height: number, source: TransactionEventSource): number {
+  let rolledBack = 0;
+  for (const escrow of getTxsUnlockedSince(height)) {
+    clearTxUnlockInclusion(escrow.id);
+    if (SPENT.includes(escrow.status)) {
+      transitionTx(escrow.id, TX_STATUS.UNLOCK_PENDING, source);
+    }
+    rolledBack++;
+  }
+  for (const escrow of getTxsIncludedSince(height)) {
+    if (!INCLUDED.includes(escrow.status)) continue;
+    clearTxInclusion(escrow.id);
+    transitionTx(escrow.id, TX_STATUS.ROLLED_BACK, source);
+    rolledBack++;
+  }
+  deleteBlocksSince(height);
+  return rolledBack;
+}
+
+/**
+ * Advance the chain tip, updating the depth of confirming escrows
+ * A block whose hash differs from the one stored at its height means the chain switched forks:
+ * escrows locked or unlocked from that height up are rolled back until their txs are seen again.
+ * Redelivered blocks, and late ones at or below the tip that can't be compared, change nothing
+ */
+export function applyBlock(height: number, hash: string, source: TransactionEventSource): BlockResult {
+  const result: BlockResult = { rolledBack: 0, promoted: 0 };
+  const tip = getChainTip();
+  const stored = getBlockHash(height) ?? (tip?.height === height ? tip.hash : null);
+  if (stored === hash) return result;
+
+  if (stored) {
+    result.rolledBack = rollBackSince(height, source);
+  } else if (tip && height <= tip.height) {
+    recordBlock(height, hash);
+    return result;
+  }
+  recordBlock(height, hash);
+  deleteBlocksBelow(height - MAX_ROLLBACK_DEPTH);
+  setChainTip({ height, hash });
+
+  for (const escrow of getTxsByStatus([TX_STATUS.CONFIRMING])) {
+    if (escrow.blockHeight == null) continue;
+    const confirmations = Math.max(height - escrow.blockHeight + 1, 1);
+    setTxConfirmations(escrow.id, confirmations);
+    if (confirmations >= escrow.requiredConfirmations) {
+      transitionTx(escrow.id, TX_STATUS.CONFIRMED, source);
+      result.promoted++;
+    }
+  }
+  return result;
+}
@@ -1,50 +1,898 @@
 import Database from "better-sqlite3";
-import { TransactionStatus } from './types';
+import {
+  canTransition,
+  Dispute,
+  EscrowAsset,
+  EscrowResolution,
+  Milestone,
+  Transaction,
+  TransactionEvent,
+  TransactionEventSource,
+  TransactionStatus,
+  TX_STATUS,
+  VestingSchedule,
+} from './types';
+import { toEscrowId } from './escrow';
+import { publishTransactionChange } from './event-bus';
+import { getAddressPaymentCredential } from './tx-parser';
 
 const db = new Database(process.env.SQLITE_DB_PATH!);
 
-db.exec(`
-  CREATE TABLE IF NOT EXISTS wallets(
-    address TEXT PRIMARY KEY
-  );
+// Each escrow is one UTxO, keyed by `${txHash}#${outputIndex}`
+const CREATE_TRANSACTIONS = `
   CREATE TABLE IF NOT EXISTS transactions(
-    txHash TEXT PRIMARY KEY,
+    id TEXT PRIMARY KEY,
+    txHash TEXT NOT NULL,
+    outputIndex INTEGER NOT NULL,
+    spent INTEGER NOT NULL DEFAULT 0,
     wallet TEXT,
+    beneficiary TEXT,
     amount INTEGER,
     status TEXT,
-    timestamp INTEGER
+    timestamp INTEGER,
+    updatedAt INTEGER,
+    confirmedAt INTEGER,
+    blockHeight INTEGER,
+    confirmations INTEGER NOT NULL DEFAULT 0,
+    requiredConfirmations INTEGER NOT NULL DEFAULT 1,
+    unlockTxHash TEXT,
+    unlockedBy TEXT,
+    unlockConfirmedAt INTEGER,
+    unlockBlockHeight INTEGER,
+    deadline INTEGER,
+    refundAfter INTEGER,
+    validatorHash TEXT,
+    threshold INTEGER,
+    arbiter TEXT,
+    parentEscrowId TEXT
+  );
+`;
+
+// Created once the columns they cover exist, after the migrations below
+const CREATE_TRANSACTIONS_INDEXES = `
+  CREATE INDEX IF NOT EXISTS transactions_txHash ON transactions(txHash);
+  CREATE INDEX IF NOT EXISTS transactions_unlockTxHash ON transactions(unlockTxHash);
+`;
+
+const CREATE_ESCROW_ASSETS = `
+  CREATE TABLE IF NOT EXISTS escrow_assets(
+    escrowId TEXT NOT NULL,
+    policyId TEXT NOT NULL,
+    assetName TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    PRIMARY KEY (escrowId, policyId, assetName)
+  );
+`;
+
+// Approver key hashes of multi-signature escrows, in datum order
+const CREATE_ESCROW_SIGNERS = `
+  CREATE TABLE IF NOT EXISTS escrow_signers(
+    escrowId TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    keyHash TEXT NOT NULL,
+    PRIMARY KEY (escrowId, position)
+  );
+  CREATE INDEX IF NOT EXISTS escrow_signers_keyHash ON escrow_signers(keyHash);
+`;
+
+// Payment stages of milestone escrows; each escrow UTxO lists the whole plan, with the stages
+// paid before it was created marked by the tx that released them
+const CREATE_MILESTONES = `
+  CREATE TABLE IF NOT EXISTS milestones(
+    escrowId TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    amount INTEGER NOT NULL,
+    releaseTxHash TEXT,
+    PRIMARY KEY (escrowId, position)
+  );
+`;
+
+// Schedules of vesting escrows; the continuing output of a claim carries the same schedule
+const CREATE_VESTING_SCHEDULES = `
+  CREATE TABLE IF NOT EXISTS vesting_schedules(
+    escrowId TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    total INTEGER NOT NULL,
+    start INTEGER NOT NULL,
+    cliff INTEGER NOT NULL,
+    end INTEGER NOT NULL
+  );
+`;
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS wallets(
+    address TEXT PRIMARY KEY,
+    paymentKeyHash TEXT
+  );
+  CREATE TABLE IF NOT EXISTS transaction_events(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    escrowId TEXT NOT NULL,
+    fromStatus TEXT,
+    toStatus TEXT NOT NULL,
+    source TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS transaction_events_escrowId ON transaction_events(escrowId);
+  CREATE TABLE IF NOT EXISTS webhook_events(
+    id TEXT PRIMARY KEY,
+    receivedAt INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS chain_tip(
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    height INTEGER NOT NULL,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks(
+    height INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS auth_nonces(
+    nonce TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    message TEXT NOT NULL,
+    expiresAt INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sessions(
+    tokenHash TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    expiresAt INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS lookup_cache(
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    createdAt INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS pending_unlocks(
+    txHash TEXT PRIMARY KEY,
+    escrowId TEXT NOT NULL,
+    complete TEXT NOT NULL,
+    createdAt INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS pending_unlocks_escrowId ON pending_unlocks(escrowId);
+  CREATE TABLE IF NOT EXISTS disputes(
+    escrowId TEXT PRIMARY KEY,
+    raisedBy TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    evidence TEXT NOT NULL,
+    raisedAt INTEGER NOT NULL,
+    resolution TEXT,
+    beneficiaryAmount INTEGER,
+    resolvedAt INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS unlock_witnesses(
+    txHash TEXT NOT NULL,
+    keyHash TEXT NOT NULL,
+    witnessSet TEXT,
+    signedAt INTEGER,
+    PRIMARY KEY (txHash, keyHash)
   );
 `);
+db.exec(CREATE_TRANSACTIONS);
+db.exec(CREATE_ESCROW_ASSETS);
+db.exec(CREATE_ESCROW_SIGNERS);
+db.exec(CREATE_MILESTONES);
+db.exec(CREATE_VESTING_SCHEDULES);
+
+function hasColumn(table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some(c => c.name === column);
+}
+
+// Add columns introduced after a database file was first created
+function ensureColumn(table: string, column: string, definition: string) {
+  if (!hasColumn(table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+ensureColumn('wallets', 'paymentKeyHash', 'TEXT');
+ensureColumn('transactions', 'beneficiary', 'TEXT');
+ensureColumn('transactions', 'deadline', 'INTEGER');
+ensureColumn('transactions', 'refundAfter', 'INTEGER');
+ensureColumn('transactions', 'outputIndex', 'INTEGER');
+ensureColumn('transactions', 'spent', 'INTEGER NOT NULL DEFAULT 0');
+ensureColumn('transactions', 'updatedAt', 'INTEGER');
+ensureColumn('transactions', 'confirmedAt', 'INTEGER');
+ensureColumn('transactions', 'unlockTxHash', 'TEXT');
+ensureColumn('transactions', 'unlockedBy', 'TEXT');
+ensureColumn('transactions', 'unlockConfirmedAt', 'INTEGER');
+ensureColumn('transactions', 'unlockBlockHeight', 'INTEGER');
+ensureColumn('transactions', 'blockHeight', 'INTEGER');
+ensureColumn('transactions', 'confirmations', 'INTEGER NOT NULL DEFAULT 0');
+ensureColumn('transactions', 'requiredConfirmations', 'INTEGER NOT NULL DEFAULT 1');
+ensureColumn('transactions', 'validatorHash', 'TEXT');
+ensureColumn('transactions', 'threshold', 'INTEGER');
+ensureColumn('transactions', 'arbiter', 'TEXT');
+ensureColumn('transactions', 'parentEscrowId', 'TEXT');
+
+// Escrows used to be keyed by txHash alone; re-key them by txHash#outputIndex
+function migrateToEscrowIds() {
+  if (hasColumn('transactions', 'id')) return;
+
+  db.transaction(() => {
+    db.exec(`DROP INDEX IF EXISTS transactions_txHash`);
+    db.exec(`DROP INDEX IF EXISTS transactions_unlockTxHash`);
+    db.exec(`ALTER TABLE transactions RENAME TO transactions_legacy`);
+    db.exec(CREATE_TRANSACTIONS);
+    // ensureColumn has added every other column to the legacy table, so copy them all
+    db.exec(
+      `INSERT INTO transactions(
+         id, txHash, outputIndex, spent, wallet, beneficiary, amount, status, timestamp, updatedAt,
+         confirmedAt, blockHeight, confirmations, requiredConfirmations, unlockTxHash, unlockedBy,
+         unlockConfirmedAt, unlockBlockHeight, deadline, refundAfter, validatorHash, threshold, arbiter,
+         parentEscrowId
+       )
+       SELECT txHash || '#' || COALESCE(outputIndex, 0), txHash, COALESCE(outputIndex, 0), spent,
+              wallet, beneficiary, amount, status, timestamp, updatedAt,
+              confirmedAt, blockHeight, confirmations, requiredConfirmations, unlockTxHash, unlockedBy,
+              unlockConfirmedAt, unlockBlockHeight, deadline, refundAfter, validatorHash, threshold, arbiter,
+              parentEscrowId
+       FROM transactions_legacy`
+    );
+    db.exec(`DROP TABLE transactions_legacy`);
+
+    if (hasColumn('escrow_assets', 'txHash')) {
+      db.exec(`ALTER TABLE escrow_assets RENAME TO escrow_assets_legacy`);
+      db.exec(CREATE_ESCROW_ASSETS);
+      db.exec(
+        `INSERT INTO escrow_assets(escrowId, policyId, assetName, quantity)
+         SELECT t.id, a.policyId, a.assetName, a.quantity
+         FROM escrow_assets_legacy a JOIN transactions t ON t.txHash = a.txHash`
+      );
+      db.exec(`DROP TABLE escrow_assets_legacy`);
+    }
+  })();
+}
+
+migrateToEscrowIds();
+db.exec(CREATE_TRANSACTIONS_INDEXES);
+
+// Payment key hash of a wallet address, null for script or malformed addresses
+function getWalletKeyHash(address: string): string | null {
+  const credential = getAddressPaymentCredential(address);
+  return credential?.type === 'key' ? credential.hash : null;
+}
+
+// Wallets recorded before key hashes were stored
+function backfillWalletKeyHashes() {
+  const rows = db
+    .prepare(`SELECT address FROM wallets WHERE paymentKeyHash IS NULL`)
+    .all() as { address: string }[];
+  const update = db.prepare(`UPDATE wallets SET paymentKeyHash = ? WHERE address = ?`);
+  for (const { address } of rows) {
+    update.run(getWalletKeyHash(address), address);
+  }
+}
+
+backfillWalletKeyHashes();
+
+// Escrows recorded before the validator registry were all locked to ESCROW_VALIDATOR_HASH
+const legacyValidatorHash = process.env.ESCROW_VALIDATOR_HASH;
+if (legacyValidatorHash) {
+  db.prepare(`UPDATE transactions SET validatorHash = ? WHERE validatorHash IS NULL`)
+    .run(legacyValidatorHash.toLowerCase());
+}
+
+// Run several writes atomically
+export function withTransaction<T>(fn: () => T): T {
+  return db.transaction(fn)();
+}
 
 export function upsertWallet(address: string) {
-  db.prepare(`INSERT OR IGNORE INTO wallets(address) VALUES (?)`).run(address);
+  db.prepare(`INSERT OR IGNORE INTO wallets(address, paymentKeyHash) VALUES (?, ?)`)
+    .run(address, getWalletKeyHash(address));
+}
+
+/**
+ * Known wallet whose payment credential is the given key hash
+ * A key hash can appear in several addresses (e.g. with different stake parts); the first is used
+ */
+export function findWalletByKeyHash(keyHash: string): string | null {
+  const row = db
+    .prepare(`SELECT address FROM wallets WHERE paymentKeyHash = ? ORDER BY address LIMIT 1`)
+    .get(keyHash.toLowerCase()) as { address: string } | undefined;
+  return row?.address ?? null;
+}
+
+// Escrow details known when the lock transaction is built
+export interface EscrowDetails {
+  beneficiary: string | null;
+  deadline: number | null;
+  refundAfter: number | null;
+  validatorHash: string;  // Escrow contract the output was locked to
+  signers?: string[];     // Approver key hashes of a multi-signature escrow
+  threshold?: number | null;
+  arbiter?: string | null;  // Address that settles disputes
+  milestones?: Milestone[]; // Payment stages of a milestone escrow
+  vesting?: VestingSchedule | null;
+  parentEscrowId?: string;  // Escrow whose partial payout leaves this output
+}
+
+// Thrown when a status change isn't allowed by TX_TRANSITIONS
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly escrowId: string,
+    public readonly from: TransactionStatus,
+    public readonly to: TransactionStatus
+  ) {
+    super(`Invalid status transition for ${escrowId}: ${from} -> ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+// Row shape as stored in SQLite, before assets, signers, dispute, milestones, vesting and history are attached
+type TransactionRow = Omit<
+  Transaction, 'assets' | 'spent' | 'history' | 'signers' | 'dispute' | 'milestones' | 'vesting'
+> & {
+  spent: number;
+};
+
+// Escrows changed since the last notification, published once the write has committed
+const changedEscrows = new Set<string>();
+
+function notifyChange(escrowId: string) {
+  if (changedEscrows.size === 0) {
+    // better-sqlite3 is synchronous, so the surrounding DB transaction has committed by then
+    queueMicrotask(() => {
+      const escrowIds = [...changedEscrows];
+      changedEscrows.clear();
+      for (const id of escrowIds) {
+        const transaction = getTxById(id);
+        if (transaction) publishTransactionChange(transaction);
+      }
+    });
+  }
+  changedEscrows.add(escrowId);
 }
 
-export function upsertTx(
+function recordEvent(
+  escrowId: string,
+  fromStatus: TransactionStatus | null,
+  toStatus: TransactionStatus,
+  source: TransactionEventSource
+) {
+  db.prepare(
+    `INSERT INTO transaction_events(escrowId, fromStatus, toStatus, source, timestamp)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(escrowId, fromStatus, toStatus, source, Date.now());
+  notifyChange(escrowId);
+}
+
+// Create the escrow at one output of a transaction, logging its initial status
+// Existing rows are left untouched; their status only changes through transitionTx
+export const insertTx = db.transaction((
   txHash: string,
+  outputIndex: number,
   wallet: string,
   amount: number,
-  status: TransactionStatus
+  status: TransactionStatus,
+  source: TransactionEventSource,
+  details?: EscrowDetails
+): boolean => {
+  const escrowId = toEscrowId(txHash, outputIndex);
+  const now = Date.now();
+  const result = db.prepare(
+    `INSERT INTO transactions(
+       id, txHash, outputIndex, wallet, beneficiary, amount, status, timestamp, updatedAt, confirmedAt,
+       deadline, refundAfter, validatorHash, threshold, arbiter, parentEscrowId
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO NOTHING`
+  ).run(
+    escrowId,
+    txHash,
+    outputIndex,
+    wallet,
+    details?.beneficiary ?? null,
+    amount,
+    status,
+    now,
+    now,
+    status === TX_STATUS.CONFIRMED ? now : null,
+    details?.deadline ?? null,
+    details?.refundAfter ?? null,
+    details?.validatorHash ?? null,
+    details?.threshold ?? null,
+    details?.arbiter ?? null,
+    details?.parentEscrowId ?? null
+  );
+  if (result.changes === 0) return false;
+
+  const insertSigner = db.prepare(`INSERT INTO escrow_signers(escrowId, position, keyHash) VALUES (?, ?, ?)`);
+  details?.signers?.forEach((keyHash, position) => insertSigner.run(escrowId, position, keyHash.toLowerCase()));
+
+  const insertMilestone = db.prepare(
+    `INSERT INTO milestones(escrowId, position, amount, releaseTxHash) VALUES (?, ?, ?, ?)`
+  );
+  details?.milestones?.forEach((milestone, position) =>
+    insertMilestone.run(escrowId, position, milestone.amount, milestone.releaseTxHash)
+  );
+
+  if (details?.vesting) {
+    const { kind, total, start, cliff, end } = details.vesting;
+    db.prepare(
+      `INSERT INTO vesting_schedules(escrowId, kind, total, start, cliff, end) VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(escrowId, kind, total, start, cliff, end);
+  }
+
+  recordEvent(escrowId, null, status, source);
+  return true;
+});
+
+/**
+ * Drop the continuing escrows that earlier, never signed builds of a partial payout left for this escrow,
+ * so a rebuild replaces them instead of leaving orphaned rows waiting for a signature
+ */
+export const deleteUnsignedContinuations = db.transaction((parentEscrowId: string) => {
+  const rows = db
+    .prepare(`SELECT id FROM transactions WHERE parentEscrowId = ? AND status = ?`)
+    .all(parentEscrowId, TX_STATUS.SIGN_LOCK) as { id: string }[];
+  for (const { id } of rows) {
+    for (const table of ['escrow_assets', 'escrow_signers', 'milestones', 'vesting_schedules', 'transaction_events']) {
+      db.prepare(`DELETE FROM ${table} WHERE escrowId = ?`).run(id);
+    }
+    db.prepare(`DELETE FROM transactions WHERE id = ?`).run(id);
+  }
+});
+
+/**
+ * Move a single escrow to a new status and log the transition
+ * Moving to the current status is a no-op
+ * @returns true if the status changed
+ * @throws InvalidTransitionError when TX_TRANSITIONS forbids the change
+ */
+export const transitionTx = db.transaction((
+  escrowId: string,
+  to: TransactionStatus,
+  source: TransactionEventSource
+): boolean => {
+  const row = db
+    .prepare(`SELECT status FROM transactions WHERE id = ?`)
+    .get(escrowId) as { status: TransactionStatus } | undefined;
+  if (!row) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+  if (row.status === to) return false;
+  if (!canTransition(row.status, to)) {
+    throw new InvalidTransitionError(escrowId, row.status, to);
+  }
+
+  // Keep the first confirmation time when an abandoned unlock returns the escrow to confirmed
+  const now = Date.now();
+  db.prepare(
+    `UPDATE transactions SET status = ?, updatedAt = ?,
+       confirmedAt = CASE WHEN ? THEN COALESCE(confirmedAt, ?) ELSE confirmedAt END
+     WHERE id = ?`
+  ).run(to, now, to === TX_STATUS.CONFIRMED ? 1 : 0, now, escrowId);
+  recordEvent(escrowId, row.status, to, source);
+  return true;
+});
+
+/**
+ * Move every escrow created by a transaction to a new status
+ * Escrows that can't make the transition (e.g. already unlocked) are skipped and logged
+ * @returns Number of escrows whose status changed
+ */
+export const transitionTxsByHash = db.transaction((
+  txHash: string,
+  to: TransactionStatus,
+  source: TransactionEventSource
+): number => {
+  const rows = db
+    .prepare(`SELECT id FROM transactions WHERE txHash = ?`)
+    .all(txHash) as { id: string }[];
+
+  let changed = 0;
+  for (const { id } of rows) {
+    try {
+      if (transitionTx(id, to, source)) changed++;
+    } catch (err) {
+      if (!(err instanceof InvalidTransitionError)) throw err;
+      console.warn(err.message);
+    }
+  }
+  return changed;
+});
+
+// Record the block that includes an escrow's lock tx and its current depth
+export function setTxInclusion(
+  escrowId: string,
+  blockHeight: number,
+  confirmations: number,
+  requiredConfirmations: number
 ) {
   db.prepare(
-    `INSERT OR REPLACE INTO transactions(
-       txHash, wallet, amount, status, timestamp
-     ) VALUES (?, ?, ?, ?, ?)`
-  ).run(txHash, wallet, amount, status, Date.now());
+    `UPDATE transactions SET blockHeight = ?, confirmations = ?, requiredConfirmations = ? WHERE id = ?`
+  ).run(blockHeight, confirmations, requiredConfirmations, escrowId);
+  notifyChange(escrowId);
 }
 
-export function getTxsByWallet(wallet: string) {
-  return db
-    .prepare(`SELECT * FROM transactions WHERE wallet = ? ORDER BY timestamp DESC`)
-    .all(wallet);
+export function setTxConfirmations(escrowId: string, confirmations: number) {
+  db.prepare(`UPDATE transactions SET confirmations = ? WHERE id = ?`).run(confirmations, escrowId);
+  notifyChange(escrowId);
 }
 
-// Update the status of an existing transaction record
-export function updateTxStatus(
-  txHash: string,
-  status: TransactionStatus
-) {
+// Forget the block of a lock tx that was rolled back
+export function clearTxInclusion(escrowId: string) {
+  db.prepare(`UPDATE transactions SET blockHeight = NULL, confirmations = 0 WHERE id = ?`).run(escrowId);
+}
+
+// Escrows whose lock tx is in a block at or above the given height
+export function getTxsIncludedSince(blockHeight: number): Transaction[] {
+  const rows = db
+    .prepare(`SELECT * FROM transactions WHERE blockHeight >= ? ORDER BY blockHeight, outputIndex`)
+    .all(blockHeight) as TransactionRow[];
+  return rows.map(toTransaction);
+}
+
+// Escrows whose unlock tx is in a block at or above the given height
+export function getTxsUnlockedSince(blockHeight: number): Transaction[] {
+  const rows = db
+    .prepare(`SELECT * FROM transactions WHERE unlockBlockHeight >= ? ORDER BY unlockBlockHeight, id`)
+    .all(blockHeight) as TransactionRow[];
+  return rows.map(toTransaction);
+}
+
+// Forget the block of an unlock tx that was rolled back; the escrow UTxO is unspent again
+export function clearTxUnlockInclusion(escrowId: string) {
   db.prepare(
-    `UPDATE transactions SET status = ?, timestamp = ? WHERE txHash = ?`
-  ).run(status, Date.now(), txHash);
-}
\ No newline at end of file
+    `UPDATE transactions SET spent = 0, unlockBlockHeight = NULL, unlockConfirmedAt = NULL WHERE id = ?`
+  ).run(escrowId);
+}
+
+export interface ChainTip {
+  height: number;
+  hash: string;
+}
+
+export function getChainTip(): ChainTip | null {
+  const row = db.prepare(`SELECT height, hash FROM chain_tip WHERE id = 1`).get() as ChainTip | undefined;
+  return row ?? null;
+}
+
+export function setChainTip(tip: ChainTip) {
+  db.prepare(
+    `INSERT INTO chain_tip(id, height, hash) VALUES (1, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET height = excluded.height, hash = excluded.hash`
+  ).run(tip.height, tip.hash);
+}
+
+// Hash of the block seen at a height, or null when none is stored
+export function getBlockHash(height: number): string | null {
+  const row = db.prepare(`SELECT hash FROM blocks WHERE height = ?`).get(height) as { hash: string } | undefined;
+  return row?.hash ?? null;
+}
+
+export function recordBlock(height: number, hash: string) {
+  db.prepare(
+    `INSERT INTO blocks(height, hash) VALUES (?, ?)
+     ON CONFLICT(height) DO UPDATE SET hash = excluded.hash`
+  ).run(height, hash);
+}
+
+// Drop the blocks of an abandoned fork, from the given height up
+export function deleteBlocksSince(height: number) {
+  db.prepare(`DELETE FROM blocks WHERE height >= ?`).run(height);
+}
+
+// Drop blocks too deep to ever be rolled back
+export function deleteBlocksBelow(height: number) {
+  db.prepare(`DELETE FROM blocks WHERE height < ?`).run(height);
+}
+
+/**
+ * Remember a delivered webhook event
+ * @returns false when the event was already handled, so retries can be skipped
+ */
+export function recordWebhookEvent(eventId: string): boolean {
+  const result = db
+    .prepare(`INSERT OR IGNORE INTO webhook_events(id, receivedAt) VALUES (?, ?)`)
+    .run(eventId, Date.now());
+  return result.changes > 0;
+}
+
+// Sign-in challenge issued to a wallet, waiting for its signature
+export interface AuthNonce {
+  address: string;
+  message: string;
+  expiresAt: number;
+}
+
+export function insertAuthNonce(nonce: string, challenge: AuthNonce) {
+  const now = Date.now();
+  db.prepare(`DELETE FROM auth_nonces WHERE expiresAt <= ?`).run(now);
+  db.prepare(`INSERT INTO auth_nonces(nonce, address, message, expiresAt) VALUES (?, ?, ?, ?)`)
+    .run(nonce, challenge.address, challenge.message, challenge.expiresAt);
+}
+
+/**
+ * Look up and delete a sign-in challenge, so each nonce can only be used once
+ * @returns The challenge, or null when it's unknown or already used
+ */
+export const consumeAuthNonce = db.transaction((nonce: string): AuthNonce | null => {
+  const row = db
+    .prepare(`SELECT address, message, expiresAt FROM auth_nonces WHERE nonce = ?`)
+    .get(nonce) as AuthNonce | undefined;
+  if (!row) return null;
+
+  db.prepare(`DELETE FROM auth_nonces WHERE nonce = ?`).run(nonce);
+  return row;
+});
+
+// Sessions are keyed by a hash of the cookie token, so a leaked database can't be replayed
+export function insertSession(tokenHash: string, address: string, expiresAt: number) {
+  db.prepare(`DELETE FROM sessions WHERE expiresAt <= ?`).run(Date.now());
+  db.prepare(`INSERT INTO sessions(tokenHash, address, expiresAt) VALUES (?, ?, ?)`)
+    .run(tokenHash, address, expiresAt);
+}
+
+// Wallet address of an unexpired session
+export function getSessionAddress(tokenHash: string): string | null {
+  const row = db
+    .prepare(`SELECT address FROM sessions WHERE tokenHash = ? AND expiresAt > ?`)
+    .get(tokenHash, Date.now()) as { address: string } | undefined;
+  return row?.address ?? null;
+}
+
+export function deleteSession(tokenHash: string) {
+  db.prepare(`DELETE FROM sessions WHERE tokenHash = ?`).run(tokenHash);
+}
+
+// Persisted result of a deterministic chain lookup, e.g. a validator's script address
+export function getCachedLookup(key: string): string | null {
+  const row = db.prepare(`SELECT value FROM lookup_cache WHERE key = ?`).get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+export function setCachedLookup(key: string, value: string) {
+  db.prepare(`INSERT OR REPLACE INTO lookup_cache(key, value, createdAt) VALUES (?, ?, ?)`)
+    .run(key, value, Date.now());
+}
+
+// Remember which wallet is claiming or refunding an escrow while its unlock tx is being signed
+export function setUnlockWallet(escrowId: string, wallet: string) {
+  db.prepare(`UPDATE transactions SET unlockedBy = ? WHERE id = ?`).run(wallet, escrowId);
+}
+
+// Link an escrow to the submitted claim or refund tx that spends it
+export function setUnlockTxHash(escrowId: string, unlockTxHash: string) {
+  db.prepare(`UPDATE transactions SET unlockTxHash = ? WHERE id = ?`).run(unlockTxHash, escrowId);
+}
+
+// Forget an abandoned or dropped claim, refund or resolution so the escrow can be unlocked again
+export const clearUnlockRequest = db.transaction((escrowId: string) => {
+  db.prepare(`UPDATE transactions SET unlockTxHash = NULL, unlockedBy = NULL WHERE id = ?`).run(escrowId);
+  db.prepare(`UPDATE disputes SET resolution = NULL, beneficiaryAmount = NULL, resolvedAt = NULL WHERE escrowId = ?`)
+    .run(escrowId);
+  deletePendingUnlocks(escrowId);
+});
+
+// Record a dispute raised by one of the parties; an escrow has at most one
+export function insertDispute(escrowId: string, raisedBy: string, reason: string, evidence: string[]) {
+  db.prepare(
+    `INSERT INTO disputes(escrowId, raisedBy, reason, evidence, raisedAt) VALUES (?, ?, ?, ?, ?)`
+  ).run(escrowId, raisedBy, reason, JSON.stringify(evidence), Date.now());
+  notifyChange(escrowId);
+}
+
+// Record how the arbiter settled a dispute, when the resolution tx is built
+export function setDisputeResolution(escrowId: string, resolution: EscrowResolution, beneficiaryAmount: number) {
+  db.prepare(`UPDATE disputes SET resolution = ?, beneficiaryAmount = ?, resolvedAt = ? WHERE escrowId = ?`)
+    .run(resolution, beneficiaryAmount, Date.now(), escrowId);
+  notifyChange(escrowId);
+}
+
+function getDispute(escrowId: string): Dispute | null {
+  const row = db
+    .prepare(
+      `SELECT raisedBy, reason, evidence, raisedAt, resolution, beneficiaryAmount, resolvedAt
+       FROM disputes WHERE escrowId = ?`
+    )
+    .get(escrowId) as (Omit<Dispute, 'evidence'> & { evidence: string }) | undefined;
+  return row ? { ...row, evidence: JSON.parse(row.evidence) as string[] } : null;
+}
+
+// Multi-signature unlock tx collecting approvals before it is submitted
+export interface PendingUnlock {
+  txHash: string;
+  escrowId: string;
+  complete: string;
+  createdAt: number;
+  witnesses: UnlockWitness[];  // One per required signer, in the order they were required
+}
+
+export interface UnlockWitness {
+  keyHash: string;
+  witnessSet: string | null;  // CIP-30 witness set; null until the signer approves
+  signedAt: number | null;
+}
+
+function deletePendingUnlocks(escrowId: string) {
+  db.prepare(
+    `DELETE FROM unlock_witnesses WHERE txHash IN (SELECT txHash FROM pending_unlocks WHERE escrowId = ?)`
+  ).run(escrowId);
+  db.prepare(`DELETE FROM pending_unlocks WHERE escrowId = ?`).run(escrowId);
+}
+
+/**
+ * Store a built multi-signature unlock waiting for its required signers
+ * Replaces any earlier unlock of the same escrow, whose witnesses no longer apply
+ */
+export const createPendingUnlock = db.transaction((
+  txHash: string,
+  escrowId: string,
+  complete: string,
+  requiredSigners: string[]
+) => {
+  deletePendingUnlocks(escrowId);
+  db.prepare(`INSERT INTO pending_unlocks(txHash, escrowId, complete, createdAt) VALUES (?, ?, ?, ?)`)
+    .run(txHash, escrowId, complete, Date.now());
+  const insert = db.prepare(`INSERT OR IGNORE INTO unlock_witnesses(txHash, keyHash) VALUES (?, ?)`);
+  for (const keyHash of requiredSigners) {
+    insert.run(txHash, keyHash.toLowerCase());
+  }
+  notifyChange(escrowId);
+});
+
+export function getPendingUnlock(txHash: string): PendingUnlock | null {
+  const row = db
+    .prepare(`SELECT * FROM pending_unlocks WHERE txHash = ?`)
+    .get(txHash) as Omit<PendingUnlock, 'witnesses'> | undefined;
+  if (!row) return null;
+
+  const witnesses = db
+    .prepare(`SELECT keyHash, witnessSet, signedAt FROM unlock_witnesses WHERE txHash = ? ORDER BY rowid`)
+    .all(txHash) as UnlockWitness[];
+  return { ...row, witnesses };
+}
+
+// Pending unlocks the key hash still has to sign, oldest first
+export function getPendingUnlocksForKey(keyHash: string): PendingUnlock[] {
+  const rows = db
+    .prepare(
+      `SELECT p.txHash FROM pending_unlocks p JOIN unlock_witnesses w ON w.txHash = p.txHash
+       WHERE w.keyHash = ? AND w.witnessSet IS NULL ORDER BY p.createdAt`
+    )
+    .all(keyHash.toLowerCase()) as { txHash: string }[];
+  return rows.map(row => getPendingUnlock(row.txHash)!);
+}
+
+// Record a required signer's witness set for a pending unlock
+export function setUnlockWitness(txHash: string, keyHash: string, witnessSet: string) {
+  db.prepare(`UPDATE unlock_witnesses SET witnessSet = ?, signedAt = ? WHERE txHash = ? AND keyHash = ?`)
+    .run(witnessSet, Date.now(), txHash, keyHash.toLowerCase());
+}
+
+export function deletePendingUnlock(txHash: string) {
+  db.prepare(`DELETE FROM unlock_witnesses WHERE txHash = ?`).run(txHash);
+  db.prepare(`DELETE FROM pending_unlocks WHERE txHash = ?`).run(txHash);
+}
+
+/**
+ * Flag an escrow whose UTxO has been consumed on-chain by another transaction
+ * The spending tx is recorded even when it wasn't submitted through this app, along with
+ * its block height when known so a rollback of that block can be undone
+ * @returns The escrow id, or null when the UTxO isn't a known escrow
+ */
+export function markTxSpent(
+  txHash: string,
+  outputIndex: number,
+  spentByTxHash: string,
+  blockHeight: number | null = null
+): string | null {
+  const escrowId = toEscrowId(txHash, outputIndex);
+  const result = db.prepare(
+    `UPDATE transactions SET spent = 1, unlockTxHash = ?, unlockConfirmedAt = COALESCE(unlockConfirmedAt, ?),
+       unlockBlockHeight = ?
+     WHERE id = ?`
+  ).run(spentByTxHash, Date.now(), blockHeight, escrowId);
+  if (result.changes === 0) return null;
+
+  notifyChange(escrowId);
+  return escrowId;
+}
+
+// Replace the native tokens recorded for an escrow
+export const setTxAssets = db.transaction((escrowId: string, assets: EscrowAsset[]) => {
+  db.prepare(`DELETE FROM escrow_assets WHERE escrowId = ?`).run(escrowId);
+  const insert = db.prepare(
+    `INSERT INTO escrow_assets(escrowId, policyId, assetName, quantity) VALUES (?, ?, ?, ?)`
+  );
+  for (const asset of assets) {
+    insert.run(escrowId, asset.policyId, asset.assetName, asset.quantity);
+  }
+});
+
+function getTxAssets(escrowId: string): EscrowAsset[] {
+  return db
+    .prepare(
+      `SELECT policyId, assetName, quantity FROM escrow_assets
+       WHERE escrowId = ? ORDER BY policyId, assetName`
+    )
+    .all(escrowId) as EscrowAsset[];
+}
+
+export function getTxHistory(escrowId: string): TransactionEvent[] {
+  return db
+    .prepare(`SELECT * FROM transaction_events WHERE escrowId = ? ORDER BY timestamp, id`)
+    .all(escrowId) as TransactionEvent[];
+}
+
+function getTxSigners(escrowId: string): string[] {
+  const rows = db
+    .prepare(`SELECT keyHash FROM escrow_signers WHERE escrowId = ? ORDER BY position`)
+    .all(escrowId) as { keyHash: string }[];
+  return rows.map(row => row.keyHash);
+}
+
+function getTxMilestones(escrowId: string): Milestone[] {
+  return db
+    .prepare(`SELECT amount, releaseTxHash FROM milestones WHERE escrowId = ? ORDER BY position`)
+    .all(escrowId) as Milestone[];
+}
+
+function getTxVesting(escrowId: string): VestingSchedule | null {
+  const row = db
+    .prepare(`SELECT kind, total, start, cliff, end FROM vesting_schedules WHERE escrowId = ?`)
+    .get(escrowId) as VestingSchedule | undefined;
+  return row ?? null;
+}
+
+function toTransaction(row: TransactionRow): Transaction {
+  return {
+    ...row,
+    spent: row.spent === 1,
+    assets: getTxAssets(row.id),
+    signers: getTxSigners(row.id),
+    dispute: getDispute(row.id),
+    milestones: getTxMilestones(row.id),
+    vesting: getTxVesting(row.id),
+    history: getTxHistory(row.id),
+  };
+}
+
+export function getTxById(escrowId: string): Transaction | undefined {
+  const row = db
+    .prepare(`SELECT * FROM transactions WHERE id = ?`)
+    .get(escrowId) as TransactionRow | undefined;
+  return row && toTransaction(row);
+}
+
+// All escrows created by one transaction
+export function getTxsByHash(txHash: string): Transaction[] {
+  const rows = db
+    .prepare(`SELECT * FROM transactions WHERE txHash = ? ORDER BY outputIndex`)
+    .all(txHash) as TransactionRow[];
+  return rows.map(toTransaction);
+}
+
+// Transactions the wallet either funded or can claim as beneficiary
+export function getTxsByWallet(wallet: string): Transaction[] {
+  const rows = db
+    .prepare(
+      `SELECT * FROM transactions
+       WHERE wallet = ? OR beneficiary = ?
+       ORDER BY timestamp DESC, outputIndex`
+    )
+    .all(wallet, wallet) as TransactionRow[];
+  return rows.map(toTransaction);
+}
+
+// Escrows naming the wallet as arbiter that have a dispute, newest dispute first
+export function getDisputesByArbiter(arbiter: string): Transaction[] {
+  const rows = db
+    .prepare(
+      `SELECT t.* FROM transactions t JOIN disputes d ON d.escrowId = t.id
+       WHERE t.arbiter = ? ORDER BY d.raisedAt DESC`
+    )
+    .all(arbiter) as TransactionRow[];
+  return rows.map(toTransaction);
+}
+
+// Escrows in any of the given statuses, oldest first
+export function getTxsByStatus(statuses: TransactionStatus[]): Transaction[] {
+  const placeholders = statuses.map(() => '?').join(', ');
+  const rows = db
+    .prepare(`SELECT * FROM transactions WHERE status IN (${placeholders}) ORDER BY timestamp, outputIndex`)
+    .all(...statuses) as TransactionRow[];
+  return rows.map(toTransaction);
+}
@@ -0,0 +1,107 @@
+import { DisputePayout } from './anvil-api';
+import { API_ERROR_CODE, ApiError } from './api-errors';
+import { getTxById } from './db';
+import { MIN_PAYOUT_LOVELACE } from './escrow';
+import { getKeyHash } from './escrow-access';
+import { EscrowResolution, Transaction, TX_STATUS } from './types';
+
+// Look up an escrow that exists and hasn't been spent
+function getUnspentEscrow(escrowId: string): Transaction {
+  const escrow = getTxById(escrowId);
+  if (!escrow) {
+    throw new ApiError(API_ERROR_CODE.NOT_FOUND, `Escrow ${escrowId} not found`, 404);
+  }
+  if (escrow.spent) {
+    throw new ApiError(API_ERROR_CODE.ALREADY_SPENT, `Escrow ${escrowId} has already been spent`, 409);
+  }
+  return escrow;
+}
+
+/**
+ * Look up an escrow and check the signed-in wallet may raise a dispute on it
+ * Only the depositor or beneficiary of an escrow with an arbiter, while it is confirmed
+ * or its unlock is still unsigned
+ * @throws ApiError with not_found, already_spent, forbidden or invalid_transition
+ */
+export function resolveDisputableEscrow(escrowId: string, wallet: string): Transaction {
+  const escrow = getUnspentEscrow(escrowId);
+  if (!escrow.arbiter) {
+    throw new ApiError(API_ERROR_CODE.FORBIDDEN, `Escrow ${escrowId} has no arbiter to settle a dispute`, 403);
+  }
+
+  const callerKeyHash = getKeyHash(wallet);
+  const parties = [escrow.wallet, escrow.beneficiary ?? escrow.wallet];
+  if (callerKeyHash == null || !parties.some(party => getKeyHash(party) === callerKeyHash)) {
+    throw new ApiError(API_ERROR_CODE.FORBIDDEN, `Only the parties of escrow ${escrowId} can dispute it`, 403);
+  }
+
+  const open = escrow.status === TX_STATUS.CONFIRMED || escrow.status === TX_STATUS.SIGN_UNLOCK;
+  if (escrow.dispute || !open) {
+    throw new ApiError(
+      API_ERROR_CODE.INVALID_TRANSITION,
+      escrow.dispute ? `Escrow ${escrowId} is already disputed` : `Escrow ${escrowId} is ${escrow.status} and can't be disputed`,
+      409
+    );
+  }
+  return escrow;
+}
+
+/**
+ * Look up a disputed escrow and check the signed-in wallet is its arbiter
+ * The validator lets the arbiter resolve at any time; the app only builds a resolution once a
+ * dispute is open. An unsigned resolution can be rebuilt
+ * @throws ApiError with not_found, already_spent, forbidden or invalid_transition
+ */
+export function resolveArbitratedEscrow(escrowId: string, wallet: string): Transaction {
+  const escrow = getUnspentEscrow(escrowId);
+  const callerKeyHash = getKeyHash(wallet);
+  if (!escrow.arbiter || callerKeyHash == null || getKeyHash(escrow.arbiter) !== callerKeyHash) {
+    throw new ApiError(API_ERROR_CODE.FORBIDDEN, `This wallet is not the arbiter of escrow ${escrowId}`, 403);
+  }
+
+  const resolvable = escrow.status === TX_STATUS.DISPUTED ||
+    (escrow.status === TX_STATUS.SIGN_UNLOCK && escrow.dispute != null);
+  if (!resolvable) {
+    throw new ApiError(API_ERROR_CODE.INVALID_TRANSITION, `Escrow ${escrowId} is not awaiting a resolution`, 409);
+  }
+  return escrow;
+}
+
+/**
+ * Payout of a resolution: everything to one party, or the lovelace split with both
+ * getting at least MIN_PAYOUT_LOVELACE
+ * Tokens can't be divided, so escrows holding tokens can only be released or refunded
+ * @throws ApiError with validation_failed for a split that can't be paid out
+ */
+export function getDisputePayout(
+  escrow: Transaction,
+  resolution: EscrowResolution,
+  splitAmount?: number
+): DisputePayout {
+  const beneficiaryAmount = resolution === 'release' ? escrow.amount : resolution === 'refund' ? 0 : splitAmount!;
+
+  if (resolution === 'split') {
+    if (escrow.assets.length > 0) {
+      throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Escrows holding tokens cannot be split', 400, [
+        { path: 'resolution', message: 'must be release or refund for escrows holding tokens' },
+      ]);
+    }
+    if (beneficiaryAmount < MIN_PAYOUT_LOVELACE || escrow.amount - beneficiaryAmount < MIN_PAYOUT_LOVELACE) {
+      throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Split leaves a party less than the minimum payout', 400, [
+        {
+          path: 'beneficiaryAmount',
+          message: `must be between ${MIN_PAYOUT_LOVELACE} and ${escrow.amount - MIN_PAYOUT_LOVELACE} lovelace`,
+        },
+      ]);
+    }
+  }
+
+  return {
+    beneficiaryAddress: escrow.beneficiary ?? escrow.wallet,
+    beneficiaryAmount,
+    depositorAddress: escrow.wallet,
+    depositorAmount: escrow.amount - beneficiaryAmount,
+    assets: escrow.assets,
+    assetsTo: resolution === 'release' ? 'beneficiary' : 'depositor',
+  };
+}
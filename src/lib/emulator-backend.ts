@@ -0,0 +1,501 @@
+import { createPublicKey, generateKeyPairSync, KeyObject, randomBytes, sign } from 'crypto';
+import {
+  decodeUplcData,
+  decodeUplcProgramV2FromCbor,
+  makeByteArrayData,
+  makeConstrData,
+  makeIntData,
+  makeListData,
+  makeMapData,
+  makeUplcDataValue,
+  UplcData,
+  UplcProgramV2,
+} from '@helios-lang/uplc';
+import { blake2b } from './blake2b';
+import { BuildTxRequest, BuiltTx, ChainBackend, DatumField, TxOutputRequest } from './chain-backend';
+import { AddressBalance, ChainStateProvider, ChainTxInfo } from './chain-provider';
+import { decodeBech32, encodeBech32 } from './bech32';
+import { bytesToHex, CborTag, CborValue, encodeCbor, hexToBytes } from './cbor';
+import { getPaymentCredential, getTxHash } from './tx-parser';
+import { getValidator } from './validator-registry';
+import { getWitnessSigners } from './witness';
+
+// Flat part and per byte part of the emulated fee, as in the Cardano fee formula
+const FEE_CONSTANT = 155_381;
+const FEE_PER_BYTE = 44;
+// Room left in the fee estimate for the witnesses added at signing
+const WITNESS_SIZE_ESTIMATE = 110;
+
+const HELLO_WORLD_MESSAGE = 'Hello, World!';
+
+const PLUTUS_CONSTR_0 = 121;
+const CBOR_IN_CBOR = 24;
+
+type Assets = Map<string, number>;  // Quantity per policyId + assetName
+
+interface EmulatorUtxo {
+  txHash: string;
+  outputIndex: number;
+  address: Uint8Array;
+  lovelace: number;
+  assets: Assets;
+  datum: CborValue | null;
+}
+
+// Escrow UTxO spent by a transaction being built, with its redeemer as Plutus data
+interface ScriptInput {
+  utxo: EmulatorUtxo;
+  redeemer: UplcData;
+}
+
+// Built transaction waiting for signatures, with what it needs to be applied
+interface PendingTx {
+  inputs: EmulatorUtxo[];
+  outputs: EmulatorUtxo[];
+  requiredSigners: string[];
+  validFrom?: number;
+  validTo?: number;
+}
+
+export interface EmulatorWallet {
+  address: string;  // Bech32 testnet enterprise address
+  keyHash: string;
+}
+
+const outRefKey = (txHash: string, outputIndex: number) => `${txHash}#${outputIndex}`;
+
+const keyHashOf = (publicKey: Uint8Array) => bytesToHex(blake2b(publicKey, 28));
+
+function parseAddress(address: string): Uint8Array {
+  return /^[0-9a-f]+$/i.test(address) ? hexToBytes(address) : decodeBech32(address).bytes;
+}
+
+function addAssets(target: Assets, source: Assets, direction = 1) {
+  for (const [unit, quantity] of source) {
+    const total = (target.get(unit) ?? 0) + direction * quantity;
+    if (total === 0) target.delete(unit);
+    else target.set(unit, total);
+  }
+}
+
+// Datum and redeemer fields become Plutus data: hex strings as bytes, numbers as integers, arrays as lists of those
+function encodeRecord(value: Record<string, DatumField | undefined>): CborValue {
+  const encodeItem = (item: string | number) => (typeof item === 'number' ? item : hexToBytes(item));
+  const fields = Object.values(value)
+    .filter(field => field !== undefined)
+    .map(field => (Array.isArray(field) ? field.map(encodeItem) : encodeItem(field as string | number)));
+  return new CborTag(PLUTUS_CONSTR_0, fields);
+}
+
+function encodeValue(lovelace: number, assets: Assets): CborValue {
+  if (assets.size === 0) return lovelace;
+  const policies = new Map<CborValue, CborValue>();
+  for (const [unit, quantity] of assets) {
+    const policy = unit.slice(0, 56);
+    const names = (policies.get(policy) as Map<CborValue, CborValue> | undefined) ?? new Map();
+    names.set(hexToBytes(unit.slice(56)), quantity);
+    policies.set(policy, names);
+  }
+  return [lovelace, new Map([...policies].map(([policy, names]) => [hexToBytes(policy as string), names]))];
+}
+
+function encodeOutput(output: EmulatorUtxo): CborValue {
+  const fields = new Map<CborValue, CborValue>([
+    [0, output.address],
+    [1, encodeValue(output.lovelace, output.assets)],
+  ]);
+  if (output.datum) {
+    fields.set(2, [1, new CborTag(CBOR_IN_CBOR, encodeCbor(output.datum))]);
+  }
+  return fields;
+}
+
+// Plutus data as the PlutusV2 ledger passes it to scripts
+const constr = (tag: number, ...fields: UplcData[]) => makeConstrData(tag, fields);
+const NOTHING = constr(1);
+const toPlutusData = (value: CborValue) => decodeUplcData(encodeCbor(value));
+
+const outRefData = (utxo: EmulatorUtxo) =>
+  constr(0, constr(0, makeByteArrayData(utxo.txHash)), makeIntData(utxo.outputIndex));
+
+// Payment credential and, for base addresses, the staking key or script
+function addressData(address: Uint8Array): UplcData {
+  const type = address[0] >> 4;
+  const credential = (isScript: boolean, hash: Uint8Array) => constr(isScript ? 1 : 0, makeByteArrayData(hash));
+  const payment = credential((type & 1) === 1, address.slice(1, 29));
+  const staking = type <= 3 ? constr(0, constr(0, credential((type & 2) === 2, address.slice(29, 57)))) : NOTHING;
+  return constr(0, payment, staking);
+}
+
+// Map of policy to asset name to quantity, lovelace first under empty bytes
+function valueData(lovelace: number, assets: Assets): UplcData {
+  const policies = new Map<string, [UplcData, UplcData][]>([['', [[makeByteArrayData(''), makeIntData(lovelace)]]]]);
+  for (const [unit, quantity] of [...assets].sort(([a], [b]) => a.localeCompare(b))) {
+    const policy = unit.slice(0, 56);
+    policies.set(policy, [...(policies.get(policy) ?? []), [makeByteArrayData(unit.slice(56)), makeIntData(quantity)]]);
+  }
+  return makeMapData([...policies].map(([policy, names]) => [makeByteArrayData(policy), makeMapData(names)]));
+}
+
+function txOutData(output: EmulatorUtxo): UplcData {
+  const datum = output.datum ? constr(2, toPlutusData(output.datum)) : constr(0);
+  return constr(0, addressData(output.address), valueData(output.lovelace, output.assets), datum, NOTHING);
+}
+
+// Validity interval in Unix ms, closed at the start and open at the end
+function validRangeData(validFrom: number | undefined, validTo: number | undefined): UplcData {
+  const bound = (time: number | undefined, infinite: UplcData, closed: boolean) => time == null
+    ? constr(0, infinite, constr(1))
+    : constr(0, constr(1, makeIntData(time)), constr(closed ? 1 : 0));
+  return constr(0, bound(validFrom, constr(0), true), bound(validTo, constr(2), false));
+}
+
+/**
+ * The Hello World contract ESCROW_VALIDATOR_HASH points to, whose script isn't registered: it takes
+ * `Datum { owner }` and `Redeemer { msg }`, and passes when the message is "Hello, World!" and the owner signs
+ * @returns Why the spend fails, or null when it passes
+ */
+function checkHelloWorld(datum: UplcData, redeemer: UplcData, signers: string[]): string | null {
+  const [owner] = datum.kind === 'constr' ? datum.fields : [];
+  const [msg] = redeemer.kind === 'constr' ? redeemer.fields : [];
+  if (msg?.kind !== 'bytes' || Buffer.from(msg.bytes).toString('utf8') !== HELLO_WORLD_MESSAGE) {
+    return `redeemer message must be "${HELLO_WORLD_MESSAGE}"`;
+  }
+  if (owner?.kind !== 'bytes' || !signers.includes(owner.toHex())) {
+    return 'not signed by the owner';
+  }
+  return null;
+}
+
+/**
+ * In-memory ledger that builds, signs and applies transactions without network access
+ * Models UTxOs with values and inline datums, Ed25519 signature checks for required
+ * signers and key inputs, validity intervals in Unix ms, and runs the compiled escrow
+ * scripts. Also serves as the chain state provider for the reconciler.
+ */
+export class EmulatorBackend implements ChainBackend, ChainStateProvider {
+  readonly id = 'emulator';
+
+  private readonly utxos = new Map<string, EmulatorUtxo>();
+  private readonly spenders = new Map<string, string>();
+  private readonly confirmed = new Map<string, ChainTxInfo>();
+  private readonly pending = new Map<string, PendingTx>();
+  private readonly keys = new Map<string, KeyObject>();
+  private readonly scripts = new Map<string, UplcProgramV2>();
+  // Every transaction goes in a block of its own
+  private height = 0;
+
+  // Kept on globalThis so route modules reloaded in development share one ledger
+  static shared(): EmulatorBackend {
+    const globalForEmulator = globalThis as typeof globalThis & { chainEmulator?: EmulatorBackend };
+    return globalForEmulator.chainEmulator ??= new EmulatorBackend();
+  }
+
+  /**
+   * Create a wallet whose key the emulator holds, funded with a single UTxO
+   */
+  createWallet(lovelace = 1_000_000_000): EmulatorWallet {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const rawPublicKey = new Uint8Array(publicKey.export({ format: 'der', type: 'spki' })).slice(-32);
+    const keyHash = keyHashOf(rawPublicKey);
+    this.keys.set(keyHash, privateKey);
+
+    // Header 0x60: testnet enterprise address with a key payment credential
+    const address = encodeBech32('addr_test', Uint8Array.from([0x60, ...hexToBytes(keyHash)]));
+    this.fund(address, lovelace);
+    return { address, keyHash };
+  }
+
+  /**
+   * Add a UTxO out of thin air, e.g. to give a wallet tokens
+   */
+  fund(address: string, lovelace: number, assets: Record<string, number> = {}) {
+    const txHash = bytesToHex(randomBytes(32));
+    this.utxos.set(outRefKey(txHash, 0), {
+      txHash,
+      outputIndex: 0,
+      address: parseAddress(address),
+      lovelace,
+      assets: new Map(Object.entries(assets)),
+      datum: null,
+    });
+    this.confirmed.set(txHash, { blockTime: Date.now(), blockHeight: ++this.height });
+  }
+
+  // Lovelace and tokens held by an address
+  getBalance(address: string): { lovelace: number; assets: Record<string, number> } {
+    const bytes = bytesToHex(parseAddress(address));
+    const assets: Assets = new Map();
+    let lovelace = 0;
+    for (const utxo of this.utxos.values()) {
+      if (bytesToHex(utxo.address) !== bytes) continue;
+      lovelace += utxo.lovelace;
+      addAssets(assets, utxo.assets);
+    }
+    return { lovelace, assets: Object.fromEntries(assets) };
+  }
+
+  /**
+   * Produce a CIP-30 style witness set for a wallet created by this emulator
+   */
+  signTransaction(complete: string, address: string): string {
+    const credential = getPaymentCredential(parseAddress(address));
+    const privateKey = credential && this.keys.get(credential.hash);
+    if (!privateKey) {
+      throw new Error(`Emulator holds no key for ${address}`);
+    }
+    const txHash = hexToBytes(getTxHash(complete));
+    const publicKey = new Uint8Array(createPublicKey(privateKey).export({ format: 'der', type: 'spki' })).slice(-32);
+    const signature = new Uint8Array(sign(null, txHash, privateKey));
+    return bytesToHex(encodeCbor(new Map([[0, [[publicKey, signature]]]])));
+  }
+
+  async getScriptAddress(validatorHash: string): Promise<string> {
+    // Header 0x70: testnet enterprise address with a script payment credential
+    return bytesToHex(Uint8Array.from([0x70, ...hexToBytes(validatorHash)]));
+  }
+
+  async getAddressKeyHash(address: string): Promise<string> {
+    const credential = getPaymentCredential(parseAddress(address));
+    if (credential?.type !== 'key') {
+      throw new Error(`Address has no payment key: ${address}`);
+    }
+    return credential.hash;
+  }
+
+  async buildTransaction(request: BuildTxRequest): Promise<BuiltTx> {
+    const now = Date.now();
+    const { start: validFrom, end: validTo } = request.validityInterval ?? {};
+    if (validTo != null && validTo <= now) {
+      throw new Error('Validity interval ends in the past');
+    }
+
+    const changeAddress = parseAddress(request.changeAddress);
+    const requiredSigners = request.requiredSigners ?? [];
+    const outputs = (request.outputs ?? []).map(output => this.toUtxo(output));
+    const scriptInputs = (request.scriptInteractions ?? []).map(interaction => {
+      const utxo = this.utxos.get(outRefKey(interaction.outputRef.txHash, interaction.outputRef.index));
+      if (!utxo) {
+        throw new Error(`UTxO ${interaction.outputRef.txHash}#${interaction.outputRef.index} not found or already spent`);
+      }
+      return { utxo, redeemer: toPlutusData(encodeRecord(interaction.redeemer.value)) };
+    });
+
+    // Outputs and the fee are funded by the script inputs first, then the wallet's own UTxOs
+    const required = { lovelace: 0, assets: new Map() as Assets };
+    for (const output of outputs) {
+      required.lovelace += output.lovelace;
+      addAssets(required.assets, output.assets);
+    }
+    for (const { utxo } of scriptInputs) {
+      required.lovelace -= utxo.lovelace;
+      addAssets(required.assets, utxo.assets, -1);
+    }
+
+    const build = (fee: number) => {
+      const walletInputs = this.selectInputs(changeAddress, required.lovelace + fee, required.assets);
+      const inputs = [...scriptInputs.map(input => input.utxo), ...walletInputs];
+      const change = { lovelace: -fee, assets: new Map() as Assets };
+      for (const input of inputs) {
+        change.lovelace += input.lovelace;
+        addAssets(change.assets, input.assets);
+      }
+      for (const output of outputs) {
+        change.lovelace -= output.lovelace;
+        addAssets(change.assets, output.assets, -1);
+      }
+      const allOutputs = [
+        ...outputs,
+        { txHash: '', outputIndex: 0, address: changeAddress, ...change, datum: null },
+      ].map((output, outputIndex) => ({ ...output, outputIndex }));
+
+      const body = new Map<CborValue, CborValue>([
+        [0, inputs.map(input => [hexToBytes(input.txHash), input.outputIndex])],
+        [1, allOutputs.map(encodeOutput)],
+        [2, fee],
+      ]);
+      if (validTo != null) body.set(3, validTo);
+      if (validFrom != null) body.set(8, validFrom);
+      if (requiredSigners.length > 0) body.set(14, requiredSigners.map(hexToBytes));
+      return { inputs, outputs: allOutputs, body };
+    };
+
+    // Size the fee from a first draft, then rebuild with it
+    const draft = build(0);
+    const fee = FEE_CONSTANT + FEE_PER_BYTE * (encodeCbor(draft.body).length + WITNESS_SIZE_ESTIMATE);
+    const tx = build(fee);
+
+    const complete = bytesToHex(encodeCbor([tx.body, new Map(), true, null]));
+    const txHash = bytesToHex(blake2b(encodeCbor(tx.body), 32));
+    this.runScripts(scriptInputs, { ...tx, fee, txHash, requiredSigners, validFrom, validTo });
+    this.pending.set(txHash, {
+      inputs: tx.inputs,
+      outputs: tx.outputs.map(output => ({ ...output, txHash })),
+      requiredSigners,
+      validFrom,
+      validTo,
+    });
+    return { hash: txHash, complete };
+  }
+
+  async submitTransaction(signatures: string[], complete: string): Promise<{ txHash: string }> {
+    const txHash = getTxHash(complete);
+    const tx = this.pending.get(txHash);
+    if (!tx) {
+      throw new Error(`Unknown transaction ${txHash}; build it with this emulator first`);
+    }
+
+    const now = Date.now();
+    if (tx.validFrom != null && now < tx.validFrom) {
+      throw new Error('Transaction is not valid yet');
+    }
+    if (tx.validTo != null && now > tx.validTo) {
+      throw new Error('Transaction validity interval has expired');
+    }
+
+    // Every required signer and every key that owns a spent UTxO must sign
+    const signers = new Set(signatures.flatMap(witnessSet => [...getWitnessSigners(witnessSet, txHash)]));
+    const keyOwners = tx.inputs
+      .map(input => getPaymentCredential(input.address))
+      .filter(credential => credential?.type === 'key')
+      .map(credential => credential!.hash);
+    for (const keyHash of new Set([...tx.requiredSigners, ...keyOwners])) {
+      if (!signers.has(keyHash)) {
+        throw new Error(`Missing signature for key hash ${keyHash}`);
+      }
+    }
+
+    for (const input of tx.inputs) {
+      if (!this.utxos.has(outRefKey(input.txHash, input.outputIndex))) {
+        throw new Error(`UTxO ${input.txHash}#${input.outputIndex} already spent`);
+      }
+    }
+    for (const input of tx.inputs) {
+      const key = outRefKey(input.txHash, input.outputIndex);
+      this.utxos.delete(key);
+      this.spenders.set(key, txHash);
+    }
+    for (const output of tx.outputs) {
+      this.utxos.set(outRefKey(txHash, output.outputIndex), output);
+    }
+    this.pending.delete(txHash);
+    this.confirmed.set(txHash, { blockTime: now, blockHeight: ++this.height });
+    return { txHash };
+  }
+
+  async getTransaction(txHash: string): Promise<ChainTxInfo | null> {
+    return this.confirmed.get(txHash) ?? null;
+  }
+
+  async getOutputSpender(txHash: string, outputIndex: number): Promise<string | null> {
+    return this.spenders.get(outRefKey(txHash, outputIndex)) ?? null;
+  }
+
+  async getAddressBalance(address: string): Promise<AddressBalance> {
+    const { lovelace, assets } = this.getBalance(address);
+    return {
+      lovelace,
+      assets: Object.entries(assets).map(([unit, quantity]) => ({
+        policyId: unit.slice(0, 56),
+        assetName: unit.slice(56),
+        quantity,
+      })),
+    };
+  }
+
+  private toUtxo(output: TxOutputRequest): EmulatorUtxo {
+    return {
+      txHash: '',
+      outputIndex: 0,
+      address: parseAddress(output.address),
+      lovelace: output.lovelace,
+      assets: new Map((output.assets ?? []).map(asset => [`${asset.policyId}${asset.assetName.name}`, asset.quantity])),
+      datum: output.datum ? encodeRecord(output.datum.value) : null,
+    };
+  }
+
+  // Largest UTxOs first until the lovelace and every token are covered
+  private selectInputs(address: Uint8Array, lovelace: number, assets: Assets): EmulatorUtxo[] {
+    const owned = [...this.utxos.values()]
+      .filter(utxo => bytesToHex(utxo.address) === bytesToHex(address))
+      .sort((a, b) => b.lovelace - a.lovelace);
+
+    const selected: EmulatorUtxo[] = [];
+    const missing = new Map(assets);
+    let missingLovelace = lovelace;
+    for (const utxo of owned) {
+      const coversToken = [...missing].some(([unit, quantity]) => quantity > 0 && utxo.assets.has(unit));
+      if (missingLovelace <= 0 && !coversToken) continue;
+      selected.push(utxo);
+      missingLovelace -= utxo.lovelace;
+      addAssets(missing, utxo.assets, -1);
+    }
+    if (missingLovelace > 0 || [...missing.values()].some(quantity => quantity > 0)) {
+      throw new Error('Insufficient funds in wallet');
+    }
+    return selected;
+  }
+
+  /**
+   * Run the script of every spent escrow against the finished transaction, as the ledger does in phase two
+   * Scripts come from the validator registry, much like Anvil takes them from the blueprints it was given
+   */
+  private runScripts(
+    scriptInputs: ScriptInput[],
+    tx: PendingTx & { fee: number; txHash: string }
+  ) {
+    const byOutRef = (a: EmulatorUtxo, b: EmulatorUtxo) => a.txHash.localeCompare(b.txHash) || a.outputIndex - b.outputIndex;
+    const txInfo = constr(
+      0,
+      makeListData([...tx.inputs].sort(byOutRef).map(input => constr(0, outRefData(input), txOutData(input)))),
+      makeListData([]),                                            // Reference inputs
+      makeListData(tx.outputs.map(txOutData)),
+      valueData(tx.fee, new Map()),
+      valueData(0, new Map()),                                     // Nothing minted
+      makeListData([]),                                            // Certificates
+      makeMapData([]),                                             // Withdrawals
+      validRangeData(tx.validFrom, tx.validTo),
+      makeListData(tx.requiredSigners.map(keyHash => makeByteArrayData(keyHash))),
+      makeMapData(scriptInputs.map(({ utxo, redeemer }) => [constr(1, outRefData(utxo)), redeemer])),
+      makeMapData([]),                                             // Datums by hash; escrows hold theirs inline
+      constr(0, makeByteArrayData(tx.txHash))
+    );
+
+    for (const { utxo, redeemer } of scriptInputs) {
+      const ref = outRefKey(utxo.txHash, utxo.outputIndex);
+      const credential = getPaymentCredential(utxo.address);
+      if (credential?.type !== 'script') {
+        throw new Error(`Script validation failed for ${ref}: not locked by a script`);
+      }
+      if (!utxo.datum) {
+        throw new Error(`Script validation failed for ${ref}: missing datum`);
+      }
+      const datum = toPlutusData(utxo.datum);
+      const script = this.getScript(credential.hash);
+      if (!script) {
+        const reason = checkHelloWorld(datum, redeemer, tx.requiredSigners);
+        if (reason) throw new Error(`Script validation failed for ${ref}: ${reason}`);
+        continue;
+      }
+
+      const context = constr(0, txInfo, constr(1, outRefData(utxo)));
+      const { result, logs } = script.eval([datum, redeemer, context].map(makeUplcDataValue));
+      if ('left' in result) {
+        const reason = logs.map(log => log.message).join('; ') || result.left.error;
+        throw new Error(`Script validation failed for ${ref}: ${reason}`);
+      }
+    }
+  }
+
+  // Compiled script of a registered validator; null for the Hello World contract, which has none
+  private getScript(validatorHash: string): UplcProgramV2 | null {
+    let script = this.scripts.get(validatorHash);
+    if (!script) {
+      const { compiledCode } = getValidator(validatorHash);
+      if (!compiledCode) return null;
+      script = decodeUplcProgramV2FromCbor(compiledCode);
+      this.scripts.set(validatorHash, script);
+    }
+    return script;
+  }
+}
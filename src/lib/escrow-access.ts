@@ -0,0 +1,66 @@
+import { API_ERROR_CODE, ApiError } from './api-errors';
+import { getTxById } from './db';
+import { getAvailableAction, PartyAction } from './escrow';
+import { EscrowDatum, getAddressPaymentCredential } from './tx-parser';
+import { Transaction } from './types';
+
+// Payment key hash recorded in the escrow datum for a party's address
+export function getKeyHash(address: string | null): string | null {
+  const credential = address ? getAddressPaymentCredential(address) : null;
+  return credential?.type === 'key' ? credential.hash : null;
+}
+
+/**
+ * Datum of an escrow output, rebuilt from the terms recorded on its row
+ * Matches the datum written at lock time, so a continuing output can carry it on
+ */
+export function getEscrowDatum(escrow: Transaction): EscrowDatum {
+  return {
+    depositor: getKeyHash(escrow.wallet)!,
+    beneficiary: getKeyHash(escrow.beneficiary),
+    deadline: escrow.deadline,
+    refundAfter: escrow.refundAfter,
+    signers: escrow.signers,
+    threshold: escrow.threshold,
+    arbiter: getKeyHash(escrow.arbiter),
+    milestones: escrow.milestones.filter(milestone => milestone.releaseTxHash == null).map(milestone => milestone.amount),
+    vesting: escrow.vesting,
+  };
+}
+
+/**
+ * Look up an escrow and check the signed-in wallet may spend it right now
+ * Only the beneficiary after the deadline, or the depositor after the grace period
+ * Parties are matched by the payment key hash in the datum, which is what the validator checks,
+ * so a wallet can unlock from any address sharing that key
+ * @throws ApiError with not_found, already_spent or forbidden
+ */
+export function resolveUnlockableEscrow(
+  escrowId: string,
+  wallet: string
+): { escrow: Transaction; action: PartyAction } {
+  const escrow = getTxById(escrowId);
+  if (!escrow) {
+    throw new ApiError(API_ERROR_CODE.NOT_FOUND, `Escrow ${escrowId} not found`, 404);
+  }
+
+  if (escrow.spent) {
+    throw new ApiError(API_ERROR_CODE.ALREADY_SPENT, `Escrow ${escrowId} has already been spent`, 409);
+  }
+
+  const callerKeyHash = getKeyHash(wallet);
+  const parties = [escrow.beneficiary ?? escrow.wallet, escrow.wallet];
+  for (const party of parties) {
+    if (!party || callerKeyHash == null || getKeyHash(party) !== callerKeyHash) continue;
+    const action = getAvailableAction(escrow, party);
+    if (action) {
+      return { escrow, action };
+    }
+  }
+
+  throw new ApiError(
+    API_ERROR_CODE.FORBIDDEN,
+    `Escrow ${escrowId} cannot be claimed or refunded by this wallet at this time`,
+    403
+  );
+}
@@ -0,0 +1,236 @@
+import { EscrowAsset, EscrowTerms, Transaction, TX_STATUS, VestingSchedule } from './types';
+
+// Default time the depositor waits after the deadline before a refund is allowed
+export const DEFAULT_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Identifier of the escrow UTxO at an output of a lock transaction
+ */
+export function toEscrowId(txHash: string, outputIndex: number): string {
+  return `${txHash}#${outputIndex}`;
+}
+
+/**
+ * Split an escrow identifier back into its lock tx hash and output index
+ */
+export function parseEscrowId(escrowId: string): { txHash: string; outputIndex: number } {
+  const [txHash, index] = escrowId.split('#');
+  return { txHash, outputIndex: Number(index ?? 0) };
+}
+
+// Spending paths the escrow's parties can take on their own
+export type PartyAction = 'claim' | 'refund';
+
+// Spending paths of a time-locked escrow; `resolve` is the arbiter settling a dispute,
+// `release` the depositor paying out the next milestone, `vest` the beneficiary claiming what has vested
+export type EscrowAction = PartyAction | 'resolve' | 'release' | 'vest';
+
+/**
+ * Determine which spending path, if any, a wallet may use right now
+ * - claim: the beneficiary, once the release deadline has passed
+ * - refund: the depositor, once the grace period after the deadline has passed
+ * Escrows created before deadlines existed can be claimed at any time; disputed escrows
+ * are left to the arbiter
+ */
+export function getAvailableAction(
+  tx: Pick<Transaction, 'wallet' | 'beneficiary' | 'status' | 'spent' | 'deadline' | 'refundAfter' | 'dispute'>,
+  wallet: string,
+  now: number = Date.now()
+): PartyAction | null {
+  // An unlock that was built but never signed can be rebuilt
+  const unlockable = tx.status === TX_STATUS.CONFIRMED || tx.status === TX_STATUS.SIGN_UNLOCK;
+  if (!unlockable || tx.spent || tx.dispute) return null;
+
+  const beneficiary = tx.beneficiary ?? tx.wallet;
+  if (wallet === beneficiary && (tx.deadline == null || now >= tx.deadline)) {
+    return 'claim';
+  }
+  if (wallet === tx.wallet && tx.refundAfter != null && now >= tx.refundAfter) {
+    return 'refund';
+  }
+  return null;
+}
+
+/**
+ * Next milestone of an escrow that can be released now, with its position in the plan
+ * Only the depositor releases milestones, at any time before the escrow is claimed,
+ * refunded or disputed; an unsigned release can be rebuilt
+ */
+export function getNextMilestone(
+  tx: Pick<Transaction, 'status' | 'spent' | 'dispute' | 'milestones'>
+): { position: number; amount: number } | null {
+  const releasable = tx.status === TX_STATUS.CONFIRMED || tx.status === TX_STATUS.SIGN_UNLOCK;
+  if (!releasable || tx.spent || tx.dispute) return null;
+
+  const position = tx.milestones.findIndex(milestone => milestone.releaseTxHash == null);
+  return position === -1 ? null : { position, amount: tx.milestones[position].amount };
+}
+
+/**
+ * Lovelace of a schedule vested at the given time
+ * Integer arithmetic rounding down, as the validator computes it from the tx validity start
+ */
+export function getVestedAmount(schedule: VestingSchedule, at: number): number {
+  if (at < schedule.cliff) return 0;
+  if (at >= schedule.end) return schedule.total;
+
+  const elapsed = schedule.kind === 'monthly'
+    ? Math.floor((at - schedule.start) / VESTING_MONTH_MS) * VESTING_MONTH_MS
+    : at - schedule.start;
+  return Number(BigInt(schedule.total) * BigInt(elapsed) / BigInt(schedule.end - schedule.start));
+}
+
+/**
+ * Lovelace the beneficiary of a vesting escrow can claim now, or null when nothing can be
+ * Whatever stays locked must still meet the minimum UTxO value, so a claim before the end
+ * leaves at least that much; once everything has vested the claim takes the tokens too
+ */
+export function getVestingClaim(
+  tx: Pick<Transaction, 'status' | 'spent' | 'dispute' | 'amount' | 'assets' | 'signers' | 'arbiter' | 'vesting'>,
+  at: number
+): number | null {
+  const claimable = tx.status === TX_STATUS.CONFIRMED || tx.status === TX_STATUS.SIGN_UNLOCK;
+  if (!claimable || tx.spent || tx.dispute || !tx.vesting) return null;
+
+  const vested = getVestedAmount(tx.vesting, at);
+  if (vested >= tx.vesting.total) return tx.amount;
+
+  const claimed = tx.vesting.total - tx.amount;
+  const amount = Math.min(vested - claimed, tx.amount - getMinVestingRemainder(tx));
+  return amount >= MIN_PAYOUT_LOVELACE ? amount : null;
+}
+
+/**
+ * Smallest lovelace the escrow output left by a partial vesting claim may carry
+ */
+export function getMinVestingRemainder(tx: Pick<Transaction, 'assets' | 'signers' | 'arbiter'>): number {
+  return getMinEscrowLovelace(tx.assets, tx.signers.length + (tx.arbiter ? 1 : 0), VESTING_DATUM_INTEGERS);
+}
+
+/**
+ * Earliest time the given action becomes valid, used as the tx validity start
+ */
+export function getActionValidFrom(
+  tx: Pick<Transaction, 'deadline' | 'refundAfter'>,
+  action: PartyAction
+): number | undefined {
+  const validFrom = action === 'claim' ? tx.deadline : tx.refundAfter;
+  return validFrom ?? undefined;
+}
+
+/**
+ * Start of the one-second slot a time falls in
+ * A validity start is rounded down to its slot, so the validator counts vesting to that instant
+ */
+export function getSlotStart(time: number): number {
+  return Math.floor(time / 1000) * 1000;
+}
+
+// Most escrow outputs a single batch lock may create, keeping the tx under the size limit
+export const MAX_BATCH_LOCK_ENTRIES = 40;
+
+// Most escrow UTxOs a single batch unlock may spend, keeping script execution units in budget
+export const MAX_BATCH_UNLOCK_ENTRIES = 8;
+
+// Most approvers a multi-signature escrow may list, keeping the datum and required signers small
+export const MAX_ESCROW_SIGNERS = 10;
+
+// Most stages a milestone escrow may be paid out in, keeping the datum small
+export const MAX_ESCROW_MILESTONES = 12;
+
+// Step of a monthly vesting schedule; a fixed length, as the validator can't read calendars
+export const VESTING_MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Integers a vesting schedule takes in the datum: total, start, cliff, end and step
+export const VESTING_DATUM_INTEGERS = 5;
+
+/**
+ * Datum integers of a vesting schedule, [total, start, cliff, end, step]; the step is 0 for linear vesting
+ */
+export function encodeVestingTerms(schedule: VestingSchedule): number[] {
+  const step = schedule.kind === 'monthly' ? VESTING_MONTH_MS : 0;
+  return [schedule.total, schedule.start, schedule.cliff, schedule.end, step];
+}
+
+/**
+ * Vesting schedule read back from its datum integers; null when the escrow doesn't vest
+ */
+export function decodeVestingTerms(terms: number[]): VestingSchedule | null {
+  if (terms.length !== VESTING_DATUM_INTEGERS) return null;
+  const [total, start, cliff, end, step] = terms;
+  return { kind: step === 0 ? 'linear' : 'monthly', total, start, cliff, end };
+}
+
+// Most evidence links a dispute may carry
+export const MAX_DISPUTE_EVIDENCE = 10;
+
+// Smallest payout an arbiter's split may send to either party, so both outputs meet the min-UTxO rule
+export const MIN_PAYOUT_LOVELACE = 1_000_000;
+
+/**
+ * Status an escrow ends in once its UTxO is spent
+ * Resolved when the arbiter's resolution spent a disputed escrow, unlocked otherwise
+ */
+export function getSpentStatus(tx: Pick<Transaction, 'dispute'>): typeof TX_STATUS.UNLOCKED | typeof TX_STATUS.RESOLVED {
+  return tx.dispute?.resolution ? TX_STATUS.RESOLVED : TX_STATUS.UNLOCKED;
+}
+
+// Ledger parameter coinsPerUTxOByte (Babbage onwards)
+const COINS_PER_UTXO_BYTE = 4310;
+
+// Bytes the ledger adds to every output's serialized size when pricing it
+const UTXO_ENTRY_OVERHEAD = 160;
+
+// Serialized size of an escrow output without tokens: script address, coin and inline datum
+// with both 28 byte key hashes and two 8 byte timestamps, rounded up
+const ESCROW_OUTPUT_SIZE = 140;
+
+/**
+ * Smallest lovelace amount the ledger accepts for an escrow output carrying these tokens
+ * Each policy adds its 28 byte ID and each token its name and an 8 byte quantity,
+ * each approver or arbiter its 28 byte key hash in the datum and each milestone or vesting term
+ * an 8 byte integer, plus a few bytes of CBOR framing
+ */
+export function getMinEscrowLovelace(
+  assets: EscrowAsset[] = [],
+  extraKeyHashes: number = 0,
+  extraIntegers: number = 0
+): number {
+  return getMinOutputLovelace(ESCROW_OUTPUT_SIZE + extraKeyHashes * 30 + extraIntegers * 9, assets);
+}
+
+/**
+ * Min-UTxO deposit of a new escrow: the ledger minimum of its output under the chosen terms
+ */
+export function getMinLockLovelace(
+  terms: Pick<EscrowTerms, 'signers' | 'arbiterAddress' | 'milestones' | 'vesting'>,
+  assets: EscrowAsset[] = []
+): number {
+  const extraKeyHashes = (terms.signers?.length ?? 0) + (terms.arbiterAddress ? 1 : 0);
+  const extraIntegers = terms.vesting ? VESTING_DATUM_INTEGERS : terms.milestones?.length;
+  return getMinEscrowLovelace(assets, extraKeyHashes, extraIntegers);
+}
+
+// Serialized size of a wallet output without tokens: base address and coin, rounded up
+const CHANGE_OUTPUT_SIZE = 70;
+
+// Upper bound of the fee of a lock transaction: about 7.8 kB at the current fee parameters,
+// far more than a lock with a handful of wallet inputs takes
+export const LOCK_FEE_RESERVE_LOVELACE = 500_000;
+
+/**
+ * Most lovelace a wallet can lock while keeping enough for the fee and for the change output
+ * that carries its remaining tokens back
+ * An estimate made before building; the preview route gives the exact fee
+ */
+export function getSpendableLovelace(balanceLovelace: number, walletAssets: EscrowAsset[] = []): number {
+  const minChange = getMinOutputLovelace(CHANGE_OUTPUT_SIZE, walletAssets);
+  return Math.max(balanceLovelace - LOCK_FEE_RESERVE_LOVELACE - minChange, 0);
+}
+
+// Ledger minimum of an output whose size without tokens is given, priced per byte
+function getMinOutputLovelace(size: number, assets: EscrowAsset[]): number {
+  const policies = new Set(assets.map(asset => asset.policyId));
+  const tokensSize = policies.size * 31 + assets.reduce((sum, asset) => sum + asset.assetName.length / 2 + 11, 0);
+  return COINS_PER_UTXO_BYTE * (UTXO_ENTRY_OVERHEAD + size + tokensSize);
+}
@@ -0,0 +1,29 @@
+import { EventEmitter } from 'events';
+import { Transaction } from './types';
+
+// Kept on globalThis so route modules reloaded in development share one bus
+const globalForBus = globalThis as typeof globalThis & { escrowEventBus?: EventEmitter };
+const bus = globalForBus.escrowEventBus ??= new EventEmitter().setMaxListeners(0);
+
+const walletChannel = (wallet: string) => `wallet:${wallet}`;
+
+/**
+ * Notify both parties of an escrow that its row changed
+ */
+export function publishTransactionChange(transaction: Transaction) {
+  const wallets = new Set([transaction.wallet, transaction.beneficiary]);
+  for (const wallet of wallets) {
+    if (wallet) bus.emit(walletChannel(wallet), transaction);
+  }
+}
+
+/**
+ * Listen for changes to escrows a wallet funded or can claim
+ * @returns Function that removes the listener
+ */
+export function subscribeToWallet(wallet: string, listener: (transaction: Transaction) => void): () => void {
+  bus.on(walletChannel(wallet), listener);
+  return () => {
+    bus.off(walletChannel(wallet), listener);
+  };
+}
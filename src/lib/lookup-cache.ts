@@ -0,0 +1,50 @@
+import { getCachedLookup, setCachedLookup } from './db';
+
+// Entries kept in memory per cache before the least recently used is dropped
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Memoizes a deterministic lookup by key, in memory and optionally in SQLite
+ * Concurrent lookups of one key share a single load; failed loads aren't cached
+ */
+export class LookupCache {
+  private readonly entries = new Map<string, Promise<string>>();
+
+  constructor(
+    private readonly namespace: string,
+    private readonly options: { persist?: boolean; maxEntries?: number } = {}
+  ) {}
+
+  get(key: string, load: () => Promise<string>): Promise<string> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert so eviction drops the least recently used key
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    const value = this.load(key, load);
+    this.entries.set(key, value);
+    value.catch(() => this.entries.delete(key));
+
+    if (this.entries.size > (this.options.maxEntries ?? DEFAULT_MAX_ENTRIES)) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return value;
+  }
+
+  private async load(key: string, load: () => Promise<string>): Promise<string> {
+    const storageKey = `${this.namespace}:${key}`;
+    if (this.options.persist) {
+      const stored = getCachedLookup(storageKey);
+      if (stored != null) return stored;
+    }
+
+    const value = await load();
+    if (this.options.persist) {
+      setCachedLookup(storageKey, value);
+    }
+    return value;
+  }
+}
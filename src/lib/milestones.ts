@@ -0,0 +1,70 @@
+import { PartialRelease } from './anvil-api';
+import { API_ERROR_CODE, ApiError } from './api-errors';
+import { getTxById } from './db';
+import { getNextMilestone } from './escrow';
+import { getEscrowDatum, getKeyHash } from './escrow-access';
+import { Milestone, Transaction } from './types';
+
+/**
+ * Look up an escrow and check the signed-in wallet may release its next milestone
+ * Only the depositor, matched by payment key hash like the validator does
+ * @returns The escrow and the position of the milestone to release
+ * @throws ApiError with not_found, already_spent, forbidden or invalid_transition
+ */
+export function resolveReleasableEscrow(escrowId: string, wallet: string): { escrow: Transaction; position: number } {
+  const escrow = getTxById(escrowId);
+  if (!escrow) {
+    throw new ApiError(API_ERROR_CODE.NOT_FOUND, `Escrow ${escrowId} not found`, 404);
+  }
+  if (escrow.spent) {
+    throw new ApiError(API_ERROR_CODE.ALREADY_SPENT, `Escrow ${escrowId} has already been spent`, 409);
+  }
+
+  const callerKeyHash = getKeyHash(wallet);
+  if (callerKeyHash == null || getKeyHash(escrow.wallet) !== callerKeyHash) {
+    throw new ApiError(API_ERROR_CODE.FORBIDDEN, `Only the depositor of escrow ${escrowId} can release milestones`, 403);
+  }
+
+  const next = getNextMilestone(escrow);
+  if (!next || !escrow.beneficiary) {
+    throw new ApiError(
+      API_ERROR_CODE.INVALID_TRANSITION,
+      escrow.milestones.length === 0
+        ? `Escrow ${escrowId} has no milestones`
+        : `Escrow ${escrowId} is ${escrow.status} and has no milestone to release`,
+      409
+    );
+  }
+  return { escrow, position: next.position };
+}
+
+/**
+ * Payout of releasing a milestone: its amount to the beneficiary, and the rest back to the
+ * contract under the same datum without it
+ * The last milestone pays out whatever is left, tokens included
+ */
+export function getMilestoneRelease(escrow: Transaction, position: number): PartialRelease {
+  const remaining = escrow.milestones.slice(position + 1);
+  if (remaining.length === 0) {
+    return { beneficiaryAddress: escrow.beneficiary!, amount: escrow.amount, assets: escrow.assets, remaining: null };
+  }
+
+  const amount = escrow.milestones[position].amount;
+  return {
+    beneficiaryAddress: escrow.beneficiary!,
+    amount,
+    assets: [],
+    remaining: {
+      lovelace: escrow.amount - amount,
+      assets: escrow.assets,
+      datum: { ...getEscrowDatum(escrow), milestones: remaining.map(milestone => milestone.amount) },
+    },
+  };
+}
+
+/**
+ * Milestones of the escrow that carries the rest after a release, with the released one marked
+ */
+export function markReleased(milestones: Milestone[], position: number, releaseTxHash: string): Milestone[] {
+  return milestones.map((milestone, i) => (i === position ? { ...milestone, releaseTxHash } : milestone));
+}
@@ -0,0 +1,114 @@
+import { submitTransaction } from './anvil-api';
+import { API_ERROR_CODE, ApiError } from './api-errors';
+import {
+  deletePendingUnlock,
+  getPendingUnlock,
+  getTxById,
+  setUnlockTxHash,
+  setUnlockWitness,
+  transitionTx,
+  transitionTxsByHash,
+  withTransaction,
+} from './db';
+import { getKeyHash } from './escrow-access';
+import { Transaction, TX_EVENT_SOURCE, TX_STATUS } from './types';
+import { getWitnessSigners } from './witness';
+
+// Progress of a multi-signature unlock after a witness was added
+export interface ApprovalResult {
+  txHash: string;
+  awaitingApprovals: number;  // Required signers still to sign; the tx was submitted once this is 0
+}
+
+/**
+ * Approver key hashes that must co-sign an unlock of a multi-signature escrow
+ * Every required signer has to sign before the tx can be submitted, so exactly the threshold of
+ * signers are named; only escrows needing all their signers may leave them out
+ * @throws ApiError with validation_failed when the approvers aren't signers or not the threshold
+ */
+export function resolveApprovers(escrow: Transaction, approverKeyHashes?: string[]): string[] {
+  const threshold = escrow.threshold ?? 0;
+  if (!approverKeyHashes && escrow.signers.length === threshold) return escrow.signers;
+  if (!approverKeyHashes) {
+    throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Approvers are required', 400, [
+      { path: 'approvers', message: `must name ${threshold} of the escrow's signers` },
+    ]);
+  }
+
+  const outsider = approverKeyHashes.findIndex(keyHash => !escrow.signers.includes(keyHash));
+  if (outsider !== -1) {
+    throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Approvers must be signers of the escrow', 400, [
+      { path: `approvers.${outsider}`, message: 'is not a signer of this escrow' },
+    ]);
+  }
+  const approvers = [...new Set(approverKeyHashes)];
+  if (approvers.length !== threshold) {
+    throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Wrong number of approvers', 400, [
+      { path: 'approvers', message: `must name ${threshold} different signers` },
+    ]);
+  }
+  return approvers;
+}
+
+/**
+ * Add a required signer's witness set to a pending multi-signature unlock
+ * Once every required signer has signed, the tx is submitted with all witness sets
+ * and the escrow moves to unlock pending
+ * @throws ApiError with not_found, already_spent, invalid_transition, forbidden,
+ *   validation_failed or submit_failed
+ */
+export async function addUnlockWitness(txHash: string, wallet: string, witnessSet: string): Promise<ApprovalResult> {
+  const pending = getPendingUnlock(txHash);
+  if (!pending) {
+    throw new ApiError(API_ERROR_CODE.NOT_FOUND, `No unlock ${txHash} is awaiting approvals`, 404);
+  }
+  const escrow = getTxById(pending.escrowId);
+  if (!escrow || escrow.spent) {
+    throw new ApiError(API_ERROR_CODE.ALREADY_SPENT, `Escrow ${pending.escrowId} has already been spent`, 409);
+  }
+  if (escrow.status !== TX_STATUS.SIGN_UNLOCK) {
+    throw new ApiError(
+      API_ERROR_CODE.INVALID_TRANSITION,
+      `Escrow ${pending.escrowId} is ${escrow.status}, not awaiting approvals`,
+      409
+    );
+  }
+
+  const keyHash = getKeyHash(wallet);
+  if (!pending.witnesses.some(witness => witness.keyHash === keyHash)) {
+    throw new ApiError(API_ERROR_CODE.FORBIDDEN, `This wallet is not a required signer of unlock ${txHash}`, 403);
+  }
+  if (!getWitnessSigners(witnessSet, txHash).has(keyHash!)) {
+    throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Signature does not sign the unlock with this wallet', 400, [
+      { path: 'signature', message: 'must include a valid witness for the wallet\'s payment key' },
+    ]);
+  }
+  setUnlockWitness(txHash, keyHash!, witnessSet);
+
+  const witnesses = pending.witnesses.map(witness =>
+    witness.keyHash === keyHash ? witnessSet : witness.witnessSet
+  );
+  const awaitingApprovals = witnesses.filter(witness => witness == null).length;
+  if (awaitingApprovals > 0) {
+    return { txHash, awaitingApprovals };
+  }
+
+  let result: { txHash: string };
+  try {
+    result = await submitTransaction(witnesses as string[], pending.complete);
+  } catch (error: unknown) {
+    console.error('Error submitting multi-signature unlock:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ApiError(API_ERROR_CODE.SUBMIT_FAILED, message || 'Failed to submit transaction', 502);
+  }
+
+  // The webhook marks the escrow unlocked once the unlock tx is confirmed on-chain;
+  // the escrow carrying the rest of a milestone release is pending like a lock
+  withTransaction(() => {
+    setUnlockTxHash(escrow.id, result.txHash);
+    transitionTx(escrow.id, TX_STATUS.UNLOCK_PENDING, TX_EVENT_SOURCE.API);
+    transitionTxsByHash(result.txHash, TX_STATUS.PENDING, TX_EVENT_SOURCE.API);
+    deletePendingUnlock(txHash);
+  });
+  return { txHash: result.txHash, awaitingApprovals: 0 };
+}
@@ -0,0 +1,143 @@
+import { ChainStateProvider } from './chain-provider';
+import { recordLockInclusion } from './confirmations';
+import { clearUnlockRequest, getPendingUnlock, getTxsByStatus, markTxSpent, transitionTx } from './db';
+import { getSpentStatus } from './escrow';
+import { Transaction, TransactionStatus, TX_EVENT_SOURCE, TX_STATUS } from './types';
+
+export interface ReconcileOptions {
+  signTtlMs: number;     // Unsigned builds older than this are treated as abandoned
+  approvalTtlMs: number; // Multi-signature unlocks still collecting approvals after this are abandoned
+  pendingTtlMs: number;  // Submitted txs still off-chain after this are treated as dropped
+  now?: number;
+}
+
+export interface ReconcileResult {
+  checked: number;
+  confirmed: number;   // Lock txs found on-chain, or confirming ones promoted
+  unlocked: number;    // Escrow UTxOs found spent
+  expired: number;     // Lock txs never signed or never confirmed
+  rolledBack: number;  // Lock txs no longer on-chain
+  released: number;    // Abandoned or dropped unlocks, escrow spendable again
+  failed: number;      // Rows that couldn't be checked
+}
+
+// Statuses whose rows may be stale when a webhook was missed
+const RECONCILED_STATUSES: TransactionStatus[] = [
+  TX_STATUS.SIGN_LOCK,
+  TX_STATUS.PENDING,
+  TX_STATUS.CONFIRMING,
+  TX_STATUS.CONFIRMED,
+  TX_STATUS.DISPUTED,
+  TX_STATUS.SIGN_UNLOCK,
+  TX_STATUS.UNLOCK_PENDING,
+  TX_STATUS.ROLLED_BACK,
+  TX_STATUS.EXPIRED,
+];
+
+const move = (escrowId: string, to: TransactionStatus) =>
+  transitionTx(escrowId, to, TX_EVENT_SOURCE.RECONCILER);
+
+/**
+ * Compare stored escrows with chain state and repair their statuses
+ * - signLock: included if the lock tx made it on-chain anyway, expired once older than the sign TTL
+ * - pending: included once on-chain, expired once older than the pending TTL
+ *   Included escrows wait in confirming until their block is as deep as their amount requires
+ * - confirming: rolled back if the lock tx disappeared, confirmed once older than the pending TTL
+ *   in case the block webhooks that would have promoted it were missed
+ * - confirmed, disputed and unlocking: rolled back if the lock tx disappeared, unlocked (or resolved)
+ *   once the UTxO is spent, and returned to confirmed (or disputed) when the unlock was abandoned
+ *   or dropped; multi-signature unlocks get the approval TTL to collect their signatures
+ * - rolledBack: included again if the lock tx was re-included
+ * - expired: included after all if the lock tx turns up within the pending TTL of expiring
+ */
+export async function reconcileEscrows(
+  provider: ChainStateProvider,
+  options: ReconcileOptions
+): Promise<ReconcileResult> {
+  const now = options.now ?? Date.now();
+  const result: ReconcileResult = {
+    checked: 0, confirmed: 0, unlocked: 0, expired: 0, rolledBack: 0, released: 0, failed: 0,
+  };
+
+  for (const escrow of getTxsByStatus(RECONCILED_STATUSES)) {
+    result.checked++;
+    try {
+      await reconcileEscrow(provider, escrow, options, now, result);
+    } catch (err) {
+      result.failed++;
+      console.error(`Failed to reconcile escrow ${escrow.id}:`, err);
+    }
+  }
+  return result;
+}
+
+async function reconcileEscrow(
+  provider: ChainStateProvider,
+  escrow: Transaction,
+  options: ReconcileOptions,
+  now: number,
+  result: ReconcileResult
+) {
+  const age = now - (escrow.updatedAt ?? escrow.timestamp);
+  // The escrow carrying the rest of a multi-signature milestone release waits for its approvals
+  const lockTtlMs = escrow.status === TX_STATUS.SIGN_LOCK && getPendingUnlock(escrow.txHash)
+    ? options.approvalTtlMs
+    : options.signTtlMs;
+
+  // Nothing to check until an unsigned build is old enough to count as abandoned
+  if (escrow.status === TX_STATUS.SIGN_LOCK && age < lockTtlMs) return;
+  // A lock tx that hasn't turned up by then was never submitted or was dropped
+  if (escrow.status === TX_STATUS.EXPIRED && age >= options.pendingTtlMs) return;
+
+  const lockTx = await provider.getTransaction(escrow.txHash);
+
+  switch (escrow.status) {
+    case TX_STATUS.SIGN_LOCK:
+    case TX_STATUS.PENDING:
+    case TX_STATUS.ROLLED_BACK:
+    case TX_STATUS.EXPIRED:
+      if (lockTx) {
+        recordLockInclusion(escrow, lockTx.blockHeight, TX_EVENT_SOURCE.RECONCILER);
+        result.confirmed++;
+      } else if (escrow.status === TX_STATUS.SIGN_LOCK ||
+                 (escrow.status === TX_STATUS.PENDING && age >= options.pendingTtlMs)) {
+        move(escrow.id, TX_STATUS.EXPIRED);
+        result.expired++;
+      }
+      return;
+  }
+
+  // The escrow was included in a block, so a missing lock tx means the chain rolled back
+  if (!lockTx) {
+    move(escrow.id, TX_STATUS.ROLLED_BACK);
+    result.rolledBack++;
+    return;
+  }
+
+  if (escrow.status === TX_STATUS.CONFIRMING) {
+    if (age >= options.pendingTtlMs) {
+      move(escrow.id, TX_STATUS.CONFIRMED);
+      result.confirmed++;
+    }
+    return;
+  }
+
+  const spender = await provider.getOutputSpender(escrow.txHash, escrow.outputIndex);
+  if (spender) {
+    const spenderTx = await provider.getTransaction(spender);
+    markTxSpent(escrow.txHash, escrow.outputIndex, spender, spenderTx?.blockHeight ?? null);
+    move(escrow.id, getSpentStatus(escrow));
+    result.unlocked++;
+    return;
+  }
+
+  const signTtlMs = escrow.threshold ? options.approvalTtlMs : options.signTtlMs;
+  const abandoned =
+    (escrow.status === TX_STATUS.SIGN_UNLOCK && age >= signTtlMs) ||
+    (escrow.status === TX_STATUS.UNLOCK_PENDING && age >= options.pendingTtlMs);
+  if (abandoned) {
+    clearUnlockRequest(escrow.id);
+    move(escrow.id, escrow.dispute ? TX_STATUS.DISPUTED : TX_STATUS.CONFIRMED);
+    result.released++;
+  }
+}
@@ -0,0 +1,193 @@
+// Timeouts, retries with backoff and a circuit breaker for calls to upstream HTTP services
+
+export interface RetryPolicy {
+  timeoutMs: number;    // Abort a single attempt after this long
+  maxRetries: number;   // Extra attempts after the first
+  baseDelayMs: number;  // Backoff before the first retry; doubles each time
+  maxDelayMs: number;   // Cap on any single wait, including Retry-After
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 15_000,
+  maxRetries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10_000,
+};
+
+/**
+ * Which failures may be retried
+ * - idempotent: any timeout, network error, 429 or 5xx; the call can safely run twice
+ * - unsent: only failures where the upstream certainly didn't act on the request
+ *   (connection refused, 429, 503), so non-idempotent calls like submit are never repeated blindly
+ */
+export type RetryMode = 'idempotent' | 'unsent';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;  // Consecutive failures that open the circuit
+  resetTimeoutMs: number;    // Time the circuit stays open before one trial call is let through
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+// Thrown without calling the upstream while its circuit is open
+export class CircuitOpenError extends Error {
+  constructor(public readonly service: string, public readonly retryAt: number) {
+    super(`${service} is unavailable; retry after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Thrown when an attempt runs past the policy timeout
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Tracks consecutive failures of one upstream service
+ * Closed: calls go through. Open: calls fail fast until the reset timeout passes.
+ * Half-open: one trial call goes through; success closes the circuit, failure re-opens it
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly service: string,
+    private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+  ) {}
+
+  // Throws CircuitOpenError when the call shouldn't be attempted
+  beforeCall(now: number = Date.now()) {
+    if (this.openedAt == null) return;
+
+    const retryAt = this.openedAt + this.options.resetTimeoutMs;
+    if (now < retryAt || this.trialInFlight) {
+      throw new CircuitOpenError(this.service, Math.max(retryAt, now));
+    }
+    this.trialInFlight = true;
+  }
+
+  recordSuccess() {
+    if (this.openedAt != null) {
+      console.info(`${this.service} circuit closed`);
+    }
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()) {
+    this.failures++;
+    const reopening = this.trialInFlight;
+    this.trialInFlight = false;
+    if (reopening || this.failures >= this.options.failureThreshold) {
+      if (this.openedAt == null || reopening) {
+        console.warn(`${this.service} circuit opened after ${this.failures} consecutive failures`);
+      }
+      this.openedAt = now;
+    }
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Full jitter: a random wait up to the exponential backoff, so clients don't retry in lockstep
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Wait requested by a Retry-After header, in seconds or as an HTTP date
+ * @returns Milliseconds, or null when the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  if (/^\d+$/.test(header.trim())) {
+    return Number(header.trim()) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+function isRetryableStatus(status: number, mode: RetryMode): boolean {
+  if (status === 429 || status === 503) return true;
+  return mode === 'idempotent' && status >= 500;
+}
+
+// Network errors raised before any response; a refused connection never reached the upstream
+function isRetryableError(error: unknown, mode: RetryMode): boolean {
+  if (error instanceof TimeoutError) return mode === 'idempotent';
+  const code = (error as { cause?: { code?: string } })?.cause?.code;
+  if (code === 'ECONNREFUSED' || code === 'ENOTFOUND' || code === 'EAI_AGAIN') return true;
+  return mode === 'idempotent' && error instanceof TypeError;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) throw new TimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch with a per-attempt timeout, jittered exponential retries and Retry-After support
+ * Responses that won't be retried (including 4xx) are returned for the caller to handle.
+ * Every call logs its outcome, retry count and latency under the given context
+ */
+export async function resilientFetch(
+  url: string,
+  init: RequestInit,
+  options: { context: string; mode: RetryMode; policy: RetryPolicy; breaker?: CircuitBreaker }
+): Promise<Response> {
+  const { context, mode, policy, breaker } = options;
+  const started = Date.now();
+  breaker?.beforeCall(started);
+
+  for (let attempt = 0; ; attempt++) {
+    const attemptStarted = Date.now();
+    let response: Response | null = null;
+    let error: unknown = null;
+    try {
+      response = await fetchWithTimeout(url, init, policy.timeoutMs);
+    } catch (err) {
+      error = err;
+    }
+
+    const retryable = response ? isRetryableStatus(response.status, mode) : isRetryableError(error, mode);
+    const outcome = response ? String(response.status) : (error instanceof Error ? error.message : String(error));
+
+    if (!retryable || attempt >= policy.maxRetries) {
+      const failed = error != null || (response != null && (response.status === 429 || response.status >= 500));
+      if (failed) breaker?.recordFailure();
+      else breaker?.recordSuccess();
+
+      const log = failed ? console.warn : console.info;
+      log(`${context}: ${outcome} in ${Date.now() - started}ms after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`);
+      if (error != null) throw error;
+      return response!;
+    }
+
+    const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+    const delay = Math.min(retryAfter ?? backoffDelay(attempt, policy), policy.maxDelayMs);
+    console.warn(
+      `${context}: attempt ${attempt + 1} failed (${outcome}) in ${Date.now() - attemptStarted}ms, retrying in ${delay}ms`
+    );
+    // Drain the body so the connection can be reused
+    await response?.body?.cancel().catch(() => {});
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,173 @@
+// Minimal runtime schemas for validating untrusted JSON, with the parsed TypeScript type inferred
+
+// One problem found while parsing, located by a dotted path such as `entries.2.amount`
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// Thrown by Schema.parse with every problem found in the input
+export class SchemaError extends Error {
+  constructor(public readonly issues: SchemaIssue[]) {
+    super(issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; '));
+    this.name = 'SchemaError';
+  }
+}
+
+export interface Schema<T> {
+  // Validate and return the value, or throw a SchemaError
+  parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Fields that accept undefined become optional properties
+type OptionalKeys<T> = { [K in keyof T]: undefined extends T[K] ? K : never }[keyof T];
+type ObjectType<T> = { [K in Exclude<keyof T, OptionalKeys<T>>]: T[K] } & { [K in OptionalKeys<T>]?: T[K] };
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// Reject a value, for schemas written by hand
+export function invalid(path: string, message: string): never {
+  throw new SchemaError([{ path, message }]);
+}
+
+const joinPath = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+export function string(options: { pattern?: RegExp; maxLength?: number; description?: string } = {}): Schema<string> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'string' || value.length === 0) {
+        invalid(path, 'is required');
+      }
+      if (options.maxLength != null && value.length > options.maxLength) {
+        invalid(path, `must be at most ${options.maxLength} characters`);
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        invalid(path, `must be ${options.description ?? `a string matching ${options.pattern}`}`);
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Whole number in a range; rejects strings, fractions and anything beyond safe integer precision
+ */
+export function integer(options: { min?: number; max?: number } = {}): Schema<number> {
+  const min = options.min ?? Number.MIN_SAFE_INTEGER;
+  const max = options.max ?? Number.MAX_SAFE_INTEGER;
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+        invalid(path, 'must be a whole number');
+      }
+      if (value < min || value > max) {
+        invalid(path, `must be between ${min} and ${max}`);
+      }
+      return value;
+    },
+  };
+}
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return {
+    parse(value, path = '') {
+      if (!values.includes(value as T)) {
+        invalid(path, `must be one of ${values.join(', ')}`);
+      }
+      return value as T;
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(value, path = '') {
+      return value === undefined || value === null ? undefined : schema.parse(value, path);
+    },
+  };
+}
+
+// Fall back to a default when the field is missing
+export function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    parse(value, path = '') {
+      return value === undefined || value === null ? fallback : schema.parse(value, path);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, path = '') {
+      if (!Array.isArray(value)) {
+        invalid(path, 'must be a list');
+      }
+      if (options.min != null && value.length < options.min) {
+        invalid(path, `must have at least ${options.min} item${options.min === 1 ? '' : 's'}`);
+      }
+      if (options.max != null && value.length > options.max) {
+        invalid(path, `must have at most ${options.max} items`);
+      }
+
+      // Report every bad item rather than stopping at the first
+      const issues: SchemaIssue[] = [];
+      const items = value.map((entry, i) => {
+        try {
+          return item.parse(entry, joinPath(path, i));
+        } catch (error) {
+          if (!(error instanceof SchemaError)) throw error;
+          issues.push(...error.issues);
+          return undefined as T;
+        }
+      });
+      if (issues.length > 0) throw new SchemaError(issues);
+      return items;
+    },
+  };
+}
+
+/**
+ * Object with the given fields; unknown fields are dropped
+ */
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<Simplify<ObjectType<{ [K in keyof S]: Infer<S[K]> }>>> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        invalid(path, 'must be an object');
+      }
+
+      const issues: SchemaIssue[] = [];
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        try {
+          result[key] = field.parse((value as Record<string, unknown>)[key], joinPath(path, key));
+        } catch (error) {
+          if (!(error instanceof SchemaError)) throw error;
+          issues.push(...error.issues);
+        }
+      }
+      if (issues.length > 0) throw new SchemaError(issues);
+      return result as Simplify<ObjectType<{ [K in keyof S]: Infer<S[K]> }>>;
+    },
+  };
+}
+
+/**
+ * Add a check across fields once the value itself has parsed
+ * @param check - Returns an issue (path relative to the value) or null when valid
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => SchemaIssue | null): Schema<T> {
+  return {
+    parse(value, path = '') {
+      const parsed = schema.parse(value, path);
+      const issue = check(parsed);
+      if (issue) {
+        invalid(issue.path ? joinPath(path, issue.path) : path, issue.message);
+      }
+      return parsed;
+    },
+  };
+}
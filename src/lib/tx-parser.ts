@@ -0,0 +1,178 @@
+import { bytesToHex, CborTag, CborValue, decodeCbor, readCborArrayItems } from './cbor';
+import { blake2b } from './blake2b';
+import { decodeBech32 } from './bech32';
+import { decodeVestingTerms } from './escrow';
+import { VestingSchedule } from './types';
+
+// Payment part of a Shelley address
+export interface PaymentCredential {
+  type: 'key' | 'script';
+  hash: string;  // Hex encoded 28 byte key hash or script hash
+}
+
+// Output of a transaction body, reduced to the fields the escrow needs
+export interface ParsedTxOutput {
+  index: number;
+  address: string;  // Hex encoded address bytes
+  paymentCredential: PaymentCredential | null;
+  inlineDatum: CborValue | null;
+}
+
+/**
+ * Extract the payment credential from raw address bytes
+ * Byron and reward addresses have no payment credential
+ */
+export function getPaymentCredential(address: Uint8Array): PaymentCredential | null {
+  const type = address[0] >> 4;
+  if (type > 7 || address.length < 29) return null;
+  return {
+    // Odd address types carry a script hash as payment part
+    type: type & 1 ? 'script' : 'key',
+    hash: bytesToHex(address.slice(1, 29)),
+  };
+}
+
+/**
+ * Extract the payment credential from a bech32 address
+ * @returns null for malformed addresses and addresses without a payment part
+ */
+export function getAddressPaymentCredential(address: string): PaymentCredential | null {
+  try {
+    return getPaymentCredential(decodeBech32(address).bytes);
+  } catch {
+    return null;
+  }
+}
+
+// Fields of the escrow datum, Plutus constructor 0 of
+// [depositor, beneficiary, deadline, refundAfter, signers, threshold, arbiter, milestones, vesting]
+// Escrows locked before deadlines, approvals, arbiters, milestones or vesting existed carry fewer fields
+export interface EscrowDatum {
+  depositor: string;            // Hex encoded payment key hash
+  beneficiary: string | null;
+  deadline: number | null;      // POSIX ms
+  refundAfter: number | null;
+  signers: string[];            // Approver key hashes of a multi-signature escrow
+  threshold: number | null;     // Approvals needed to unlock; null when approvals aren't required
+  arbiter: string | null;       // Key hash that settles disputes; empty bytes when there is none
+  milestones: number[];         // Lovelace of each stage still to be released, in order
+  vesting: VestingSchedule | null; // Stored as an empty list when the escrow doesn't vest
+}
+
+const PLUTUS_CONSTR_0 = 121;
+
+const readKeyHash = (field: CborValue): string | null =>
+  field instanceof Uint8Array && field.length === 28 ? bytesToHex(field) : null;
+
+const readInteger = (field: CborValue): number | null =>
+  typeof field === 'number' || typeof field === 'bigint' ? Number(field) : null;
+
+// List items that parse, skipping the rest; anything but a list reads as empty
+const readList = <T>(field: CborValue, read: (item: CborValue) => T | null): T[] =>
+  Array.isArray(field) ? field.map(read).filter((item): item is T => item != null) : [];
+
+/**
+ * Read the escrow fields from a decoded inline datum
+ * @returns null when the datum doesn't have the escrow shape
+ */
+export function decodeEscrowDatum(datum: CborValue): EscrowDatum | null {
+  if (!(datum instanceof CborTag) || datum.tag !== PLUTUS_CONSTR_0 || !Array.isArray(datum.value)) {
+    return null;
+  }
+  const [depositor, beneficiary, deadline, refundAfter, signers, threshold, arbiter, milestones, vesting] = datum.value;
+  const depositorKeyHash = readKeyHash(depositor);
+  if (!depositorKeyHash) return null;
+
+  // Contracts with approvals store a threshold of 0 for escrows that don't need them
+  const approvals = threshold === undefined ? null : readInteger(threshold);
+  return {
+    depositor: depositorKeyHash,
+    beneficiary: beneficiary === undefined ? null : readKeyHash(beneficiary),
+    deadline: deadline === undefined ? null : readInteger(deadline),
+    refundAfter: refundAfter === undefined ? null : readInteger(refundAfter),
+    signers: readList(signers, readKeyHash),
+    threshold: approvals ? approvals : null,
+    arbiter: arbiter === undefined ? null : readKeyHash(arbiter),
+    milestones: readList(milestones, readInteger),
+    vesting: decodeVestingTerms(readList(vesting, readInteger)),
+  };
+}
+
+// Inline datums are stored as `[1, #6.24(bytes .cbor data)]`
+function readInlineDatum(datumOption: CborValue): CborValue | null {
+  if (!Array.isArray(datumOption) || datumOption[0] !== 1) return null;
+  const wrapped = datumOption[1];
+  if (wrapped instanceof CborTag && wrapped.value instanceof Uint8Array) {
+    return decodeCbor(wrapped.value);
+  }
+  return null;
+}
+
+function parseOutput(output: CborValue, index: number): ParsedTxOutput {
+  // Legacy outputs are arrays, post-Alonzo outputs are maps keyed by field number
+  const address = output instanceof Map ? output.get(0) : Array.isArray(output) ? output[0] : null;
+  if (!(address instanceof Uint8Array)) {
+    throw new Error(`Transaction output ${index} has no address`);
+  }
+  const datumOption = output instanceof Map ? output.get(2) : null;
+
+  return {
+    index,
+    address: bytesToHex(address),
+    paymentCredential: getPaymentCredential(address),
+    inlineDatum: datumOption ? readInlineDatum(datumOption) : null,
+  };
+}
+
+/**
+ * Decode the outputs of a CBOR encoded transaction
+ */
+export function getTxOutputs(txCbor: string): ParsedTxOutput[] {
+  const tx = decodeCbor(txCbor);
+  const body = Array.isArray(tx) ? tx[0] : null;
+  if (!(body instanceof Map)) {
+    throw new Error('Invalid transaction: missing body');
+  }
+  const outputs = body.get(1);
+  if (!Array.isArray(outputs)) {
+    throw new Error('Invalid transaction: missing outputs');
+  }
+  return outputs.map(parseOutput);
+}
+
+/**
+ * Network fee of a CBOR encoded transaction in lovelace, as set in its body by the builder
+ */
+export function getTxFee(txCbor: string): number {
+  const tx = decodeCbor(txCbor);
+  const body = Array.isArray(tx) ? tx[0] : null;
+  const fee = body instanceof Map ? body.get(2) : null;
+  if (typeof fee !== 'number' && typeof fee !== 'bigint') {
+    throw new Error('Invalid transaction: missing fee');
+  }
+  return Number(fee);
+}
+
+/**
+ * Hash of a CBOR encoded transaction: BLAKE2b-256 of its body as encoded
+ * Witnesses aren't part of the body, so signed and unsigned copies share the hash
+ */
+export function getTxHash(txCbor: string): string {
+  const [body] = readCborArrayItems(txCbor);
+  if (!body) {
+    throw new Error('Invalid transaction: missing body');
+  }
+  return bytesToHex(blake2b(body, 32));
+}
+
+/**
+ * Find the indexes of outputs paying to the given script hash
+ */
+export function findScriptOutputIndexes(txCbor: string, scriptHash: string): number[] {
+  return getTxOutputs(txCbor)
+    .filter(output =>
+      output.paymentCredential?.type === 'script' &&
+      output.paymentCredential.hash === scriptHash.toLowerCase()
+    )
+    .map(output => output.index);
+}
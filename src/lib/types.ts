@@ -1,19 +1,162 @@
 // Transaction status constants
 export const TX_STATUS = {
-  PENDING: 'pending' as const,
-  SIGN_LOCK: 'signLock' as const,
-  SIGN_UNLOCK: 'signUnlock' as const,
-  CONFIRMED: 'confirmed' as const,
-  UNLOCKED: 'unlocked' as const,
+  SIGN_LOCK: 'signLock' as const,       // Lock tx built, waiting for the wallet signature
+  PENDING: 'pending' as const,          // Lock tx submitted, waiting for the chain
+  CONFIRMING: 'confirming' as const,    // Lock tx is in a block, waiting for enough blocks on top
+  CONFIRMED: 'confirmed' as const,      // Escrow UTxO is on-chain at the required depth
+  SIGN_UNLOCK: 'signUnlock' as const,   // Unlock tx built, waiting for the wallet signature
+  UNLOCK_PENDING: 'unlockPending' as const, // Unlock tx submitted, waiting for the chain
+  UNLOCKED: 'unlocked' as const,        // Unlock tx confirmed on-chain
+  DISPUTED: 'disputed' as const,        // A party raised a dispute; only the arbiter can unlock
+  RESOLVED: 'resolved' as const,        // Arbiter's resolution tx confirmed on-chain
+  FAILED: 'failed' as const,            // Submission or validation failed
+  EXPIRED: 'expired' as const,          // Never signed or confirmed in time
+  ROLLED_BACK: 'rolledBack' as const,   // Lock tx dropped from the chain by a rollback
 } as const;
 
 // Create a type from the values
 export type TransactionStatus = typeof TX_STATUS[keyof typeof TX_STATUS];
 
+// Allowed status transitions; anything else is rejected
+export const TX_TRANSITIONS: Record<TransactionStatus, readonly TransactionStatus[]> = {
+  [TX_STATUS.SIGN_LOCK]: [
+    TX_STATUS.PENDING, TX_STATUS.CONFIRMING, TX_STATUS.CONFIRMED, TX_STATUS.FAILED, TX_STATUS.EXPIRED,
+  ],
+  [TX_STATUS.PENDING]: [
+    TX_STATUS.CONFIRMING, TX_STATUS.CONFIRMED, TX_STATUS.FAILED, TX_STATUS.EXPIRED, TX_STATUS.ROLLED_BACK,
+  ],
+  [TX_STATUS.CONFIRMING]: [TX_STATUS.CONFIRMED, TX_STATUS.ROLLED_BACK],
+  [TX_STATUS.CONFIRMED]: [TX_STATUS.SIGN_UNLOCK, TX_STATUS.UNLOCKED, TX_STATUS.DISPUTED, TX_STATUS.ROLLED_BACK],
+  // An unsigned unlock can be abandoned, returning the escrow to confirmed, or to disputed
+  // for an arbiter's resolution; a party's unsigned unlock is dropped when a dispute is raised
+  [TX_STATUS.SIGN_UNLOCK]: [
+    TX_STATUS.UNLOCK_PENDING, TX_STATUS.UNLOCKED, TX_STATUS.RESOLVED, TX_STATUS.CONFIRMED, TX_STATUS.DISPUTED,
+    TX_STATUS.ROLLED_BACK,
+  ],
+  // A dropped unlock tx leaves the escrow UTxO spendable again
+  [TX_STATUS.UNLOCK_PENDING]: [
+    TX_STATUS.UNLOCKED, TX_STATUS.RESOLVED, TX_STATUS.CONFIRMED, TX_STATUS.DISPUTED, TX_STATUS.ROLLED_BACK,
+  ],
+  // An unlock tx in a rolled back block waits to be included again
+  [TX_STATUS.UNLOCKED]: [TX_STATUS.UNLOCK_PENDING],
+  [TX_STATUS.DISPUTED]: [TX_STATUS.SIGN_UNLOCK, TX_STATUS.UNLOCKED, TX_STATUS.RESOLVED, TX_STATUS.ROLLED_BACK],
+  [TX_STATUS.RESOLVED]: [TX_STATUS.UNLOCK_PENDING],
+  [TX_STATUS.FAILED]: [],
+  // An expired lock may still be submitted late or turn up on-chain after all
+  [TX_STATUS.EXPIRED]: [TX_STATUS.PENDING, TX_STATUS.CONFIRMING, TX_STATUS.CONFIRMED],
+  // A rolled back lock may be re-included in a later block
+  [TX_STATUS.ROLLED_BACK]: [TX_STATUS.PENDING, TX_STATUS.CONFIRMING, TX_STATUS.CONFIRMED],
+};
+
+/**
+ * Check whether a row may move from one status to another
+ */
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return TX_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Who caused a status transition
+export const TX_EVENT_SOURCE = {
+  API: 'api' as const,
+  WEBHOOK: 'webhook' as const,
+  RECONCILER: 'reconciler' as const,
+} as const;
+
+export type TransactionEventSource = typeof TX_EVENT_SOURCE[keyof typeof TX_EVENT_SOURCE];
+
+// One entry of an escrow's status history
+export type TransactionEvent = {
+  id: number;
+  escrowId: string;
+  fromStatus: TransactionStatus | null;  // null when the row was created
+  toStatus: TransactionStatus;
+  source: TransactionEventSource;
+  timestamp: number;
+};
+
+// Native token locked alongside lovelace (CIP-25 NFTs, CIP-68 tokens, etc.)
+export type EscrowAsset = {
+  policyId: string;   // Hex encoded minting policy ID
+  assetName: string;  // Hex encoded asset name
+  quantity: number;
+};
+
+// How the arbiter settles a dispute: everything to the beneficiary, everything back, or a split
+export type EscrowResolution = 'release' | 'refund' | 'split';
+
+// Dispute raised by either party of an escrow that names an arbiter
+export type Dispute = {
+  raisedBy: string;                 // Wallet of the party who raised it
+  reason: string;
+  evidence: string[];               // Links to supporting documents
+  raisedAt: number;                 // Unix ms
+  resolution: EscrowResolution | null;  // Set once the arbiter builds the resolution tx
+  beneficiaryAmount: number | null; // Lovelace paid to the beneficiary; the rest goes back to the depositor
+  resolvedAt: number | null;
+};
+
+// One stage of a milestone escrow, paid to the beneficiary when the depositor releases it
+export type Milestone = {
+  amount: number;                // Lovelace paid out for this stage
+  releaseTxHash: string | null;  // Tx that paid it, set on the escrow that carries the rest
+};
+
+// Schedule a vesting escrow unlocks its funds to the beneficiary on
+export type VestingSchedule = {
+  kind: 'linear' | 'monthly';  // Vests continuously, or in equal steps every VESTING_MONTH_MS
+  total: number;  // Lovelace vesting over the whole schedule
+  start: number;  // Unix ms vesting starts
+  cliff: number;  // Unix ms before which nothing can be claimed; what vested until then unlocks at once
+  end: number;    // Unix ms everything has vested
+};
+
 export type Transaction = {
+  id: string;                  // Escrow UTxO reference, `${txHash}#${outputIndex}`
   txHash: string;
-  wallet: string;
+  outputIndex: number;         // Index of the escrow output in the lock tx
+  spent: boolean;              // Set once the escrow UTxO has been consumed on-chain
+  wallet: string;              // Depositor who funded the escrow
+  beneficiary: string | null;  // Address allowed to claim the escrow
   amount: number;
+  assets: EscrowAsset[];       // Native tokens locked in addition to the lovelace amount
   status: TransactionStatus;
-  timestamp: number;
+  timestamp: number;           // Unix ms the escrow row was created
+  confirmedAt: number | null;  // Unix ms the lock tx was confirmed on-chain
+  blockHeight: number | null;  // Height of the block that includes the lock tx
+  confirmations: number;       // Blocks on top of the lock tx, counting its own
+  requiredConfirmations: number; // Depth at which the escrow is promoted to confirmed
+  unlockTxHash: string | null; // Claim or refund tx that spends the escrow UTxO
+  unlockedBy: string | null;   // Wallet that built the claim or refund tx
+  unlockConfirmedAt: number | null; // Unix ms the unlock tx was confirmed on-chain
+  unlockBlockHeight: number | null; // Height of the block that includes the unlock tx, when known
+  updatedAt: number | null;    // Unix ms of the last status change
+  history: TransactionEvent[]; // Status transitions, oldest first
+  deadline: number | null;     // Unix ms after which the beneficiary can claim
+  refundAfter: number | null;  // Unix ms after which the depositor can reclaim
+  validatorHash: string | null; // Escrow contract version holding the UTxO; null if unknown
+  signers: string[];           // Approver key hashes of a multi-signature escrow; empty otherwise
+  threshold: number | null;    // Approvals needed to unlock; null when none are required
+  arbiter: string | null;      // Address that settles disputes; null when disputes aren't possible
+  dispute: Dispute | null;     // Open or settled dispute, if one was raised
+  milestones: Milestone[];     // Payment stages, in release order; empty for single-payment escrows
+  vesting: VestingSchedule | null; // Schedule the beneficiary claims on; the amount is what hasn't been claimed
+  parentEscrowId: string | null; // Escrow whose milestone release or vesting claim left this output
+};
+
+// Terms chosen by the depositor when locking funds
+export type EscrowTerms = {
+  beneficiaryAddress: string;
+  deadline: number;     // Unix ms release deadline
+  refundAfter: number;  // Unix ms end of the beneficiary's grace period
+  signers?: string[];   // Approver addresses of a multi-signature escrow
+  threshold?: number;   // Approvals needed to unlock, out of the signers
+  arbiterAddress?: string;  // Wallet that settles disputes
+  milestones?: number[];    // Lovelace per stage, summing to the locked amount
+  vesting?: VestingSchedule;  // Vests the locked amount, ending at the deadline
+};
+
+// One escrow in a batch lock transaction
+export type BatchLockEntry = EscrowTerms & {
+  adaAmount: number;
+  assets?: EscrowAsset[];
 };
@@ -0,0 +1,191 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { checkPlutusRecord, getConstructorFields, PlutusRecord, readBlueprint } from './blueprint';
+import type { PartyAction } from './escrow';
+
+// Datum layout escrows are locked with, and the order decodeEscrowDatum reads
+// Contracts may stop after refundAfter, in which case they don't support approvals, an arbiter,
+// milestones or vesting
+const ESCROW_DATUM_FIELDS = [
+  'depositor', 'beneficiary', 'deadline', 'refundAfter', 'signers', 'threshold', 'arbiter', 'milestones', 'vesting',
+];
+const BASE_DATUM_FIELD_COUNT = 4;
+
+// ESCROW_VALIDATOR_HASH is the Hello World contract escrows were locked to before the registry: its datum
+// only names an owner, who may unlock at any time with this message on either path
+const HELLO_WORLD_DATUM_FIELDS = ['owner'];
+const HELLO_WORLD_REDEEMER: PlutusRecord = { msg: Buffer.from('Hello, World!', 'utf8').toString('hex') };
+
+// Redeemer for each spending path; `resolve` is required by contracts with an arbiter
+// and gets the lovelace paid to the beneficiary added as `beneficiaryAmount`, `release` by contracts
+// with milestones, and `vest` by contracts with vesting schedules
+export type EscrowRedeemers = Record<PartyAction, PlutusRecord> & {
+  resolve?: PlutusRecord;
+  release?: PlutusRecord;
+  vest?: PlutusRecord;
+};
+
+// Escrow contract version that funds can be locked to or unlocked from
+export interface EscrowValidator {
+  hash: string;
+  title: string;            // Blueprint validator title, or `legacy` for ESCROW_VALIDATOR_HASH
+  version: string | null;   // Blueprint preamble version
+  datumFields: string[];    // Datum constructor fields, in order
+  redeemers: EscrowRedeemers;
+  compiledCode: string | null;  // CBOR hex of the Plutus script; unknown for ESCROW_VALIDATOR_HASH
+}
+
+// Whether new escrows can be locked for a beneficiary at this validator; the Hello World contract only unlocks
+export const supportsBeneficiary = (validator: EscrowValidator) => validator.datumFields.includes('beneficiary');
+
+// Whether escrows at this validator can require M-of-N approvals
+export const supportsApprovals = (validator: EscrowValidator) => validator.datumFields.includes('threshold');
+
+// Whether escrows at this validator can name an arbiter to settle disputes
+export const supportsArbiter = (validator: EscrowValidator) => validator.datumFields.includes('arbiter');
+
+// Whether escrows at this validator can be released in milestones
+export const supportsMilestones = (validator: EscrowValidator) => validator.datumFields.includes('milestones');
+
+// Whether escrows at this validator can vest on a schedule
+export const supportsVesting = (validator: EscrowValidator) => validator.datumFields.includes('vesting');
+
+// Contents of the ESCROW_CONTRACTS file; blueprint paths are relative to it
+interface RegistryFile {
+  active?: string;  // Hash of the validator new escrows lock to; defaults to the last listed
+  validators: {
+    blueprint: string;
+    title: string;
+    redeemers: EscrowRedeemers;
+  }[];
+}
+
+interface ValidatorRegistry {
+  active: EscrowValidator;
+  validators: Map<string, EscrowValidator>;  // By hash
+}
+
+let registry: ValidatorRegistry | null = null;
+
+const legacyValidator = (hash: string): EscrowValidator => ({
+  hash: hash.toLowerCase(),
+  title: 'legacy',
+  version: null,
+  datumFields: HELLO_WORLD_DATUM_FIELDS,
+  redeemers: { claim: HELLO_WORLD_REDEEMER, refund: HELLO_WORLD_REDEEMER },
+  compiledCode: null,
+});
+
+function loadValidator(baseDir: string, entry: RegistryFile['validators'][number]): EscrowValidator {
+  const path = resolve(baseDir, entry.blueprint);
+  const blueprint = readBlueprint(path);
+  const validator = blueprint.validators.find(v => v.title === entry.title);
+  if (!validator) {
+    throw new Error(`Validator ${entry.title} not found in ${path}`);
+  }
+  const context = `${entry.title} (${path})`;
+  if (!validator.datum) {
+    throw new Error(`${context} is not a spending validator with a datum`);
+  }
+
+  // Escrows are only recognised by the datum layout, so older versions may only drop trailing fields
+  const datumFields = getConstructorFields(blueprint, validator.datum.schema);
+  if (datumFields.some((field, i) => field !== ESCROW_DATUM_FIELDS[i])) {
+    throw new Error(`${context} datum must have the fields ${ESCROW_DATUM_FIELDS.join(', ')} in order`);
+  }
+
+  const actions: (keyof EscrowRedeemers)[] = ['claim', 'refund'];
+  if (datumFields.includes('arbiter')) actions.push('resolve');
+  if (datumFields.includes('milestones')) actions.push('release');
+  if (datumFields.includes('vesting')) actions.push('vest');
+  for (const action of actions) {
+    const redeemer = entry.redeemers?.[action];
+    if (!redeemer) {
+      throw new Error(`${context} has no ${action} redeemer`);
+    }
+    try {
+      // The payout is only known when a dispute is resolved
+      checkPlutusRecord(
+        blueprint,
+        validator.redeemer.schema,
+        action === 'resolve' ? { ...redeemer, beneficiaryAmount: 0 } : redeemer
+      );
+    } catch (error) {
+      throw new Error(`${context} ${action} redeemer doesn't match its schema: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    hash: validator.hash.toLowerCase(),
+    title: validator.title,
+    version: blueprint.preamble.version,
+    datumFields,
+    redeemers: entry.redeemers,
+    compiledCode: validator.compiledCode,
+  };
+}
+
+function loadRegistry(): ValidatorRegistry {
+  const registryPath = process.env.ESCROW_CONTRACTS;
+  const legacyHash = process.env.ESCROW_VALIDATOR_HASH;
+
+  if (!registryPath) {
+    if (!legacyHash) {
+      throw new Error('Escrow validator hash not found');
+    }
+    const active = legacyValidator(legacyHash);
+    return { active, validators: new Map([[active.hash, active]]) };
+  }
+
+  const path = resolve(registryPath);
+  const file = JSON.parse(readFileSync(path, 'utf8')) as RegistryFile;
+  if (!Array.isArray(file.validators) || file.validators.length === 0) {
+    throw new Error(`${path} lists no validators`);
+  }
+  const listed = file.validators.map(entry => loadValidator(dirname(path), entry));
+  const validators = new Map(listed.map(validator => [validator.hash, validator]));
+
+  // Escrows locked before the registry was introduced stay unlockable
+  if (legacyHash && !validators.has(legacyHash.toLowerCase())) {
+    validators.set(legacyHash.toLowerCase(), legacyValidator(legacyHash));
+  }
+
+  const active = file.active ? validators.get(file.active.toLowerCase()) : listed[listed.length - 1];
+  if (!active) {
+    throw new Error(`Active validator ${file.active} is not listed in ${path}`);
+  }
+  if (active.datumFields.length < BASE_DATUM_FIELD_COUNT) {
+    throw new Error(`Active validator ${active.title} must take at least ${ESCROW_DATUM_FIELDS.slice(0, BASE_DATUM_FIELD_COUNT).join(', ')}`);
+  }
+  return { active, validators };
+}
+
+// Loaded on first use, so a misconfiguration fails the request rather than the build
+function getRegistry(): ValidatorRegistry {
+  return registry ??= loadRegistry();
+}
+
+/**
+ * Validator new escrows are locked to
+ * @throws When neither ESCROW_CONTRACTS nor ESCROW_VALIDATOR_HASH is configured
+ */
+export function getActiveValidator(): EscrowValidator {
+  return getRegistry().active;
+}
+
+/**
+ * Registered validator by hash
+ * @throws When the hash isn't registered
+ */
+export function getValidator(hash: string): EscrowValidator {
+  const validator = getRegistry().validators.get(hash.toLowerCase());
+  if (!validator) {
+    throw new Error(`Unknown escrow validator ${hash}`);
+  }
+  return validator;
+}
+
+// Hashes of every registered validator, whose outputs are escrows
+export function getValidatorHashes(): string[] {
+  return [...getRegistry().validators.keys()];
+}
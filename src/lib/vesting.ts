@@ -0,0 +1,68 @@
+import { PartialRelease } from './anvil-api';
+import { API_ERROR_CODE, ApiError } from './api-errors';
+import { getTxById } from './db';
+import { getMinVestingRemainder, getVestingClaim, MIN_PAYOUT_LOVELACE } from './escrow';
+import { getEscrowDatum, getKeyHash } from './escrow-access';
+import { Transaction } from './types';
+
+/**
+ * Look up a vesting escrow and check the signed-in wallet may claim from it at the given time
+ * Only the beneficiary, matched by payment key hash like the validator does
+ * @returns The escrow and the most lovelace that can be claimed
+ * @throws ApiError with not_found, already_spent, forbidden or invalid_transition
+ */
+export function resolveVestingEscrow(
+  escrowId: string,
+  wallet: string,
+  at: number
+): { escrow: Transaction; claimable: number } {
+  const escrow = getTxById(escrowId);
+  if (!escrow) {
+    throw new ApiError(API_ERROR_CODE.NOT_FOUND, `Escrow ${escrowId} not found`, 404);
+  }
+  if (escrow.spent) {
+    throw new ApiError(API_ERROR_CODE.ALREADY_SPENT, `Escrow ${escrowId} has already been spent`, 409);
+  }
+
+  const callerKeyHash = getKeyHash(wallet);
+  if (callerKeyHash == null || getKeyHash(escrow.beneficiary) !== callerKeyHash) {
+    throw new ApiError(API_ERROR_CODE.FORBIDDEN, `Only the beneficiary of escrow ${escrowId} can claim what has vested`, 403);
+  }
+
+  const claimable = getVestingClaim(escrow, at);
+  if (claimable == null) {
+    throw new ApiError(
+      API_ERROR_CODE.INVALID_TRANSITION,
+      escrow.vesting
+        ? `Escrow ${escrowId} is ${escrow.status} and has nothing to claim yet`
+        : `Escrow ${escrowId} doesn't vest`,
+      409
+    );
+  }
+  return { escrow, claimable };
+}
+
+/**
+ * Payout of a vesting claim: the amount to the beneficiary, and the rest back to the contract
+ * under the same datum. Claiming everything once it has all vested pays out the tokens too
+ * @throws ApiError with validation_failed when the amount exceeds the claimable amount or
+ * leaves less than the minimum UTxO value locked
+ */
+export function getVestingRelease(escrow: Transaction, claimable: number, amount: number = claimable): PartialRelease {
+  if (amount === escrow.amount && claimable === escrow.amount) {
+    return { beneficiaryAddress: escrow.beneficiary!, amount, assets: escrow.assets, remaining: null };
+  }
+
+  const maxAmount = Math.min(claimable, escrow.amount - getMinVestingRemainder(escrow));
+  if (amount < MIN_PAYOUT_LOVELACE || amount > maxAmount) {
+    throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Claim is outside what can be claimed now', 400, [
+      { path: 'amount', message: `must be between ${MIN_PAYOUT_LOVELACE} and ${maxAmount} lovelace` },
+    ]);
+  }
+  return {
+    beneficiaryAddress: escrow.beneficiary!,
+    amount,
+    assets: [],
+    remaining: { lovelace: escrow.amount - amount, assets: escrow.assets, datum: getEscrowDatum(escrow) },
+  };
+}
@@ -0,0 +1,30 @@
+import { API_ERROR_CODE, ApiError } from './api-errors';
+import { AddressBalance, getChainStateProvider } from './chain-provider';
+import { getSpendableLovelace } from './escrow';
+
+/**
+ * Check the depositor's wallet can cover the lovelace it locks, keeping back the fee and the
+ * change output as the lock form's cap does, so an overdraft is refused before coin selection
+ * Only the change address is counted, as the build only selects coins from it too
+ * Best effort: wallets the chain state provider has no view of, an unconfigured provider and
+ * provider errors all leave the amount to the build
+ * @param path - Field the issue is reported on
+ * @throws ApiError with validation_failed when the amount is more than the wallet can spend
+ */
+export async function checkSpendable(address: string, amount: number, path: string = 'amount'): Promise<void> {
+  let balance: AddressBalance | null;
+  try {
+    balance = await getChainStateProvider().getAddressBalance(address);
+  } catch (error: unknown) {
+    console.warn('Skipping the wallet balance check:', error instanceof Error ? error.message : error);
+    return;
+  }
+  if (!balance) return;
+
+  const spendable = getSpendableLovelace(balance.lovelace, balance.assets);
+  if (amount > spendable) {
+    throw new ApiError(API_ERROR_CODE.VALIDATION_FAILED, 'Amount is more than the wallet can spend', 400, [
+      { path, message: `must be at most ${spendable} lovelace, the wallet balance less the fee and change` },
+    ]);
+  }
+}
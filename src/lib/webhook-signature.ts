@@ -0,0 +1,93 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Maximum age of a signed webhook request before it is treated as a replay
+const DEFAULT_TOLERANCE_SECONDS = 600;
+
+// Parsed contents of the Blockfrost-Signature header
+interface SignatureHeader {
+  timestamp: number;    // Unix timestamp (seconds) the request was signed at
+  signatures: string[]; // Hex encoded v1 HMAC-SHA256 signatures
+}
+
+export type SignatureVerification =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Parse a header of the form `t=1648550558,v1=162deb...,v1=...`
+ */
+function parseSignatureHeader(header: string): SignatureHeader | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=');
+    if (!key || !value) continue;
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === 'v1') {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return null;
+  }
+  return { timestamp, signatures };
+}
+
+// Constant-time comparison of two hex encoded digests
+function safeCompareHex(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(actual, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Replay tolerance from configuration, e.g. BLOCKFROST_WEBHOOK_TOLERANCE_SECONDS
+ * Anything but a positive number falls back to the default rather than disabling the check
+ */
+export function parseToleranceSeconds(value: string | undefined): number {
+  const seconds = Number(value);
+  if (!value || !Number.isFinite(seconds) || seconds <= 0) {
+    if (value) console.warn(`Ignoring invalid webhook tolerance "${value}", using ${DEFAULT_TOLERANCE_SECONDS}s`);
+    return DEFAULT_TOLERANCE_SECONDS;
+  }
+  return seconds;
+}
+
+/**
+ * Verify a Blockfrost webhook request against the shared secret
+ * The signed payload is `${timestamp}.${rawBody}`, hashed with HMAC-SHA256
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  header: string | null,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): SignatureVerification {
+  if (!header) {
+    return { valid: false, reason: 'Missing Blockfrost-Signature header' };
+  }
+
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return { valid: false, reason: 'Malformed Blockfrost-Signature header' };
+  }
+
+  const age = Math.abs(Math.floor(now / 1000) - parsed.timestamp);
+  if (age > toleranceSeconds) {
+    return { valid: false, reason: 'Signature timestamp outside of tolerance' };
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`${parsed.timestamp}.${rawBody}`)
+    .digest('hex');
+
+  if (!parsed.signatures.some(sig => safeCompareHex(expected, sig))) {
+    return { valid: false, reason: 'No matching signature' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,38 @@
+import { createPublicKey, verify } from 'crypto';
+import { blake2b } from './blake2b';
+import { bytesToHex, decodeCbor, hexToBytes } from './cbor';
+
+// DER prefix turning a raw 32 byte Ed25519 public key into an SPKI key
+const ED25519_SPKI_PREFIX = hexToBytes('302a300506032b6570032100');
+
+export function verifyEd25519(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+  const key = createPublicKey({
+    key: Buffer.from(Uint8Array.from([...ED25519_SPKI_PREFIX, ...publicKey])),
+    format: 'der',
+    type: 'spki',
+  });
+  return verify(null, message, key, signature);
+}
+
+/**
+ * Payment key hashes whose vkey witness in a CIP-30 witness set validly signs the tx hash
+ * Malformed witnesses are skipped
+ */
+export function getWitnessSigners(witnessSet: string, txHash: string): Set<string> {
+  const decoded = decodeCbor(witnessSet);
+  const vkeyWitnesses = decoded instanceof Map ? decoded.get(0) : null;
+  const signers = new Set<string>();
+  if (!Array.isArray(vkeyWitnesses)) return signers;
+
+  const message = hexToBytes(txHash);
+  for (const witness of vkeyWitnesses) {
+    if (!Array.isArray(witness)) continue;
+    const [publicKey, signature] = witness;
+    if (!(publicKey instanceof Uint8Array) || publicKey.length !== 32 || !(signature instanceof Uint8Array)) continue;
+
+    if (verifyEd25519(publicKey, message, signature)) {
+      signers.add(bytesToHex(blake2b(publicKey, 28)));
+    }
+  }
+  return signers;
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/escrow/approve/route';
+import { POST as submitRoute } from '@/app/api/escrow/submit/route';
+import { POST as unlockRoute } from '@/app/api/escrow/unlock/route';
+import { ApiErrorBody } from '@/lib/api-errors';
+import { SubmitResponse, UnlockResponse } from '@/lib/api-schemas';
+import { getPendingUnlock, getTxById } from '@/lib/db';
+import { EmulatorWallet } from '@/lib/emulator-backend';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { deliverTx, lockEscrow } from '../helpers/escrow';
+import { postRequest, readJson, signIn } from '../helpers/routes';
+
+// Add a wallet's signature to a pending multi-signature unlock
+async function approve(complete: string, txHash: string, wallet: EmulatorWallet) {
+  return readJson<SubmitResponse>(await POST(postRequest('/api/escrow/approve', {
+    txHash,
+    signature: chain().signTransaction(complete, wallet.address),
+  }, { cookie: signIn(wallet.address) })));
+}
+
+describe('POST /api/escrow/approve', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+  const signers = [chain().createWallet(), chain().createWallet(), chain().createWallet()];
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A 2-of-3 escrow, confirmed on-chain and past its deadline
+  async function lockTwoOfThree(blockHeight: number) {
+    const escrow = await lockEscrow(depositor, beneficiary, {
+      signers: signers.map(signer => signer.address),
+      threshold: 2,
+    });
+    await deliverTx(escrow.complete, blockHeight);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(escrow.deadline);
+    return escrow;
+  }
+
+  it('makes the unlocking wallet pick the threshold of approvers', async () => {
+    const { escrowId } = await lockTwoOfThree(300);
+    const cookie = signIn(beneficiary.address);
+
+    const unnamed = await readJson<ApiErrorBody>(await unlockRoute(postRequest('/api/escrow/unlock', {
+      escrowId,
+    }, { cookie })));
+    expect(unnamed.status).toBe(400);
+    expect(unnamed.body.error.issues).toEqual([{ path: 'approvers', message: 'must name 2 of the escrow\'s signers' }]);
+
+    const everyone = await readJson<ApiErrorBody>(await unlockRoute(postRequest('/api/escrow/unlock', {
+      escrowId,
+      approvers: signers.map(signer => signer.keyHash),
+    }, { cookie })));
+    expect(everyone.status).toBe(400);
+    expect(everyone.body.error.code).toBe('validation_failed');
+  });
+
+  it('submits the unlock once the picked approvers have signed, without the other signer', async () => {
+    const { escrowId } = await lockTwoOfThree(301);
+    const [first, second, absent] = signers;
+    const cookie = signIn(beneficiary.address);
+
+    const built = await readJson<UnlockResponse>(await unlockRoute(postRequest('/api/escrow/unlock', {
+      escrowId,
+      approvers: [first.keyHash, second.keyHash],
+    }, { cookie })));
+    expect(built.status).toBe(200);
+    const { complete } = built.body;
+
+    const signed = await readJson<SubmitResponse>(await submitRoute(postRequest('/api/escrow/submit', {
+      complete,
+      signature: chain().signTransaction(complete, beneficiary.address),
+      type: TX_STATUS.SIGN_UNLOCK,
+      originalEscrowIds: [escrowId],
+    }, { cookie })));
+    expect(signed.body.awaitingApprovals).toBe(2);
+    const { txHash } = signed.body;
+
+    // Only the picked approvers are required signers
+    const outsider = await approve(complete, txHash, absent);
+    expect(outsider.status).toBe(403);
+
+    expect((await approve(complete, txHash, first)).body.awaitingApprovals).toBe(1);
+    expect(getTxById(escrowId)?.status).toBe(TX_STATUS.SIGN_UNLOCK);
+
+    const before = chain().getBalance(beneficiary.address).lovelace;
+    const last = await approve(complete, txHash, second);
+    expect(last.status).toBe(200);
+    expect(last.body).toEqual({ txHash, awaitingApprovals: 0 });
+    expect(getTxById(escrowId)?.status).toBe(TX_STATUS.UNLOCK_PENDING);
+    expect(getPendingUnlock(txHash)).toBeNull();
+    expect(chain().getBalance(beneficiary.address).lovelace).toBeGreaterThan(before);
+  });
+});
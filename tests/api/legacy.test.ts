@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { POST as lockRoute } from '@/app/api/escrow/lock/route';
+import { POST as unlockRoute } from '@/app/api/escrow/unlock/route';
+import { POST as submitRoute } from '@/app/api/escrow/submit/route';
+import { ApiErrorBody } from '@/lib/api-errors';
+import { SubmitResponse, UnlockResponse } from '@/lib/api-schemas';
+import { getTxById, upsertWallet } from '@/lib/db';
+import { toEscrowId } from '@/lib/escrow';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { deliverTx, HOUR_MS } from '../helpers/escrow';
+import { postRequest, readJson, signIn } from '../helpers/routes';
+
+// Only the Hello World contract, as configured before the registry; the registry loads on first use
+delete process.env.ESCROW_CONTRACTS;
+const legacyHash = process.env.ESCROW_VALIDATOR_HASH!;
+
+describe('Hello World escrows', () => {
+  const owner = chain().createWallet();
+  const beneficiary = chain().createWallet();
+
+  // Lock funds under `Datum { owner }` as the app did before escrows had a beneficiary
+  async function lockForOwner() {
+    const built = await chain().buildTransaction({
+      changeAddress: owner.address,
+      outputs: [{
+        address: await chain().getScriptAddress(legacyHash),
+        lovelace: 10_000_000,
+        datum: { type: 'inline', value: { owner: owner.keyHash }, shape: { validatorHash: legacyHash, purpose: 'spend' } },
+      }],
+    });
+    await chain().submitTransaction([chain().signTransaction(built.complete, owner.address)], built.complete);
+    return { escrowId: toEscrowId(built.hash, 0), complete: built.complete };
+  }
+
+  it('refuses new locks', async () => {
+    const { status, body } = await readJson<ApiErrorBody>(await lockRoute(postRequest('/api/escrow/lock', {
+      beneficiaryAddress: beneficiary.address,
+      amount: 10_000_000,
+      deadline: Date.now() + HOUR_MS,
+      refundAfter: Date.now() + 2 * HOUR_MS,
+    }, { cookie: signIn(owner.address) })));
+    expect(status).toBe(502);
+    expect(body.error.message).toMatch(/ESCROW_CONTRACTS/);
+  });
+
+  it('lets the owner unlock with the Hello World redeemer', async () => {
+    upsertWallet(owner.address);
+    const { escrowId, complete } = await lockForOwner();
+    await deliverTx(complete, 300);
+    expect(getTxById(escrowId)).toMatchObject({ wallet: owner.address, beneficiary: null, validatorHash: legacyHash });
+
+    const cookie = signIn(owner.address);
+    const built = await readJson<UnlockResponse>(await unlockRoute(postRequest('/api/escrow/unlock', { escrowId }, { cookie })));
+    expect(built.status).toBe(200);
+
+    const before = chain().getBalance(owner.address).lovelace;
+    const submitted = await readJson<SubmitResponse>(await submitRoute(postRequest('/api/escrow/submit', {
+      complete: built.body.complete,
+      signature: chain().signTransaction(built.body.complete, owner.address),
+      type: TX_STATUS.SIGN_UNLOCK,
+      originalEscrowIds: [escrowId],
+    }, { cookie })));
+    expect(submitted.status).toBe(200);
+    expect(chain().getBalance(owner.address).lovelace).toBeGreaterThan(before);
+  });
+
+  it('fails script validation without the owner signature or the message', async () => {
+    const { escrowId } = await lockForOwner();
+    const [txHash, index] = escrowId.split('#');
+    const spend = (signer: string, msg: string) => chain().buildTransaction({
+      changeAddress: beneficiary.address,
+      scriptInteractions: [{
+        hash: legacyHash,
+        purpose: 'spend',
+        outputRef: { txHash, index: Number(index) },
+        redeemer: { type: 'json', value: { msg: Buffer.from(msg, 'utf8').toString('hex') } },
+      }],
+      requiredSigners: [signer],
+    });
+
+    await expect(spend(beneficiary.keyHash, 'Hello, World!')).rejects.toThrow(/not signed by the owner/);
+    await expect(spend(owner.keyHash, 'Hello')).rejects.toThrow(/redeemer message/);
+    await expect(spend(owner.keyHash, 'Hello, World!')).resolves.toHaveProperty('hash');
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/escrow/lock/route';
+import { ApiErrorBody } from '@/lib/api-errors';
+import { LockResponse } from '@/lib/api-schemas';
+import { getTxById } from '@/lib/db';
+import { getSpendableLovelace } from '@/lib/escrow';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { HOUR_MS } from '../helpers/escrow';
+import { postRequest, readJson, signIn } from '../helpers/routes';
+
+describe('POST /api/escrow/lock', () => {
+  const depositor = chain().createWallet(50_000_000);
+  const beneficiary = chain().createWallet();
+
+  const lockBody = () => ({
+    beneficiaryAddress: beneficiary.address,
+    amount: 10_000_000,
+    deadline: Date.now() + HOUR_MS,
+    refundAfter: Date.now() + 2 * HOUR_MS,
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('requires a session', async () => {
+    const { status, body } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/lock', lockBody())));
+    expect(status).toBe(401);
+    expect(body.error.code).toBe('unauthenticated');
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const cookie = signIn(depositor.address);
+    const { status, body } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/lock', '{', { cookie })));
+    expect(status).toBe(400);
+    expect(body.error.code).toBe('invalid_json');
+  });
+
+  it.each([
+    ['a deadline in the past', { deadline: Date.now() - 1000 }, 'deadline'],
+    ['a refund before the deadline', { refundAfter: Date.now() }, 'refundAfter'],
+    ['a beneficiary that is not an address', { beneficiaryAddress: 'addr_test1nope' }, 'beneficiaryAddress'],
+    ['an amount below the minimum UTxO value', { amount: 500_000 }, 'amount'],
+  ])('rejects %s', async (_, override, path) => {
+    const cookie = signIn(depositor.address);
+    const { status, body } = await readJson<ApiErrorBody>(
+      await POST(postRequest('/api/escrow/lock', { ...lockBody(), ...override }, { cookie }))
+    );
+    expect(status).toBe(400);
+    expect(body.error.code).toBe('validation_failed');
+    expect(body.error.issues?.map(issue => issue.path)).toContain(path);
+  });
+
+  it('rejects an amount over what the wallet can spend before building', async () => {
+    const cookie = signIn(depositor.address);
+    const spendable = getSpendableLovelace(chain().getBalance(depositor.address).lovelace);
+    const { status, body } = await readJson<ApiErrorBody>(
+      await POST(postRequest('/api/escrow/lock', { ...lockBody(), amount: spendable + 1 }, { cookie }))
+    );
+    expect(status).toBe(400);
+    expect(body.error.code).toBe('validation_failed');
+    expect(body.error.issues).toEqual([expect.objectContaining({ path: 'amount' })]);
+  });
+
+  it('leaves the amount to the build when the chain state provider is not configured', async () => {
+    vi.stubEnv('CHAIN_STATE_PROVIDER', 'blockfrost');
+    vi.stubEnv('BLOCKFROST_API_URL', '');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const cookie = signIn(depositor.address);
+
+    const fits = await POST(postRequest('/api/escrow/lock', lockBody(), { cookie }));
+    expect(fits.status).toBe(200);
+
+    const { status, body } = await readJson<ApiErrorBody>(
+      await POST(postRequest('/api/escrow/lock', { ...lockBody(), amount: 100_000_000 }, { cookie }))
+    );
+    expect(status).toBe(502);
+    expect(body.error.code).toBe('build_failed');
+  });
+
+  it('builds the lock and records the escrow waiting for the signature', async () => {
+    const cookie = signIn(depositor.address);
+    const request = lockBody();
+    const { status, body } = await readJson<LockResponse>(
+      await POST(postRequest('/api/escrow/lock', request, { cookie }))
+    );
+    expect(status).toBe(200);
+    expect(body.escrowId.startsWith(`${body.txHash}#`)).toBe(true);
+
+    const escrow = getTxById(body.escrowId)!;
+    expect(escrow).toMatchObject({
+      status: TX_STATUS.SIGN_LOCK,
+      wallet: depositor.address,
+      beneficiary: beneficiary.address,
+      amount: request.amount,
+      deadline: request.deadline,
+      refundAfter: request.refundAfter,
+    });
+  });
+});
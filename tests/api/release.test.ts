@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/escrow/release/route';
+import { POST as submitRoute } from '@/app/api/escrow/submit/route';
+import { SubmitResponse, UnlockResponse } from '@/lib/api-schemas';
+import { getTxsByWallet } from '@/lib/db';
+import { getTxHash } from '@/lib/tx-parser';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { deliverTx, lockEscrow } from '../helpers/escrow';
+import { postRequest, readJson, signIn } from '../helpers/routes';
+
+describe('POST /api/escrow/release', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+
+  const continuationsOf = (escrowId: string) =>
+    getTxsByWallet(depositor.address).filter(tx => tx.parentEscrowId === escrowId);
+
+  it('keeps one continuing escrow when a release is rebuilt before it is signed', async () => {
+    const { escrowId, complete } = await lockEscrow(depositor, beneficiary, { milestones: [4_000_000, 6_000_000] });
+    await deliverTx(complete, 400);
+    const cookie = signIn(depositor.address);
+
+    const release = async () => {
+      const built = await readJson<UnlockResponse>(await POST(postRequest('/api/escrow/release', { escrowId }, { cookie })));
+      expect(built.status).toBe(200);
+      return built.body.complete;
+    };
+    await release();
+    const rebuilt = await release();
+
+    expect(continuationsOf(escrowId)).toEqual([
+      expect.objectContaining({ txHash: getTxHash(rebuilt), status: TX_STATUS.SIGN_LOCK, amount: 6_000_000 }),
+    ]);
+
+    const submitted = await readJson<SubmitResponse>(await submitRoute(postRequest('/api/escrow/submit', {
+      complete: rebuilt,
+      signature: chain().signTransaction(rebuilt, depositor.address),
+      type: TX_STATUS.SIGN_UNLOCK,
+      originalEscrowIds: [escrowId],
+    }, { cookie })));
+    expect(submitted.status).toBe(200);
+    expect(continuationsOf(escrowId)).toEqual([expect.objectContaining({ status: TX_STATUS.PENDING })]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { POST as lockRoute } from '@/app/api/escrow/lock/route';
+import { POST } from '@/app/api/escrow/submit/route';
+import { ApiErrorBody } from '@/lib/api-errors';
+import { LockResponse, SubmitResponse } from '@/lib/api-schemas';
+import { getTxById } from '@/lib/db';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { HOUR_MS } from '../helpers/escrow';
+import { postRequest, readJson, signIn } from '../helpers/routes';
+
+describe('POST /api/escrow/submit', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+  const cookie = signIn(depositor.address);
+
+  async function buildLock(): Promise<LockResponse> {
+    const { body } = await readJson<LockResponse>(await lockRoute(postRequest('/api/escrow/lock', {
+      beneficiaryAddress: beneficiary.address,
+      amount: 5_000_000,
+      deadline: Date.now() + HOUR_MS,
+      refundAfter: Date.now() + 2 * HOUR_MS,
+    }, { cookie })));
+    return body;
+  }
+
+  it('requires unlock submissions to name the escrows they spend', async () => {
+    const { status, body } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/submit', {
+      complete: 'aa',
+      signature: 'bb',
+      type: TX_STATUS.SIGN_UNLOCK,
+    }, { cookie })));
+    expect(status).toBe(400);
+    expect(body.error.issues).toEqual([{ path: 'originalEscrowIds', message: 'is required for unlock transactions' }]);
+  });
+
+  it('submits a signed lock and marks the escrow pending', async () => {
+    const lock = await buildLock();
+    const { status, body } = await readJson<SubmitResponse>(await POST(postRequest('/api/escrow/submit', {
+      complete: lock.complete,
+      signature: chain().signTransaction(lock.complete, depositor.address),
+      type: TX_STATUS.SIGN_LOCK,
+    }, { cookie })));
+
+    expect(status).toBe(200);
+    expect(body.txHash).toBe(lock.txHash);
+    expect(getTxById(lock.escrowId)?.status).toBe(TX_STATUS.PENDING);
+  });
+
+  it('answers submit_failed when the chain rejects the signature', async () => {
+    const lock = await buildLock();
+    const { status, body } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/submit', {
+      complete: lock.complete,
+      // Signed by the beneficiary, who owns none of the inputs
+      signature: chain().signTransaction(lock.complete, beneficiary.address),
+      type: TX_STATUS.SIGN_LOCK,
+    }, { cookie })));
+
+    expect(status).toBe(502);
+    expect(body.error.code).toBe('submit_failed');
+    expect(getTxById(lock.escrowId)?.status).toBe(TX_STATUS.SIGN_LOCK);
+  });
+
+  it('only lets the wallet that built an unlock submit it', async () => {
+    const lock = await buildLock();
+    const { status, body } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/submit', {
+      complete: lock.complete,
+      signature: 'aa',
+      type: TX_STATUS.SIGN_UNLOCK,
+      originalEscrowIds: [lock.escrowId],
+    }, { cookie: signIn(beneficiary.address) })));
+
+    expect(status).toBe(403);
+    expect(body.error.code).toBe('forbidden');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/escrow/transactions/route';
+import { ApiErrorBody } from '@/lib/api-errors';
+import { TransactionsResponse } from '@/lib/api-schemas';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { lockEscrow } from '../helpers/escrow';
+import { getRequest, readJson, signIn } from '../helpers/routes';
+
+describe('GET /api/escrow/transactions', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+
+  it('requires a session', async () => {
+    const response = await GET(getRequest('/api/escrow/transactions'));
+    expect(response.status).toBe(401);
+  });
+
+  it("refuses to list another wallet's escrows", async () => {
+    const { status, body } = await readJson<ApiErrorBody>(await GET(
+      getRequest(`/api/escrow/transactions?wallet=${beneficiary.address}`, { cookie: signIn(depositor.address) })
+    ));
+    expect(status).toBe(403);
+    expect(body.error.code).toBe('forbidden');
+  });
+
+  it('lists the escrows a wallet funded and the ones it can claim', async () => {
+    const { escrowId } = await lockEscrow(depositor, beneficiary);
+
+    for (const wallet of [depositor, beneficiary]) {
+      const { status, body } = await readJson<TransactionsResponse>(await GET(
+        getRequest(`/api/escrow/transactions?wallet=${wallet.address}`, { cookie: signIn(wallet.address) })
+      ));
+      expect(status).toBe(200);
+      expect(body.find(tx => tx.id === escrowId)).toMatchObject({
+        status: TX_STATUS.PENDING,
+        wallet: depositor.address,
+        beneficiary: beneficiary.address,
+      });
+    }
+
+    const stranger = chain().createWallet();
+    const { body } = await readJson<TransactionsResponse>(await GET(
+      getRequest('/api/escrow/transactions', { cookie: signIn(stranger.address) })
+    ));
+    expect(body).toEqual([]);
+  });
+});
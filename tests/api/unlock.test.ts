@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/escrow/unlock/route';
+import { POST as submitRoute } from '@/app/api/escrow/submit/route';
+import { ApiErrorBody } from '@/lib/api-errors';
+import { SubmitResponse, UnlockResponse } from '@/lib/api-schemas';
+import { getTxById } from '@/lib/db';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { deliverTx, lockEscrow } from '../helpers/escrow';
+import { postRequest, readJson, signIn } from '../helpers/routes';
+
+// Build an unlock as the given wallet, sign it and submit it
+async function unlock(escrowId: string, wallet: { address: string }) {
+  const cookie = signIn(wallet.address);
+  const built = await readJson<UnlockResponse>(await POST(postRequest('/api/escrow/unlock', { escrowId }, { cookie })));
+  expect(built.status).toBe(200);
+
+  const submitted = await readJson<SubmitResponse>(await submitRoute(postRequest('/api/escrow/submit', {
+    complete: built.body.complete,
+    signature: chain().signTransaction(built.body.complete, wallet.address),
+    type: TX_STATUS.SIGN_UNLOCK,
+    originalEscrowIds: [escrowId],
+  }, { cookie })));
+  expect(submitted.status).toBe(200);
+  return built.body.complete;
+}
+
+describe('POST /api/escrow/unlock', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers not_found for an unknown escrow', async () => {
+    const { status, body } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/unlock', {
+      escrowId: `${'ab'.repeat(32)}#0`,
+    }, { cookie: signIn(beneficiary.address) })));
+    expect(status).toBe(404);
+    expect(body.error.code).toBe('not_found');
+  });
+
+  it('refuses to unlock before the escrow is confirmed on-chain', async () => {
+    const { escrowId, deadline } = await lockEscrow(depositor, beneficiary);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(deadline);
+
+    const { status } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/unlock', { escrowId }, {
+      cookie: signIn(beneficiary.address),
+    })));
+    expect(status).toBe(403);
+  });
+
+  it('refuses the beneficiary before the deadline and other wallets at any time', async () => {
+    const { escrowId, complete, deadline } = await lockEscrow(depositor, beneficiary);
+    await deliverTx(complete, 100);
+    const stranger = chain().createWallet();
+
+    const early = await POST(postRequest('/api/escrow/unlock', { escrowId }, { cookie: signIn(beneficiary.address) }));
+    expect(early.status).toBe(403);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(deadline);
+    const other = await POST(postRequest('/api/escrow/unlock', { escrowId }, { cookie: signIn(stranger.address) }));
+    expect(other.status).toBe(403);
+  });
+
+  it('lets the beneficiary claim after the deadline, once', async () => {
+    const { escrowId, complete, deadline } = await lockEscrow(depositor, beneficiary);
+    await deliverTx(complete, 101);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(deadline);
+
+    const before = chain().getBalance(beneficiary.address).lovelace;
+    const unlockTx = await unlock(escrowId, beneficiary);
+    expect(getTxById(escrowId)?.status).toBe(TX_STATUS.UNLOCK_PENDING);
+    expect(chain().getBalance(beneficiary.address).lovelace).toBeGreaterThan(before);
+
+    // A second unlock is refused while the first waits for the chain, and once it is confirmed
+    const pending = await POST(postRequest('/api/escrow/unlock', { escrowId }, { cookie: signIn(beneficiary.address) }));
+    expect(pending.status).toBe(403);
+
+    await deliverTx(unlockTx, 102);
+    expect(getTxById(escrowId)).toMatchObject({ status: TX_STATUS.UNLOCKED, spent: true });
+
+    const { status, body } = await readJson<ApiErrorBody>(await POST(postRequest('/api/escrow/unlock', { escrowId }, {
+      cookie: signIn(beneficiary.address),
+    })));
+    expect(status).toBe(409);
+    expect(body.error.code).toBe('already_spent');
+  });
+
+  it('lets the depositor refund once the grace period is over', async () => {
+    const { escrowId, complete, refundAfter } = await lockEscrow(depositor, beneficiary);
+    await deliverTx(complete, 103);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(refundAfter);
+
+    await unlock(escrowId, depositor);
+    expect(getTxById(escrowId)).toMatchObject({ status: TX_STATUS.UNLOCK_PENDING, unlockedBy: depositor.address });
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/escrow/vest/route';
+import { UnlockResponse } from '@/lib/api-schemas';
+import { getTxsByWallet } from '@/lib/db';
+import { getSlotStart, getVestedAmount } from '@/lib/escrow';
+import { getTxHash } from '@/lib/tx-parser';
+import { TX_STATUS } from '@/lib/types';
+import { chain } from '../helpers/chain';
+import { deliverTx, HOUR_MS, lockEscrow } from '../helpers/escrow';
+import { postRequest, readJson, signIn } from '../helpers/routes';
+
+const DAY_MS = 24 * HOUR_MS;
+
+describe('POST /api/escrow/vest', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps one continuing escrow when a claim is rebuilt before it is signed', async () => {
+    const start = Date.now() - 10 * DAY_MS;
+    const deadline = start + 20 * DAY_MS;
+    const { escrowId, complete } = await lockEscrow(depositor, beneficiary, {
+      deadline,
+      vesting: { kind: 'linear', total: 10_000_000, start, cliff: start, end: deadline },
+    });
+    await deliverTx(complete, 500);
+    const cookie = signIn(beneficiary.address);
+
+    const claim = async () => {
+      const built = await readJson<UnlockResponse>(await POST(postRequest('/api/escrow/vest', { escrowId, amount: 2_000_000 }, { cookie })));
+      expect(built.status).toBe(200);
+      return built.body.complete;
+    };
+    await claim();
+    const rebuilt = await claim();
+
+    expect(getTxsByWallet(depositor.address).filter(tx => tx.parentEscrowId === escrowId)).toEqual([
+      expect.objectContaining({ txHash: getTxHash(rebuilt), status: TX_STATUS.SIGN_LOCK, amount: 8_000_000 }),
+    ]);
+  });
+
+  it('counts vesting to the start of the slot the claim is valid from', async () => {
+    const now = getSlotStart(Date.now()) + 999;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    const vesting = {
+      kind: 'linear' as const, total: 10_000_000, start: now - HOUR_MS, cliff: now - HOUR_MS, end: now + HOUR_MS,
+    };
+    const { escrowId, complete } = await lockEscrow(depositor, beneficiary, { deadline: vesting.end, vesting });
+    await deliverTx(complete, 501);
+
+    const built = await readJson<UnlockResponse>(await POST(postRequest('/api/escrow/vest', { escrowId }, {
+      cookie: signIn(beneficiary.address),
+    })));
+    expect(built.status).toBe(200);
+
+    // A second of a 2-hour schedule vests well over a lovelace, so the rounding shows in the rest
+    const vestedAtSlot = getVestedAmount(vesting, getSlotStart(now));
+    expect(getVestedAmount(vesting, now)).toBeGreaterThan(vestedAtSlot);
+    expect(getTxsByWallet(depositor.address).find(tx => tx.parentEscrowId === escrowId)).toMatchObject({
+      amount: vesting.total - vestedAtSlot,
+    });
+  });
+});
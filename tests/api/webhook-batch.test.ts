@@ -0,0 +1,97 @@
+import { readFileSync } from 'fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/webhooks/blockfrost/route';
+import { BlockfrostTxEvent } from '@/lib/blockfrost-events';
+import { getTxById, getTxsByHash, insertTx, upsertWallet } from '@/lib/db';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+import { webhookRequest } from '../helpers/routes';
+
+interface WebhookFixture {
+  id: string;
+  type: 'transaction';
+  payload: BlockfrostTxEvent[];
+}
+
+const readFixture = (name: string): WebhookFixture =>
+  JSON.parse(readFileSync(new URL(`../fixtures/blockfrost/${name}`, import.meta.url), 'utf8'));
+
+// One lock tx creating two escrow outputs plus change, and one unlock tx spending both
+const lockBatch = readFixture('lock-batch.json');
+const unlockBatch = readFixture('unlock-batch.json');
+const lockTxHash = lockBatch.payload[0].tx.hash;
+const unlockTxHash = unlockBatch.payload[0].tx.hash;
+
+// Wallets whose key hashes the fixture datums name
+const DEPOSITOR = 'addr_test1vqg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygxrcya6';
+const FIRST_BENEFICIARY = 'addr_test1vq3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygswahgq5';
+const SECOND_BENEFICIARY = 'addr_test1vqenxvenxvenxvenxvenxvenxvenxvenxvenxvenxvenxvc9myyf9';
+
+async function deliver(fixture: WebhookFixture) {
+  const response = await POST(webhookRequest(fixture));
+  expect(response.status).toBe(200);
+}
+
+describe('Blockfrost webhooks for batch transactions', () => {
+  beforeAll(() => {
+    for (const address of [DEPOSITOR, FIRST_BENEFICIARY, SECOND_BENEFICIARY]) {
+      upsertWallet(address);
+    }
+  });
+
+  it('records every escrow output of a lock tx, and only those', async () => {
+    await deliver(lockBatch);
+
+    const escrows = getTxsByHash(lockTxHash);
+    expect(escrows).toHaveLength(2);
+    expect(escrows[0]).toMatchObject({
+      outputIndex: 0,
+      status: TX_STATUS.CONFIRMED,
+      wallet: DEPOSITOR,
+      beneficiary: FIRST_BENEFICIARY,
+      amount: 10_000_000,
+      assets: [],
+      deadline: 1767225600000,
+      refundAfter: 1769904000000,
+      blockHeight: 7300000,
+    });
+    expect(escrows[1]).toMatchObject({
+      outputIndex: 1,
+      status: TX_STATUS.CONFIRMED,
+      beneficiary: SECOND_BENEFICIARY,
+      amount: 25_000_000,
+      assets: [{ policyId: 'ee'.repeat(28), assetName: '45534352', quantity: 500 }],
+    });
+  });
+
+  it('confirms escrows recorded when the lock was built instead of adding them again', async () => {
+    const [event] = lockBatch.payload;
+    const txHash = 'b2'.repeat(32);
+    const terms = { deadline: 1767225600000, refundAfter: 1769904000000, validatorHash: 'a'.repeat(56) };
+    insertTx(txHash, 0, DEPOSITOR, 10_000_000, TX_STATUS.PENDING, TX_EVENT_SOURCE.API, { ...terms, beneficiary: FIRST_BENEFICIARY });
+    insertTx(txHash, 1, DEPOSITOR, 25_000_000, TX_STATUS.PENDING, TX_EVENT_SOURCE.API, { ...terms, beneficiary: SECOND_BENEFICIARY });
+
+    await deliver({ ...lockBatch, id: 'built-batch', payload: [{ ...event, tx: { ...event.tx, hash: txHash } }] });
+    expect(getTxsByHash(txHash).map(escrow => escrow.status)).toEqual([TX_STATUS.CONFIRMED, TX_STATUS.CONFIRMED]);
+  });
+
+  it('marks every escrow an unlock tx spends, but not its reference or collateral inputs', async () => {
+    // Escrow the unlock reads as a reference input
+    const referenced = unlockBatch.payload[0].inputs!.find(input => input.reference)!;
+    insertTx(referenced.tx_hash!, referenced.output_index!, DEPOSITOR, 30_000_000, TX_STATUS.CONFIRMED, TX_EVENT_SOURCE.API);
+
+    await deliver(unlockBatch);
+
+    for (const escrow of getTxsByHash(lockTxHash)) {
+      expect(escrow).toMatchObject({
+        status: TX_STATUS.UNLOCKED,
+        spent: true,
+        unlockTxHash,
+        unlockBlockHeight: 7300420,
+      });
+    }
+    expect(getTxById(`${referenced.tx_hash}#${referenced.output_index}`)).toMatchObject({
+      status: TX_STATUS.CONFIRMED,
+      spent: false,
+    });
+  });
+});
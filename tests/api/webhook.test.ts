@@ -0,0 +1,142 @@
+import { randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/webhooks/blockfrost/route';
+import { ApiErrorBody } from '@/lib/api-errors';
+import { getTxById, getTxsByHash } from '@/lib/db';
+import { TX_STATUS } from '@/lib/types';
+import { chain, toTxEvent } from '../helpers/chain';
+import { deliverTx, lockEscrow } from '../helpers/escrow';
+import { postRequest, readJson, signWebhookBody, webhookRequest } from '../helpers/routes';
+
+// Transaction event as Blockfrost delivers it, kept byte for byte since the signature covers the raw body
+const sampleBody = readFileSync(new URL('../fixtures/blockfrost/transaction.json', import.meta.url), 'utf8');
+const sampleSignedAt: number = JSON.parse(sampleBody).created;
+
+function deliverSample(signature: string, body: string = sampleBody) {
+  return POST(postRequest('/api/webhooks/blockfrost', body, { headers: { 'Blockfrost-Signature': signature } }));
+}
+
+describe('Blockfrost webhook signatures', () => {
+  const signature = signWebhookBody(sampleBody, undefined, sampleSignedAt);
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.BLOCKFROST_WEBHOOK_TOLERANCE_SECONDS;
+  });
+
+  function receiveAfter(seconds: number) {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime((sampleSignedAt + seconds) * 1000);
+  }
+
+  it('accepts the sample delivery signed with the shared secret', async () => {
+    receiveAfter(5);
+    expect((await deliverSample(signature)).status).toBe(200);
+  });
+
+  it('rejects the sample when the body no longer matches the signature', async () => {
+    receiveAfter(5);
+    const tampered = sampleBody.replace('"10000000"', '"90000000"');
+    expect((await deliverSample(signature, tampered)).status).toBe(401);
+    expect((await deliverSample(signature.replace(/v1=\w+/, `v1=${'0'.repeat(64)}`))).status).toBe(401);
+  });
+
+  it('rejects the sample once the signature is older than the tolerance', async () => {
+    receiveAfter(601);
+    expect((await deliverSample(signature)).status).toBe(401);
+
+    process.env.BLOCKFROST_WEBHOOK_TOLERANCE_SECONDS = '3600';
+    expect((await deliverSample(signature)).status).toBe(200);
+  });
+
+  it.each(['soon', '0', '-60', 'Infinity'])('keeps the default tolerance when it is configured as %s', async tolerance => {
+    process.env.BLOCKFROST_WEBHOOK_TOLERANCE_SECONDS = tolerance;
+    receiveAfter(601);
+    expect((await deliverSample(signature)).status).toBe(401);
+  });
+});
+
+describe('POST /api/webhooks/blockfrost', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+  const secret = process.env.BLOCKFROST_WEBHOOK_SECRET;
+
+  afterEach(() => {
+    process.env.BLOCKFROST_WEBHOOK_SECRET = secret;
+  });
+
+  it('answers not_configured without a webhook secret', async () => {
+    delete process.env.BLOCKFROST_WEBHOOK_SECRET;
+    const { status, body } = await readJson<ApiErrorBody>(await POST(webhookRequest({ id: 'x', type: 'transaction', payload: [] }, 't=1,v1=00')));
+    expect(status).toBe(500);
+    expect(body.error.code).toBe('not_configured');
+  });
+
+  it('rejects a delivery signed with another secret', async () => {
+    const body = { id: 'forged', type: 'transaction', payload: [] };
+    const response = await POST(webhookRequest(body, signWebhookBody(JSON.stringify(body), 'not-the-secret')));
+    expect(response.status).toBe(401);
+  });
+
+  it('confirms a lock once its transaction is in a block', async () => {
+    const { escrowId, complete } = await lockEscrow(depositor, beneficiary);
+    const response = await deliverTx(complete, 200);
+    expect(response.status).toBe(200);
+    expect(getTxById(escrowId)).toMatchObject({ blockHeight: 200 });
+    expect(getTxById(escrowId)?.status).not.toBe(TX_STATUS.PENDING);
+  });
+
+  it('handles a redelivered event once', async () => {
+    const { escrowId, complete } = await lockEscrow(depositor, beneficiary);
+    await deliverTx(complete, 201, 'redelivered');
+    const status = getTxById(escrowId)?.status;
+
+    // The same event ID at a different height would move the escrow if it were applied again
+    const response = await deliverTx(complete, 250, 'redelivered');
+    expect(response.status).toBe(200);
+    expect(getTxById(escrowId)).toMatchObject({ status, blockHeight: 201 });
+  });
+
+  it('records escrows locked outside the app by a known depositor', async () => {
+    const { complete } = await lockEscrow(depositor, beneficiary);
+    const event = toTxEvent(complete, 202);
+    event.tx.hash = randomBytes(32).toString('hex');
+
+    const response = await POST(webhookRequest({ id: 'external', type: 'transaction', payload: [event] }));
+    expect(response.status).toBe(200);
+    expect(getTxsByHash(event.tx.hash)).toEqual([
+      expect.objectContaining({ wallet: depositor.address, beneficiary: beneficiary.address, amount: 10_000_000 }),
+    ]);
+  });
+
+  it('ignores escrow outputs whose depositor is not a known wallet', async () => {
+    const { complete } = await lockEscrow(depositor, beneficiary);
+    const event = toTxEvent(complete, 203);
+    event.tx.hash = randomBytes(32).toString('hex');
+    for (const output of event.outputs!) {
+      output.inline_datum = output.inline_datum?.replace(depositor.keyHash, randomBytes(28).toString('hex'));
+    }
+
+    const response = await POST(webhookRequest({ id: 'unknown-depositor', type: 'transaction', payload: [event] }));
+    expect(response.status).toBe(200);
+    expect(getTxsByHash(event.tx.hash)).toEqual([]);
+  });
+
+  it('does not spend escrows when the transaction failed script validation', async () => {
+    const { escrowId, complete } = await lockEscrow(depositor, beneficiary);
+    await deliverTx(complete, 204);
+    const status = getTxById(escrowId)?.status;
+
+    // A failed transaction spending the escrow; only its collateral is consumed
+    const failed = toTxEvent(complete, 205);
+    failed.tx.hash = randomBytes(32).toString('hex');
+    failed.tx.valid_contract = false;
+    failed.inputs = [{ address: '', tx_hash: escrowId.split('#')[0], output_index: Number(escrowId.split('#')[1]) }];
+    failed.outputs = [];
+
+    const response = await POST(webhookRequest({ id: 'failed', type: 'transaction', payload: [failed] }));
+    expect(response.status).toBe(200);
+    expect(getTxById(escrowId)).toMatchObject({ status, spent: false });
+  });
+});
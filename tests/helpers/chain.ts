@@ -0,0 +1,53 @@
+import { encodeBech32 } from '@/lib/bech32';
+import { BlockfrostTxEvent } from '@/lib/blockfrost-events';
+import { bytesToHex, CborTag, CborValue, decodeCbor } from '@/lib/cbor';
+import { EmulatorBackend } from '@/lib/emulator-backend';
+import { getTxHash } from '@/lib/tx-parser';
+
+// The in-memory ledger the routes build and submit against
+export const chain = () => EmulatorBackend.shared();
+
+// Output value as Blockfrost lists it: lovelace, then `policyId + assetName` units
+function toAmount(value: CborValue): { unit: string; quantity: string }[] {
+  const [lovelace, multiAsset] = Array.isArray(value) ? value : [value, null];
+  const amount = [{ unit: 'lovelace', quantity: String(lovelace) }];
+  if (multiAsset instanceof Map) {
+    for (const [policyId, names] of multiAsset) {
+      for (const [name, quantity] of names as Map<CborValue, CborValue>) {
+        amount.push({
+          unit: bytesToHex(policyId as Uint8Array) + bytesToHex(name as Uint8Array),
+          quantity: String(quantity),
+        });
+      }
+    }
+  }
+  return amount;
+}
+
+/**
+ * Blockfrost transaction event for a transaction built by the emulator, as the webhook receives it
+ * once the transaction is in a block
+ */
+export function toTxEvent(complete: string, blockHeight: number): BlockfrostTxEvent {
+  const [body] = decodeCbor(complete) as [Map<CborValue, CborValue>];
+  const inputs = body.get(0) as [Uint8Array, number][];
+  const outputs = body.get(1) as Map<CborValue, CborValue>[];
+
+  return {
+    tx: { hash: getTxHash(complete), block_height: blockHeight },
+    inputs: inputs.map(([txHash, outputIndex]) => ({
+      address: '',
+      tx_hash: bytesToHex(txHash),
+      output_index: outputIndex,
+    })),
+    outputs: outputs.map((output, outputIndex) => {
+      const datumOption = output.get(2) as [number, CborTag] | undefined;
+      return {
+        address: encodeBech32('addr_test', output.get(0) as Uint8Array),
+        output_index: outputIndex,
+        amount: toAmount(output.get(1)!),
+        inline_datum: datumOption ? bytesToHex(datumOption[1].value as Uint8Array) : null,
+      };
+    }),
+  };
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import { expect } from 'vitest';
+import { POST as lockRoute } from '@/app/api/escrow/lock/route';
+import { POST as submitRoute } from '@/app/api/escrow/submit/route';
+import { POST as webhookRoute } from '@/app/api/webhooks/blockfrost/route';
+import { LockRequest, LockResponse, SubmitResponse } from '@/lib/api-schemas';
+import { EmulatorWallet } from '@/lib/emulator-backend';
+import { TX_STATUS } from '@/lib/types';
+import { chain, toTxEvent } from './chain';
+import { postRequest, readJson, signIn, webhookRequest } from './routes';
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+export interface LockedEscrow {
+  escrowId: string;
+  txHash: string;
+  complete: string;
+  deadline: number;
+  refundAfter: number;
+}
+
+/**
+ * Lock funds for a beneficiary and submit the lock signed by the depositor
+ * The deadline is an hour away and the refund opens an hour after it, unless the terms say otherwise
+ */
+export async function lockEscrow(
+  depositor: EmulatorWallet,
+  beneficiary: EmulatorWallet,
+  terms: Partial<LockRequest> = {}
+): Promise<LockedEscrow> {
+  const cookie = signIn(depositor.address);
+  const deadline = terms.deadline ?? Date.now() + HOUR_MS;
+  const refundAfter = terms.refundAfter ?? deadline + HOUR_MS;
+
+  const lock = await readJson<LockResponse>(await lockRoute(postRequest('/api/escrow/lock', {
+    beneficiaryAddress: beneficiary.address,
+    amount: 10_000_000,
+    ...terms,
+    deadline,
+    refundAfter,
+  }, { cookie })));
+  expect(lock.status).toBe(200);
+
+  const { complete, escrowId, txHash } = lock.body;
+  const submit = await readJson<SubmitResponse>(await submitRoute(postRequest('/api/escrow/submit', {
+    complete,
+    signature: chain().signTransaction(complete, depositor.address),
+    type: TX_STATUS.SIGN_LOCK,
+  }, { cookie })));
+  expect(submit.status).toBe(200);
+
+  return { escrowId, txHash, complete, deadline, refundAfter };
+}
+
+/**
+ * Deliver a signed webhook for a transaction included at the given height
+ */
+export async function deliverTx(complete: string, blockHeight: number, eventId: string = randomUUID()) {
+  return webhookRoute(webhookRequest({
+    id: eventId,
+    type: 'transaction',
+    payload: [toTxEvent(complete, blockHeight)],
+  }));
+}
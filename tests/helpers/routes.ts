@@ -0,0 +1,59 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+import { SESSION_COOKIE, SESSION_TTL_MS } from '@/lib/auth';
+import { insertSession } from '@/lib/db';
+
+interface RequestOptions {
+  cookie?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Session cookie for a wallet, as /api/auth/verify sets it once the wallet has signed the challenge
+ */
+export function signIn(address: string): string {
+  const token = randomBytes(32).toString('hex');
+  insertSession(createHash('sha256').update(token).digest('hex'), address, Date.now() + SESSION_TTL_MS);
+  return `${SESSION_COOKIE}=${token}`;
+}
+
+// Strings are sent as is, so tests can post malformed JSON
+export function postRequest(path: string, body: unknown, { cookie, headers }: RequestOptions = {}): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(cookie && { cookie }), ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+export function getRequest(path: string, { cookie, headers }: RequestOptions = {}): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    headers: { ...(cookie && { cookie }), ...headers },
+  });
+}
+
+export async function readJson<T>(response: Response): Promise<{ status: number; body: T }> {
+  return { status: response.status, body: await response.json() as T };
+}
+
+/**
+ * Blockfrost-Signature header for a raw webhook body: `t=<seconds>,v1=<HMAC-SHA256 of "t.body">`
+ */
+export function signWebhookBody(
+  rawBody: string,
+  secret: string = process.env.BLOCKFROST_WEBHOOK_SECRET!,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Webhook delivery signed with the configured secret
+ */
+export function webhookRequest(body: object, signature?: string): NextRequest {
+  const rawBody = JSON.stringify(body);
+  return postRequest('/api/webhooks/blockfrost', rawBody, {
+    headers: { 'Blockfrost-Signature': signature ?? signWebhookBody(rawBody) },
+  });
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BlockfrostChainProvider } from '@/lib/chain-provider';
+import { TimeoutError } from '@/lib/resilient-fetch';
+
+describe('BlockfrostChainProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('gives up on a lookup Blockfrost never answers', async () => {
+    // Only settles once the request is aborted
+    vi.stubGlobal('fetch', (_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    }));
+    const provider = new BlockfrostChainProvider('https://blockfrost.test', 'project', {
+      timeoutMs: 20, maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1,
+    });
+
+    await expect(provider.getTransaction('ab'.repeat(32))).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('reads the block a transaction is in', async () => {
+    vi.stubGlobal('fetch', async () => Response.json({ block_time: 1_700_000_000, block_height: 1234 }));
+    const provider = new BlockfrostChainProvider('https://blockfrost.test', 'project');
+
+    expect(await provider.getTransaction('ab'.repeat(32))).toEqual({ blockTime: 1_700_000_000_000, blockHeight: 1234 });
+  });
+
+  it('reads the lovelace and tokens an address holds, and nothing for an unused one', async () => {
+    const policyId = 'cd'.repeat(28);
+    vi.stubGlobal('fetch', async (url: string) => url.endsWith('/unused')
+      ? new Response('Not Found', { status: 404 })
+      : Response.json({ amount: [{ unit: 'lovelace', quantity: '42000000' }, { unit: `${policyId}746f6b656e`, quantity: '7' }] }));
+    const provider = new BlockfrostChainProvider('https://blockfrost.test', 'project');
+
+    expect(await provider.getAddressBalance('addr_test1used')).toEqual({
+      lovelace: 42_000_000,
+      assets: [{ policyId, assetName: '746f6b656e', quantity: 7 }],
+    });
+    expect(await provider.getAddressBalance('unused')).toEqual({ lovelace: 0, assets: [] });
+  });
+});
@@ -0,0 +1,74 @@
+import { randomBytes } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { applyBlock, recordLockInclusion } from '@/lib/confirmations';
+import { getTxById, insertTx, markTxSpent, transitionTx } from '@/lib/db';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+
+const source = TX_EVENT_SOURCE.WEBHOOK;
+const hash = () => randomBytes(32).toString('hex');
+
+// Escrow whose lock tx is in the block at the given height
+function includedEscrow(blockHeight: number): string {
+  const txHash = hash();
+  insertTx(txHash, 0, 'addr_test1depositor', 5_000_000, TX_STATUS.PENDING, TX_EVENT_SOURCE.API);
+  recordLockInclusion(getTxById(`${txHash}#0`)!, blockHeight, source);
+  return `${txHash}#0`;
+}
+
+// Each test works on its own stretch of the chain, as the tip is shared
+function applyBlocks(from: number, to: number): string[] {
+  const hashes: string[] = [];
+  for (let height = from; height <= to; height++) {
+    hashes.push(hash());
+    applyBlock(height, hashes[hashes.length - 1], source);
+  }
+  return hashes;
+}
+
+describe('applyBlock', () => {
+  it('ignores redelivered blocks and late blocks it already stored', () => {
+    const hashes = applyBlocks(100, 102);
+    const escrowId = includedEscrow(101);
+    expect(getTxById(escrowId)?.status).toBe(TX_STATUS.CONFIRMED);
+
+    expect(applyBlock(102, hashes[2], source)).toEqual({ rolledBack: 0, promoted: 0 });
+    expect(applyBlock(101, hashes[1], source)).toEqual({ rolledBack: 0, promoted: 0 });
+    expect(getTxById(escrowId)).toMatchObject({ status: TX_STATUS.CONFIRMED, blockHeight: 101 });
+  });
+
+  it('rolls back escrows from the height where the chain switched forks', () => {
+    applyBlocks(200, 203);
+    const kept = includedEscrow(201);
+    const dropped = includedEscrow(202);
+
+    const result = applyBlock(202, hash(), source);
+    expect(result.rolledBack).toBe(1);
+    expect(getTxById(kept)?.status).toBe(TX_STATUS.CONFIRMED);
+    expect(getTxById(dropped)).toMatchObject({ status: TX_STATUS.ROLLED_BACK, blockHeight: null });
+
+    // The new fork's blocks above the switch are new heights, not another reorg
+    expect(applyBlock(203, hash(), source).rolledBack).toBe(0);
+  });
+
+  it('returns an escrow whose unlock was rolled back to waiting for the unlock', () => {
+    applyBlocks(300, 302);
+    const escrowId = includedEscrow(300);
+    const [txHash] = escrowId.split('#');
+    const unlockTxHash = hash();
+    markTxSpent(txHash, 0, unlockTxHash, 302);
+    transitionTx(escrowId, TX_STATUS.UNLOCKED, source);
+
+    expect(applyBlock(302, hash(), source).rolledBack).toBe(1);
+    expect(getTxById(escrowId)).toMatchObject({
+      status: TX_STATUS.UNLOCK_PENDING,
+      spent: false,
+      unlockTxHash,
+      unlockBlockHeight: null,
+    });
+
+    // Seen again in a block of the new fork
+    markTxSpent(txHash, 0, unlockTxHash, 303);
+    transitionTx(escrowId, TX_STATUS.UNLOCKED, source);
+    expect(getTxById(escrowId)).toMatchObject({ status: TX_STATUS.UNLOCKED, spent: true, unlockBlockHeight: 303 });
+  });
+});
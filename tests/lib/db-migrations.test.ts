@@ -0,0 +1,47 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+
+const LEGACY_TX_HASH = 'cd'.repeat(32);
+
+describe('database migrations', () => {
+  it('upgrades a database created with the original schema', async () => {
+    // Escrows were keyed by txHash, with none of the columns added since
+    const legacy = new Database(process.env.SQLITE_DB_PATH!);
+    legacy.exec(`
+      CREATE TABLE wallets(address TEXT PRIMARY KEY);
+      CREATE TABLE transactions(
+        txHash TEXT PRIMARY KEY,
+        wallet TEXT,
+        amount INTEGER,
+        status TEXT,
+        timestamp INTEGER
+      );
+    `);
+    legacy.prepare(`INSERT INTO wallets(address) VALUES (?)`).run('addr_test1legacy');
+    legacy.prepare(`INSERT INTO transactions VALUES (?, ?, ?, ?, ?)`)
+      .run(LEGACY_TX_HASH, 'addr_test1legacy', 10_000_000, 'pending', 1_700_000_000_000);
+    legacy.close();
+
+    const { getTxById, getTxsByHash } = await import('@/lib/db');
+
+    expect(getTxsByHash(LEGACY_TX_HASH)).toHaveLength(1);
+    expect(getTxById(`${LEGACY_TX_HASH}#0`)).toMatchObject({
+      txHash: LEGACY_TX_HASH,
+      outputIndex: 0,
+      spent: false,
+      wallet: 'addr_test1legacy',
+      amount: 10_000_000,
+      status: 'pending',
+      validatorHash: process.env.ESCROW_VALIDATOR_HASH,
+    });
+
+    const upgraded = new Database(process.env.SQLITE_DB_PATH!, { readonly: true });
+    const indexes = upgraded
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'transactions'`)
+      .all() as { name: string }[];
+    upgraded.close();
+    expect(indexes.map(index => index.name)).toEqual(
+      expect.arrayContaining(['transactions_txHash', 'transactions_unlockTxHash'])
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { DatumField, TxOutputRequest } from '@/lib/chain-backend';
+import { EscrowAction } from '@/lib/escrow';
+import { getActiveValidator } from '@/lib/validator-registry';
+import { chain } from '../helpers/chain';
+import { HOUR_MS } from '../helpers/escrow';
+
+const DAY_MS = 24 * HOUR_MS;
+
+// The bundled validator, run by the emulator whenever a transaction spending an escrow is built
+describe('escrow validator', () => {
+  const depositor = chain().createWallet();
+  const beneficiary = chain().createWallet();
+  const validator = getActiveValidator();
+
+  const datumWith = (terms: Record<string, DatumField>) => ({
+    depositor: depositor.keyHash,
+    beneficiary: beneficiary.keyHash,
+    deadline: Date.now() + HOUR_MS,
+    refundAfter: Date.now() + 2 * HOUR_MS,
+    signers: [] as string[],
+    threshold: 0,
+    arbiter: '',
+    milestones: [] as number[],
+    vesting: [] as number[],
+    ...terms,
+  });
+
+  async function lock(datum: Record<string, DatumField>, lovelace = 10_000_000) {
+    const scriptAddress = await chain().getScriptAddress(validator.hash);
+    const built = await chain().buildTransaction({
+      changeAddress: depositor.address,
+      outputs: [escrowOutput(scriptAddress, lovelace, datum)],
+    });
+    await chain().submitTransaction([chain().signTransaction(built.complete, depositor.address)], built.complete);
+    return { txHash: built.hash, index: 0, scriptAddress };
+  }
+
+  function escrowOutput(address: string, lovelace: number, datum: Record<string, DatumField>): TxOutputRequest {
+    return {
+      address,
+      lovelace,
+      datum: { type: 'inline', value: datum, shape: { validatorHash: validator.hash, purpose: 'spend' } },
+    };
+  }
+
+  // Build a transaction spending the escrow by the given path; the build fails when the script does
+  function spend(
+    outputRef: { txHash: string; index: number },
+    wallet: { address: string; keyHash: string },
+    action: EscrowAction,
+    { validFrom, outputs, approvers = [], beneficiaryAmount }: {
+      validFrom?: number;
+      outputs?: TxOutputRequest[];
+      approvers?: string[];
+      beneficiaryAmount?: number;
+    } = {}
+  ) {
+    const redeemer = validator.redeemers[action]!;
+    return chain().buildTransaction({
+      changeAddress: wallet.address,
+      scriptInteractions: [{
+        hash: validator.hash,
+        purpose: 'spend',
+        outputRef,
+        redeemer: { type: 'json', value: beneficiaryAmount == null ? redeemer : { ...redeemer, beneficiaryAmount } },
+      }],
+      outputs,
+      requiredSigners: [wallet.keyHash, ...approvers],
+      ...(validFrom != null && { validityInterval: { start: validFrom } }),
+    });
+  }
+
+  it('opens the claim to the beneficiary at the deadline and the refund to the depositor at refundAfter', async () => {
+    const datum = datumWith({});
+    const escrow = await lock(datum);
+
+    await expect(spend(escrow, beneficiary, 'claim', { validFrom: datum.deadline - 1 })).rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, depositor, 'claim', { validFrom: datum.deadline })).rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, beneficiary, 'claim')).rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, beneficiary, 'claim', { validFrom: datum.deadline })).resolves.toHaveProperty('hash');
+
+    await expect(spend(escrow, depositor, 'refund', { validFrom: datum.deadline })).rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, beneficiary, 'refund', { validFrom: datum.refundAfter })).rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, depositor, 'refund', { validFrom: datum.refundAfter })).resolves.toHaveProperty('hash');
+  });
+
+  it('needs the threshold of approvers on every path', async () => {
+    const [first, second] = [chain().createWallet(), chain().createWallet()];
+    const datum = datumWith({ signers: [first.keyHash, second.keyHash], threshold: 2 });
+    const escrow = await lock(datum);
+
+    await expect(spend(escrow, beneficiary, 'claim', { validFrom: datum.deadline, approvers: [first.keyHash] }))
+      .rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, beneficiary, 'claim', { validFrom: datum.deadline, approvers: [first.keyHash, second.keyHash] }))
+      .resolves.toHaveProperty('hash');
+  });
+
+  it('lets the arbiter settle at any time with the split it names', async () => {
+    const arbiter = chain().createWallet();
+    const escrow = await lock(datumWith({ arbiter: arbiter.keyHash }));
+    const split = (depositorAmount: number) => [
+      { address: beneficiary.address, lovelace: 3_000_000 },
+      { address: depositor.address, lovelace: depositorAmount },
+    ];
+
+    await expect(spend(escrow, depositor, 'resolve', { beneficiaryAmount: 3_000_000, outputs: split(7_000_000) }))
+      .rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, arbiter, 'resolve', { beneficiaryAmount: 3_000_000, outputs: split(5_000_000) }))
+      .rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, arbiter, 'resolve', { beneficiaryAmount: 3_000_000, outputs: split(7_000_000) }))
+      .resolves.toHaveProperty('hash');
+  });
+
+  it('releases the next milestone only when the rest stays locked without it', async () => {
+    const datum = datumWith({ milestones: [4_000_000, 6_000_000] });
+    const { scriptAddress, ...escrow } = await lock(datum);
+    const release = (continuing: Record<string, DatumField>) => [
+      { address: beneficiary.address, lovelace: 4_000_000 },
+      escrowOutput(scriptAddress, 6_000_000, continuing),
+    ];
+
+    await expect(spend(escrow, depositor, 'release', { outputs: release(datum) })).rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, beneficiary, 'release', { outputs: release({ ...datum, milestones: [6_000_000] }) }))
+      .rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, depositor, 'release', { outputs: release({ ...datum, milestones: [6_000_000] }) }))
+      .resolves.toHaveProperty('hash');
+  });
+
+  it('lets the beneficiary take what has vested by the validity start', async () => {
+    const now = Date.now();
+    const start = now - 10 * DAY_MS;
+    const datum = datumWith({ vesting: [10_000_000, start, start, start + 20 * DAY_MS, 0] });
+    const { scriptAddress, ...escrow } = await lock(datum);
+    const claim = (lovelace: number) => [
+      { address: beneficiary.address, lovelace },
+      escrowOutput(scriptAddress, 10_000_000 - lovelace, datum),
+    ];
+
+    // Half has vested ten days into twenty
+    await expect(spend(escrow, beneficiary, 'vest', { validFrom: now, outputs: claim(6_000_000) }))
+      .rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, beneficiary, 'vest', { validFrom: start - 1, outputs: claim(1_000_000) }))
+      .rejects.toThrow(/Script validation failed/);
+    await expect(spend(escrow, beneficiary, 'vest', { validFrom: now, outputs: claim(5_000_000) }))
+      .resolves.toHaveProperty('hash');
+  });
+
+  it('pays out or continues only an escrow spent alone, while claims may be batched', async () => {
+    const now = Date.now();
+    const start = now - 10 * DAY_MS;
+    const datum = datumWith({ deadline: now - HOUR_MS, vesting: [10_000_000, start, start, start + 20 * DAY_MS, 0] });
+    const escrows = [await lock(datum), await lock(datum)];
+    const spendBoth = (action: EscrowAction, outputs?: TxOutputRequest[]) => chain().buildTransaction({
+      changeAddress: beneficiary.address,
+      scriptInteractions: escrows.map(({ txHash, index }) => ({
+        hash: validator.hash,
+        purpose: 'spend' as const,
+        outputRef: { txHash, index },
+        redeemer: { type: 'json' as const, value: validator.redeemers[action]! },
+      })),
+      outputs,
+      requiredSigners: [beneficiary.keyHash],
+      validityInterval: { start: now },
+    });
+
+    // Half of each has vested, yet one continuing output would cover both and release 15 ADA
+    await expect(spendBoth('vest', [
+      { address: beneficiary.address, lovelace: 15_000_000 },
+      escrowOutput(escrows[0].scriptAddress, 5_000_000, datum),
+    ])).rejects.toThrow(/Script validation failed/);
+    await expect(spendBoth('claim')).resolves.toHaveProperty('hash');
+  });
+});
@@ -0,0 +1,59 @@
+import { randomBytes } from 'crypto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { FakeChainProvider } from '@/lib/chain-provider';
+import { getTxById, insertTx, setChainTip } from '@/lib/db';
+import { reconcileEscrows } from '@/lib/reconciler';
+import { TX_EVENT_SOURCE, TX_STATUS } from '@/lib/types';
+
+const options = { signTtlMs: 60_000, approvalTtlMs: 60_000, pendingTtlMs: 60_000 };
+
+function pendingEscrow(amount: number): string {
+  const txHash = randomBytes(32).toString('hex');
+  insertTx(txHash, 0, 'addr_test1depositor', amount, TX_STATUS.PENDING, TX_EVENT_SOURCE.API);
+  return txHash;
+}
+
+describe('reconcileEscrows', () => {
+  afterEach(() => {
+    delete process.env.CONFIRMATION_THRESHOLDS;
+  });
+
+  it('holds a lock found on-chain in confirming until it is as deep as its amount requires', async () => {
+    process.env.CONFIRMATION_THRESHOLDS = '0:1,100000000:3';
+    const provider = new FakeChainProvider();
+    setChainTip({ height: 500, hash: 'tip' });
+
+    const shallow = pendingEscrow(200_000_000);
+    const deep = pendingEscrow(200_000_000);
+    const small = pendingEscrow(5_000_000);
+    provider.confirm(shallow, Date.now(), 499);
+    provider.confirm(deep, Date.now(), 498);
+    provider.confirm(small, Date.now(), 500);
+
+    const result = await reconcileEscrows(provider, options);
+    expect(result.confirmed).toBe(3);
+    expect(getTxById(`${shallow}#0`)).toMatchObject({
+      status: TX_STATUS.CONFIRMING,
+      blockHeight: 499,
+      confirmations: 2,
+      requiredConfirmations: 3,
+    });
+    expect(getTxById(`${deep}#0`)).toMatchObject({ status: TX_STATUS.CONFIRMED, confirmations: 3 });
+    expect(getTxById(`${small}#0`)).toMatchObject({ status: TX_STATUS.CONFIRMED, requiredConfirmations: 1 });
+  });
+
+  it('includes an expired lock whose tx turns up on-chain within the pending TTL', async () => {
+    const provider = new FakeChainProvider();
+    setChainTip({ height: 600, hash: 'tip' });
+    const txHash = pendingEscrow(5_000_000);
+    const expiredAt = Date.now() + options.pendingTtlMs;
+
+    await reconcileEscrows(provider, { ...options, now: expiredAt });
+    expect(getTxById(`${txHash}#0`)?.status).toBe(TX_STATUS.EXPIRED);
+
+    provider.confirm(txHash, Date.now(), 600);
+    const result = await reconcileEscrows(provider, options);
+    expect(result.confirmed).toBe(1);
+    expect(getTxById(`${txHash}#0`)).toMatchObject({ status: TX_STATUS.CONFIRMED, blockHeight: 600 });
+  });
+});